@@ -1,4 +1,4 @@
 #!/usr/bin/env node
 
 import main from '../out/cli/main.js';
-main();
+await main();
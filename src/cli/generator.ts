@@ -1,18 +1,22 @@
-import { expandToNode, joinToNode, toString } from 'langium/generate';
+import { CompositeGeneratorNode, NL, toString } from 'langium/generate';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import type { Model } from '../language/generated/ast.js';
+import type {
+    BlockItem, ConstDef, ConstInitVal, Decl, Exp, FuncDef, InitVal, Model, Stmt, VarDef
+} from '../language/generated/ast.js';
+import {
+    isConstDef, isFuncRParams, isStmtExp, isStmtLval, isStmtbreak, isStmtcontinue, isStmtelif, isStmtreturn, isStmtwhile
+} from '../language/generated/ast.js';
+import { SYLIB_FUNCTIONS, type FunctionSignature, type ScalarType } from '../compiler/runtime.js';
+import { parseNumber } from '../compiler/semantic.js';
 import { extractDestinationAndName } from './cli-util.js';
 
 export function generateJavaScript(model: Model, filePath: string, destination: string | undefined): string {
     const data = extractDestinationAndName(filePath, destination);
-    const generatedFilePath = `${path.join(data.destination, data.name)}.js`;
+    // 生成的代码使用 ES 模块语法读取标准输入，因此固定使用 .mjs 扩展名
+    const generatedFilePath = `${path.join(data.destination, data.name)}.mjs`;
 
-    const fileNode = expandToNode`
-        "use strict";
-
-    
-        ${joinToNode(model.functions, greetings => `console.log('Hello, ${greetings}!');`, { appendNewLineIfNotEmpty: true })}`.appendNewLineIfNotEmpty();
+    const fileNode = new JavaScriptGenerator().generate(model);
 
     if (!fs.existsSync(data.destination)) {
         fs.mkdirSync(data.destination, { recursive: true });
@@ -20,3 +24,502 @@ export function generateJavaScript(model: Model, filePath: string, destination:
     fs.writeFileSync(generatedFilePath, toString(fileNode));
     return generatedFilePath;
 }
+
+/** 变量、常量或形参在生成代码中的信息 */
+interface JsSymbol {
+    jsName: string;
+    type: ScalarType;
+    /** 数组维数，标量为 0 */
+    dims: number;
+}
+
+interface JsFunction extends FunctionSignature {
+    jsName: string;
+}
+
+/** 表达式的生成结果 */
+interface JsExpr {
+    code: string;
+    type: ScalarType | 'array' | 'void';
+    /** 作为条件使用时的布尔表达式（比较和逻辑运算才有） */
+    cond?: string;
+}
+
+/**
+ * 运行时库函数的 JavaScript 函数体，按 sylib 的输入输出格式读写标准输入输出。
+ * 函数头由 SYLIB_FUNCTIONS 中的签名生成，标量形参命名为 x，数组形参命名为 a。
+ */
+const RUNTIME_BODIES: Record<string, string> = {
+    getint: `    $skipSpace();
+    const m = $match(/[+-]?\\d+/y);
+    return m === undefined ? 0 : parseInt(m, 10) | 0;`,
+    getch: `    $readInput();
+    return $pos < $input.length ? $input.charCodeAt($pos++) : -1;`,
+    getfloat: `    $skipSpace();
+    const m = $match(/[+-]?(0[xX](?:[0-9a-fA-F]+\\.?[0-9a-fA-F]*|\\.[0-9a-fA-F]+)(?:[pP][+-]?\\d+)?|(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][+-]?\\d+)?|inf(?:inity)?|nan)/iy);
+    return m === undefined ? 0 : Math.fround($parseFloat(m));`,
+    getarray: `    const n = getint();
+    for (let i = 0; i < n; i++) a[i] = getint();
+    return n;`,
+    getfarray: `    const n = getint();
+    for (let i = 0; i < n; i++) a[i] = getfloat();
+    return n;`,
+    putint: `    $output.push(String(x));`,
+    putch: `    $output.push(String.fromCharCode(x & 255));`,
+    putfloat: `    $output.push($hexFloat(x));`,
+    putarray: `    $output.push(\`\${x}:\`);
+    for (let i = 0; i < x; i++) $output.push(\` \${a[i]}\`);
+    $output.push('\\n');`,
+    putfarray: `    $output.push(\`\${x}:\`);
+    for (let i = 0; i < x; i++) $output.push(\` \${$hexFloat(a[i])}\`);
+    $output.push('\\n');`,
+    starttime: `    $timerStart = process.hrtime.bigint();`,
+    stoptime: `    $timerTotal += process.hrtime.bigint() - $timerStart;
+    $timerUsed = true;`,
+};
+
+/** 按 sylib 中的签名生成运行时库函数的 JavaScript 实现 */
+function runtimeFunction(name: string, signature: FunctionSignature): string {
+    const body = RUNTIME_BODIES[name];
+    if (body === undefined) {
+        throw new Error(`No JavaScript implementation for runtime function '${name}'.`);
+    }
+    const params = signature.params.map(param => param.rank > 0 ? 'a' : 'x');
+    return `function ${name}(${params.join(', ')}) {\n${body}\n}`;
+}
+
+/** 所有生成程序都需要的辅助函数，名字带 $ 前缀以免和 SysY 标识符冲突 */
+const RUNTIME_SUPPORT = `import * as $fs from 'node:fs';
+
+let $input;
+let $pos = 0;
+const $output = [];
+let $timerStart = 0n;
+let $timerTotal = 0n;
+let $timerUsed = false;
+
+function $readInput() {
+    if ($input === undefined) {
+        try {
+            $input = $fs.readFileSync(0, 'latin1');
+        } catch {
+            $input = '';
+        }
+    }
+}
+
+function $skipSpace() {
+    $readInput();
+    while ($pos < $input.length && /\\s/.test($input[$pos])) $pos++;
+}
+
+function $match(re) {
+    re.lastIndex = $pos;
+    const m = re.exec($input);
+    if (!m) return undefined;
+    $pos = re.lastIndex;
+    return m[0];
+}
+
+function $parseFloat(text) {
+    const m = /^([+-]?)0[xX]([0-9a-fA-F]*)\\.?([0-9a-fA-F]*)(?:[pP]([+-]?\\d+))?$/.exec(text);
+    if (!m) return parseFloat(text.replace(/^([+-]?)inf(inity)?$/i, '$1Infinity'));
+    let value = parseInt(m[2] || '0', 16);
+    for (let i = 0; i < m[3].length; i++) value += parseInt(m[3][i], 16) / 16 ** (i + 1);
+    value *= 2 ** parseInt(m[4] || '0', 10);
+    return m[1] === '-' ? -value : value;
+}
+
+function $hexFloat(x) {
+    if (Number.isNaN(x)) return 'nan';
+    if (!Number.isFinite(x)) return x < 0 ? '-inf' : 'inf';
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, x);
+    const hi = view.getUint32(0);
+    const lo = view.getUint32(4);
+    const sign = hi >>> 31 ? '-' : '';
+    const biased = (hi >>> 20) & 0x7ff;
+    const mantissa = ((hi & 0xfffff).toString(16).padStart(5, '0') + lo.toString(16).padStart(8, '0')).replace(/0+$/, '');
+    if (biased === 0 && mantissa === '') return \`\${sign}0x0p+0\`;
+    const exp = biased === 0 ? -1022 : biased - 1023;
+    return \`\${sign}0x\${biased === 0 ? 0 : 1}\${mantissa ? '.' + mantissa : ''}p\${exp >= 0 ? '+' : ''}\${exp}\`;
+}
+
+function $first(item) {
+    return Array.isArray(item) ? (item.length ? $first(item[0]) : 0) : item;
+}
+
+function $fill(flat, dims, init) {
+    const sizes = dims.map((_, k) => dims.slice(k).reduce((a, b) => a * b, 1));
+    sizes.push(1);
+    let pos = 0;
+    const walk = (list, depth) => {
+        const start = pos;
+        for (const item of list) {
+            if (pos >= start + sizes[depth]) break;
+            if (Array.isArray(item)) {
+                // 花括号初始化当前位置能对齐的最大子数组
+                let k = depth + 1;
+                while (k < dims.length && (pos - start) % sizes[k] !== 0) k++;
+                if (k < dims.length) {
+                    walk(item, k);
+                } else {
+                    flat[pos++] = $first(item);
+                }
+            } else {
+                flat[pos++] = item;
+            }
+        }
+        pos = start + sizes[depth];
+    };
+    walk(init, 0);
+}
+
+function $shape(flat, dims) {
+    if (dims.length === 1) return flat;
+    const stride = dims.slice(1).reduce((a, b) => a * b, 1);
+    const rows = [];
+    for (let i = 0; i < dims[0]; i++) {
+        rows.push($shape(flat.subarray(i * stride, (i + 1) * stride), dims.slice(1)));
+    }
+    return rows;
+}
+
+function $array(Ctor, dims, init) {
+    const flat = new Ctor(dims.reduce((a, b) => a * b, 1));
+    if (init) $fill(flat, dims, init);
+    return $shape(flat, dims);
+}
+
+function $exit(code) {
+    $fs.writeSync(1, $output.join(''));
+    if ($timerUsed) {
+        const us = $timerTotal / 1000n;
+        const s = us / 1000000n;
+        $fs.writeSync(2, \`TOTAL: \${s / 3600n}H-\${s / 60n % 60n}M-\${s % 60n}S-\${us % 1000000n}us\\n\`);
+    }
+    process.exit(code & 255);
+}`;
+
+/** JavaScript 中不能直接作为标识符使用的名字 */
+const RESERVED_NAMES = new Set([
+    'arguments', 'await', 'case', 'catch', 'class', 'const', 'debugger', 'default', 'delete', 'do', 'enum',
+    'eval', 'export', 'extends', 'false', 'finally', 'for', 'function', 'implements', 'import', 'in',
+    'instanceof', 'interface', 'let', 'new', 'null', 'package', 'private', 'protected', 'public', 'static',
+    'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'with', 'yield', 'undefined',
+    'NaN', 'Infinity', 'Math', 'String', 'Array', 'Number', 'Object', 'DataView', 'ArrayBuffer',
+    'Int32Array', 'Float32Array', 'parseInt', 'parseFloat', 'process', 'globalThis',
+]);
+
+/**
+ * 把 SysY 编译单元翻译成可直接用 node 运行的 JavaScript。
+ * int 运算按 32 位补码回绕，float 运算用 Math.fround 保持单精度，
+ * 数组用 Int32Array/Float32Array 存储，多维数组的每一行都是同一块内存的视图。
+ */
+class JavaScriptGenerator {
+    private readonly functions = new Map<string, JsFunction>();
+    private readonly scopes: Array<Map<string, JsSymbol>> = [];
+    /** 当前可见的全局名字和当前函数内已经使用过的名字 */
+    private usedNames = new Set<string>();
+    private currentFunction: FuncDef | undefined;
+
+    generate(model: Model): CompositeGeneratorNode {
+        const node = new CompositeGeneratorNode();
+        node.append('"use strict";', NL, NL, RUNTIME_SUPPORT, NL);
+
+        const userFunctions = new Set(model.functions.map(f => f.name));
+        for (const [name, signature] of Object.entries(SYLIB_FUNCTIONS)) {
+            if (!userFunctions.has(name)) {
+                this.functions.set(name, { jsName: name, returnType: signature.returnType, params: signature.params });
+                this.usedNames.add(name);
+                node.append(NL, runtimeFunction(name, signature), NL);
+            }
+        }
+        for (const func of model.functions) {
+            const jsName = this.declareName(func.name);
+            this.functions.set(func.name, {
+                jsName,
+                returnType: func.functype,
+                params: func.funcFparam.map(p => ({ type: p.btype, rank: p.array ? p.extraExp.length + 1 : 0 })),
+            });
+        }
+
+        this.scopes.push(new Map());
+        const globals = [...model.declarations].sort((a, b) => (a.$cstNode?.offset ?? 0) - (b.$cstNode?.offset ?? 0));
+        if (globals.length > 0) {
+            node.append(NL);
+            globals.forEach(decl => this.generateDecl(decl, node));
+        }
+
+        const globalNames = new Set(this.usedNames);
+        for (const func of model.functions) {
+            this.usedNames = new Set(globalNames);
+            node.append(NL);
+            this.generateFunction(func, node);
+        }
+
+        const main = this.functions.get('main');
+        if (main && model.functions.some(f => f.name === 'main')) {
+            node.append(NL, `$exit(${main.jsName}());`, NL);
+        }
+        return node;
+    }
+
+    private generateFunction(func: FuncDef, node: CompositeGeneratorNode): void {
+        this.currentFunction = func;
+        const params = new Map<string, JsSymbol>();
+        const paramNames = func.funcFparam.map(param => {
+            const jsName = this.declareName(param.name);
+            params.set(param.name, { jsName, type: param.btype, dims: param.array ? param.extraExp.length + 1 : 0 });
+            return jsName;
+        });
+        node.append(`function ${this.functions.get(func.name)!.jsName}(${paramNames.join(', ')}) {`, NL);
+        this.scopes.push(params);
+        node.indent(body => this.generateBlockItems(func.block.blockItems, body));
+        this.scopes.pop();
+        node.append('}', NL);
+        this.currentFunction = undefined;
+    }
+
+    private generateBlockItems(items: BlockItem[], node: CompositeGeneratorNode): void {
+        this.scopes.push(new Map());
+        for (const item of items) {
+            if (item.blockDecl) {
+                this.generateDecl(item.blockDecl, node);
+            } else if (item.blockStmt) {
+                this.generateStmt(item.blockStmt, node);
+            }
+        }
+        this.scopes.pop();
+    }
+
+    /** 生成语句体，非语句块的语句也包上花括号 */
+    private generateBody(stmt: Stmt, node: CompositeGeneratorNode): void {
+        node.append('{', NL);
+        node.indent(body => {
+            if (stmt.$type === 'Block') {
+                this.generateBlockItems(stmt.blockItems, body);
+            } else {
+                this.scopes.push(new Map());
+                this.generateStmt(stmt, body);
+                this.scopes.pop();
+            }
+        });
+        node.append('}');
+    }
+
+    private generateStmt(stmt: Stmt, node: CompositeGeneratorNode): void {
+        if (isStmtLval(stmt)) {
+            const target = this.generateExp(stmt.lval);
+            const value = this.generateExp(stmt.expr1);
+            node.append(`${target.code} = ${this.convert(value, target.type as ScalarType)};`, NL);
+        } else if (isStmtExp(stmt)) {
+            if (stmt.expr2) {
+                node.append(`${this.generateExp(stmt.expr2).code};`, NL);
+            }
+        } else if (isStmtelif(stmt)) {
+            node.append(`if ${this.wrap(this.toCondition(this.generateExp(stmt.condition)))} `);
+            this.generateBody(stmt.ifstmt, node);
+            if (stmt.elsestmt) {
+                node.append(' else ');
+                this.generateBody(stmt.elsestmt, node);
+            }
+            node.append(NL);
+        } else if (isStmtwhile(stmt)) {
+            node.append(`while ${this.wrap(this.toCondition(this.generateExp(stmt.condition)))} `);
+            this.generateBody(stmt.whilestmt, node);
+            node.append(NL);
+        } else if (isStmtbreak(stmt)) {
+            node.append('break;', NL);
+        } else if (isStmtcontinue(stmt)) {
+            node.append('continue;', NL);
+        } else if (isStmtreturn(stmt)) {
+            const returnType = this.currentFunction?.functype ?? 'void';
+            if (stmt.tobereturn && returnType !== 'void') {
+                node.append(`return ${this.convert(this.generateExp(stmt.tobereturn), returnType)};`, NL);
+            } else {
+                node.append('return;', NL);
+            }
+        } else {
+            this.generateBody(stmt, node);
+            node.append(NL);
+        }
+    }
+
+    private generateDecl(decl: Decl, node: CompositeGeneratorNode): void {
+        const isConst = decl.defs.length > 0 && isConstDef(decl.defs[0]);
+        for (const def of decl.defs as Array<VarDef | ConstDef>) {
+            // 先生成维度和初值再登记名字：int a = a; 在 C 中是未定义行为，这里让初值中的 a 指向外层定义
+            const dims = def.index.map(dim => this.convert(this.generateExp(dim), 'int'));
+            const init = isConstDef(def) ? def as ConstInitVal : (def as VarDef).Init[0];
+            const keyword = isConst ? 'const' : 'let';
+            let value: string;
+            if (dims.length > 0) {
+                const ctor = decl.btype === 'int' ? 'Int32Array' : 'Float32Array';
+                const initCode = init ? `, ${this.generateInitList(init, decl.btype)}` : '';
+                value = `$array(${ctor}, [${dims.join(', ')}]${initCode})`;
+            } else if (init) {
+                value = this.generateScalarInit(init, decl.btype);
+            } else {
+                // 全局变量默认为 0，局部变量未初始化时的值未定义，这里同样取 0
+                value = '0';
+            }
+            const jsName = this.declareName(def.name);
+            this.scopes[this.scopes.length - 1].set(def.name, { jsName, type: decl.btype, dims: dims.length });
+            node.append(`${keyword} ${jsName} = ${value};`, NL);
+        }
+    }
+
+    private generateInitList(init: InitVal | ConstInitVal, type: ScalarType): string {
+        const [single, many] = this.initParts(init);
+        if (single.length > 0) {
+            return this.convert(this.generateExp(single[0]), type);
+        }
+        return `[${many.map(item => this.generateInitList(item, type)).join(', ')}]`;
+    }
+
+    private generateScalarInit(init: InitVal | ConstInitVal, type: ScalarType): string {
+        const [single, many] = this.initParts(init);
+        if (single.length > 0) {
+            return this.convert(this.generateExp(single[0]), type);
+        }
+        return many.length > 0 ? this.generateScalarInit(many[0], type) : '0';
+    }
+
+    private initParts(init: InitVal | ConstInitVal): [Exp[], Array<InitVal | ConstInitVal>] {
+        return 'singleCInit' in init ? [init.singleCInit, init.manyCInit] : [init.singleInit, init.manyInit];
+    }
+
+    private generateExp(exp: Exp): JsExpr {
+        switch (exp.$type) {
+            case 'NumberLiteral':
+                return this.generateNumber(exp.value);
+            case 'VariableLVal':
+            case 'ConstantLVal': {
+                const symbol = this.lookup(exp.value.$refText);
+                const indices = exp.index.map(index => `[${this.convert(this.generateExp(index), 'int')}]`).join('');
+                return {
+                    code: `${symbol.jsName}${indices}`,
+                    type: exp.index.length < symbol.dims ? 'array' : symbol.type,
+                };
+            }
+            case 'FunctionCall':
+            case 'FuncRParams': {
+                const func = this.functions.get(exp.funcname.$refText);
+                if (!func) {
+                    throw new Error(`Undefined function '${exp.funcname.$refText}'.`);
+                }
+                const args = isFuncRParams(exp) ? exp.funcRparams : [];
+                const argCodes = args.map((arg, i) => {
+                    const value = this.generateExp(arg);
+                    const param = func.params[i];
+                    return !param || param.rank > 0 ? value.code : this.convert(value, param.type);
+                });
+                return { code: `${func.jsName}(${argCodes.join(', ')})`, type: func.returnType };
+            }
+            case 'BinExpr':
+                return exp.left ? this.generateBinary(exp.operator, exp.left, exp.right) : this.generateUnary(exp.operator, exp.right);
+        }
+    }
+
+    private generateNumber(text: string): JsExpr {
+        const constant = parseNumber(text);
+        return constant.type === 'float'
+            ? { code: this.floatLiteral(constant.value), type: 'float' }
+            // 2147483648 截断后为负数，加括号以免和前面的负号连成 --
+            : { code: constant.value < 0 ? `(${constant.value})` : String(constant.value), type: 'int' };
+    }
+
+    private floatLiteral(value: number): string {
+        if (Number.isFinite(value)) {
+            return String(value);
+        }
+        return value > 0 ? 'Infinity' : '(-Infinity)';
+    }
+
+    private generateUnary(operator: string, operand: Exp): JsExpr {
+        const value = this.generateExp(operand);
+        switch (operator) {
+            case '-':
+                return value.type === 'float'
+                    ? { code: `(-${value.code})`, type: 'float' }
+                    : { code: `(-${value.code} | 0)`, type: 'int' };
+            case '!': {
+                const cond = `!${this.wrap(this.toCondition(value))}`;
+                return { code: `+${cond}`, type: 'int', cond };
+            }
+            default:
+                return value;
+        }
+    }
+
+    private generateBinary(operator: string, leftExp: Exp, rightExp: Exp): JsExpr {
+        const left = this.generateExp(leftExp);
+        const right = this.generateExp(rightExp);
+        if (operator === '&&' || operator === '||') {
+            const cond = `(${this.toCondition(left)} ${operator} ${this.toCondition(right)})`;
+            return { code: `+${cond}`, type: 'int', cond };
+        }
+        const type: ScalarType = left.type === 'float' || right.type === 'float' ? 'float' : 'int';
+        const l = this.convert(left, type);
+        const r = this.convert(right, type);
+        switch (operator) {
+            case '<': case '>': case '<=': case '>=': case '==': case '!=': {
+                const jsOperator = operator === '==' ? '===' : operator === '!=' ? '!==' : operator;
+                const cond = `(${l} ${jsOperator} ${r})`;
+                return { code: `+${cond}`, type: 'int', cond };
+            }
+        }
+        if (type === 'float') {
+            return { code: `Math.fround(${l} ${operator} ${r})`, type };
+        }
+        if (operator === '*') {
+            return { code: `Math.imul(${l}, ${r})`, type };
+        }
+        return { code: `(${l} ${operator} ${r} | 0)`, type };
+    }
+
+    /** 把表达式转换成 JavaScript 布尔条件 */
+    private toCondition(value: JsExpr): string {
+        return value.cond ?? `(${value.code} !== 0)`;
+    }
+
+    /** 按 SysY 的隐式类型转换规则把值转换为目标类型 */
+    private convert(value: JsExpr, type: ScalarType): string {
+        if (value.type === 'int' && type === 'float') {
+            return `Math.fround(${value.code})`;
+        }
+        if (value.type === 'float' && type === 'int') {
+            return `(${value.code} | 0)`;
+        }
+        return value.code;
+    }
+
+    private wrap(code: string): string {
+        return code.startsWith('(') && code.endsWith(')') ? code : `(${code})`;
+    }
+
+    private lookup(name: string): JsSymbol {
+        for (let i = this.scopes.length - 1; i >= 0; i--) {
+            const symbol = this.scopes[i].get(name);
+            if (symbol) {
+                return symbol;
+            }
+        }
+        throw new Error(`Undefined variable '${name}'.`);
+    }
+
+    /** 为 SysY 名字分配一个不与关键字、运行时和外层名字冲突的 JavaScript 名字 */
+    private declareName(name: string): string {
+        let jsName = RESERVED_NAMES.has(name) ? `${name}$` : name;
+        if (this.usedNames.has(jsName)) {
+            let counter = 1;
+            while (this.usedNames.has(`${name}$${counter}`)) {
+                counter++;
+            }
+            jsName = `${name}$${counter}`;
+        }
+        this.usedNames.add(jsName);
+        return jsName;
+    }
+}
@@ -5,9 +5,22 @@ import { HelloWorldLanguageMetaData } from '../language/generated/module.js';
 import { createHelloWorldServices } from '../language/hello-world-module.js';
 import { extractAstNode } from './cli-util.js';
 import { generateJavaScript } from './generator.js';
+import type { RunResult } from './run-worker.js';
+import { generateLlvm } from '../compiler/llvm-generator.js';
+import { generateRiscv } from '../compiler/riscv-generator.js';
+import { generateArm } from '../compiler/arm-generator.js';
+import { lowerToIr } from '../compiler/ir/lowering.js';
+import { printModule } from '../compiler/ir/printer.js';
+import { DEFAULT_INLINE_THRESHOLD } from '../compiler/ir/inliner.js';
+import { printLoopTree } from '../compiler/ir/loops.js';
+import { MAX_OPT_LEVEL, PassManager, codegenPipeline, optimizationPipeline } from '../compiler/ir/pass-manager.js';
+import type { AssemblyOptions } from '../compiler/ir-assembly-generator.js';
+import { REGISTER_ALLOCATORS, type RegisterAllocator } from '../compiler/regalloc/allocator.js';
+import { CompileError } from '../compiler/semantic.js';
 import { NodeFileSystem } from 'langium/node';
 import * as url from 'node:url';
 import * as fs from 'node:fs/promises';
+import { Worker } from 'node:worker_threads';
 import * as path from 'node:path';
 const __dirname = url.fileURLToPath(new URL('.', import.meta.url));
 
@@ -25,7 +38,168 @@ export type GenerateOptions = {
     destination?: string;
 }
 
-export default function(): void {
+/** -S 支持的目标架构 */
+const ASSEMBLY_TARGETS: Record<string, (model: Model, sourceName: string, options: AssemblyOptions) => string> = {
+    riscv64: generateRiscv,
+    armv7: generateArm,
+};
+
+/** --regalloc none 不经过 IR，按栈式求值直接从 AST 生成汇编 */
+const NO_REGALLOC = 'none';
+
+/** 解析 -O 的优化级别，不支持的级别直接退出 */
+function parseOptLevel(optLevel: string | undefined): number {
+    const level = Number(optLevel ?? 0);
+    if (!Number.isInteger(level) || level < 0 || level > MAX_OPT_LEVEL) {
+        console.error(chalk.red(`Unknown optimization level '-O${optLevel}'. Supported levels: 0 to ${MAX_OPT_LEVEL}.`));
+        process.exit(1);
+    }
+    return level;
+}
+
+/** 解析 --inline-threshold，不是整数时直接退出 */
+function parseInlineThreshold(threshold: string | undefined): number {
+    const value = Number(threshold ?? DEFAULT_INLINE_THRESHOLD);
+    if (!Number.isInteger(value)) {
+        console.error(chalk.red(`Invalid inline threshold '${threshold}'.`));
+        process.exit(1);
+    }
+    return value;
+}
+
+export const compileAction = async (fileName: string, opts: CompileOptions): Promise<void> => {
+    if (!opts.emitLlvm && !opts.S) {
+        console.error(chalk.red('Please choose an output format: --emit-llvm or -S.'));
+        process.exit(1);
+    }
+    const target = opts.target ?? 'riscv64';
+    const generateAssembly = ASSEMBLY_TARGETS[target];
+    if (opts.S && !generateAssembly) {
+        console.error(chalk.red(`Unknown target '${target}'. Supported targets: ${Object.keys(ASSEMBLY_TARGETS).join(', ')}.`));
+        process.exit(1);
+    }
+    const regalloc = opts.regalloc ?? 'graph';
+    if (regalloc !== NO_REGALLOC && !REGISTER_ALLOCATORS.includes(regalloc as RegisterAllocator)) {
+        console.error(chalk.red(`Unknown register allocator '${regalloc}'. Supported allocators: ${[...REGISTER_ALLOCATORS, NO_REGALLOC].join(', ')}.`));
+        process.exit(1);
+    }
+    const optLevel = parseOptLevel(opts.optLevel);
+    if (regalloc === NO_REGALLOC && optLevel > 0) {
+        console.error(chalk.red(`Optimization levels above -O0 need a register allocator, not '--regalloc ${NO_REGALLOC}'.`));
+        process.exit(1);
+    }
+    const inlineThreshold = parseInlineThreshold(opts.inlineThreshold);
+    if (opts.emitLlvm && optLevel > 0) {
+        // LLVM IR 直接从 AST 生成，不经过这里的优化
+        console.error(chalk.red('Optimization levels above -O0 are only supported with -S.'));
+        process.exit(1);
+    }
+    const assemblyOptions: AssemblyOptions = {
+        regalloc: regalloc === NO_REGALLOC ? undefined : regalloc as RegisterAllocator,
+        optLevel,
+        inlineThreshold,
+    };
+    const services = createHelloWorldServices(NodeFileSystem).HelloWorld;
+    const model = await extractAstNode<Model>(fileName, services);
+    const extension = opts.emitLlvm ? '.ll' : '.s';
+    const output = opts.output ?? path.join(path.dirname(fileName), `${path.basename(fileName, path.extname(fileName))}${extension}`);
+    let code: string;
+    try {
+        code = opts.emitLlvm ? generateLlvm(model, path.basename(fileName)) : generateAssembly(model, path.basename(fileName), assemblyOptions);
+    } catch (error) {
+        if (error instanceof CompileError) {
+            console.error(chalk.red(`Compilation failed: ${error.message}`));
+            process.exit(1);
+        }
+        throw error;
+    }
+    await fs.writeFile(output, code);
+    console.log(chalk.green(`${opts.emitLlvm ? 'LLVM IR' : `${target} assembly`} generated successfully: ${output}`));
+};
+
+export type CompileOptions = {
+    emitLlvm?: boolean;
+    S?: boolean;
+    target?: string;
+    regalloc?: string;
+    optLevel?: string;
+    inlineThreshold?: string;
+    output?: string;
+}
+
+export const irAction = async (fileName: string, opts: IrOptions): Promise<void> => {
+    const level = parseOptLevel(opts.optLevel);
+    const inlineThreshold = parseInlineThreshold(opts.inlineThreshold);
+    const services = createHelloWorldServices(NodeFileSystem).HelloWorld;
+    const model = await extractAstNode<Model>(fileName, services);
+    let text: string;
+    try {
+        const module = lowerToIr(model);
+        // --ssa 时与生成代码时一样，先构造 SSA，最后退出 SSA
+        const passes = (opts.ssa ? codegenPipeline : optimizationPipeline)(level, { inlineThreshold });
+        if (opts.ssa || opts.printAfterAll) {
+            // 依次输出第一遍之前和每一遍之后的 IR
+            const stages = [`; *** IR before ${passes[0]?.name ?? 'any pass'} ***\n${printModule(module)}`];
+            new PassManager({ printAfterEach: (pass, ir) => stages.push(`; *** IR after ${pass.name} ***\n${ir}`) }).add(...passes).run(module);
+            text = stages.join('\n');
+        } else {
+            new PassManager().add(...passes).run(module);
+            text = printModule(module);
+        }
+        if (opts.printLoops) {
+            // 循环树以注释的形式附在最后，输出仍然可以被解析
+            text += module.functions.map(func => printLoopTree(func)).join('');
+        }
+    } catch (error) {
+        if (error instanceof CompileError) {
+            console.error(chalk.red(`Compilation failed: ${error.message}`));
+            process.exit(1);
+        }
+        throw error;
+    }
+    if (opts.output) {
+        await fs.writeFile(opts.output, text);
+        console.log(chalk.green(`IR generated successfully: ${opts.output}`));
+    } else {
+        process.stdout.write(text);
+    }
+};
+
+export type IrOptions = {
+    ssa?: boolean;
+    optLevel?: string;
+    inlineThreshold?: string;
+    printAfterAll?: boolean;
+    printLoops?: boolean;
+    output?: string;
+}
+
+/** 解释执行时的栈大小（MB），足够递归几十万层 */
+const RUN_STACK_SIZE_MB = 1024;
+
+export const runAction = async (fileName: string): Promise<void> => {
+    // 解析器用 console.log 报告文法二义性，标准输出只留给被执行的程序
+    console.log = console.error;
+    // 先在主线程中验证，报告错误的方式与其他命令相同
+    await extractAstNode<Model>(fileName, createHelloWorldServices(NodeFileSystem).HelloWorld);
+    const worker = new Worker(new URL('./run-worker.js', import.meta.url), {
+        workerData: { fileName },
+        resourceLimits: { stackSizeMb: RUN_STACK_SIZE_MB },
+    });
+    // 先到的结果有效：worker 发回的结果、没有捕获的异常（例如栈溢出的 RangeError），或者没有结果就退出
+    const result = await new Promise<RunResult>(resolve => {
+        worker.once('message', resolve);
+        worker.once('error', error => resolve({ error: `Runtime error: ${error.message}` }));
+        worker.once('exit', code => resolve({ error: `Runtime error: the interpreter exited with code ${code} before the program finished.` }));
+    });
+    if ('error' in result) {
+        console.error(chalk.red(result.error));
+        process.exit(1);
+    }
+    process.exit(result.exitCode);
+};
+
+export default async function(): Promise<void> {
     const program = new Command();
 
     program.version(JSON.parse(packageContent).version);
@@ -35,8 +209,40 @@ export default function(): void {
         .command('generate')
         .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
         .option('-d, --destination <dir>', 'destination directory of generating')
-        .description('generates JavaScript code that prints "Hello, {name}!" for each greeting in a source file')
+        .description('generates a JavaScript program (run with node) that executes the SysY source file')
         .action(generateAction);
 
-    program.parse(process.argv);
+    program
+        .command('compile')
+        .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
+        .option('--emit-llvm', 'emit textual LLVM IR')
+        .option('-S', 'emit assembly for the target architecture')
+        .option('--target <arch>', 'target architecture for -S (riscv64, armv7)')
+        .option('--regalloc <allocator>', 'register allocator for -S: graph (Chaitin-Briggs graph coloring), linear (linear scan) or none (stack-based code straight from the AST)', 'graph')
+        .option('-O, --opt-level <level>', 'optimization level for -S: 0 (none) or 1 (mem2reg, inlining, SCCP, aggressive DCE and LICM)', '0')
+        .option('--inline-threshold <size>', 'with -O1, inline calls whose cost (callee size minus the call itself) is at most this', String(DEFAULT_INLINE_THRESHOLD))
+        .option('-o, --output <file>', 'output file')
+        .description('compiles the SysY source file')
+        .action(compileAction);
+
+    program
+        .command('ir')
+        .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
+        .option('--ssa', 'print the IR before and after SSA construction (mem2reg) and after leaving SSA')
+        .option('-O, --opt-level <level>', 'optimization level: 0 (none) or 1 (mem2reg, inlining, SCCP, aggressive DCE and LICM)', '0')
+        .option('--inline-threshold <size>', 'inline calls whose cost (callee size minus the call itself) is at most this', String(DEFAULT_INLINE_THRESHOLD))
+        .option('--print-after-all', 'print the IR before the first pass and after every pass')
+        .option('--print-loops', 'append the loop tree of every function (headers, preheaders and nesting depth)')
+        .option('-o, --output <file>', 'output file (defaults to standard output)')
+        .description('prints the intermediate representation of the SysY source file')
+        .action(irAction);
+
+    program
+        .command('run')
+        .argument('<file>', `source file (possible file extensions: ${fileExtensions})`)
+        .description('interprets the SysY source file: runtime functions read standard input and write standard output, and the exit code is the return value of main modulo 256')
+        .action(runAction);
+
+    // 异步命令的错误要在这里等到，否则会变成未处理的 Promise 拒绝
+    await program.parseAsync(process.argv);
 }
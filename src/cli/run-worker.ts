@@ -0,0 +1,47 @@
+import type { Model } from '../language/generated/ast.js';
+import { NodeFileSystem } from 'langium/node';
+import { readFileSync, writeSync } from 'node:fs';
+import { parentPort, workerData } from 'node:worker_threads';
+import { RuntimeError, runProgram } from '../compiler/interpreter.js';
+import { CompileError } from '../compiler/semantic.js';
+import { createHelloWorldServices } from '../language/hello-world-module.js';
+import { extractAstNode } from './cli-util.js';
+
+/**
+ * run 命令在这个 worker 中解释执行程序。解释器递归遍历 AST，
+ * SysY 程序的递归深度需要比主线程大得多的栈，worker 可以指定栈的大小。
+ */
+
+/** worker 执行结束后发回主线程的结果 */
+export type RunResult = { exitCode: number } | { error: string };
+
+// 解析器用 console.log 报告文法二义性，标准输出只留给被执行的程序
+console.log = console.error;
+
+const services = createHelloWorldServices(NodeFileSystem).HelloWorld;
+const model = await extractAstNode<Model>((workerData as { fileName: string }).fileName, services);
+let result: RunResult;
+try {
+    const exitCode = runProgram(model, {
+        readInput: () => {
+            try {
+                return readFileSync(0, 'latin1');
+            } catch {
+                return '';
+            }
+        },
+        // putch 输出的是字节，按 latin1 写出
+        writeOutput: text => writeSync(1, Buffer.from(text, 'latin1')),
+        writeError: text => writeSync(2, text),
+    });
+    result = { exitCode };
+} catch (error) {
+    if (error instanceof CompileError) {
+        result = { error: `Compilation failed: ${error.message}` };
+    } else if (error instanceof RuntimeError) {
+        result = { error: `Runtime error: ${error.message}` };
+    } else {
+        throw error;
+    }
+}
+parentPort!.postMessage(result);
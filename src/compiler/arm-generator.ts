@@ -0,0 +1,485 @@
+import type { Model } from '../language/generated/ast.js';
+import {
+    AssemblyGenerator, alignUp, type ArgumentLayout, type ArgumentLocation, type FrameInfo, type ValueKind
+} from './assembly-generator.js';
+import type { BinaryOperator, ComparePredicate, ScalarIrType, UnaryOperator } from './ir/ir.js';
+import { IrAssemblyGenerator, type AssemblyOptions, type MemoryType, type RegisterFrameInfo, type SavedRegister } from './ir-assembly-generator.js';
+import type { TargetRegisters } from './regalloc/registers.js';
+import type { ScalarType } from './runtime.js';
+import { CompileError, floatBits, type ConstValue } from './semantic.js';
+
+/**
+ * 把通过验证的 SysY 编译单元翻译为 ARMv7-A 的 GNU 汇编（AAPCS-VFP 硬浮点调用约定），
+ * 可以直接与 sylib 链接。整数除法使用 sdiv，需要 armv7ve（Cortex-A7 及以上）。
+ * 指定寄存器分配算法时经过 IR 生成，否则按栈式求值直接从 AST 生成。
+ */
+export function generateArm(model: Model, sourceName = 'module', options: AssemblyOptions = {}): string {
+    if (options.regalloc) {
+        return new ArmIrGenerator(options.regalloc, options.optLevel, options).generate(model, sourceName);
+    }
+    return new ArmGenerator().generate(model, sourceName);
+}
+
+const CORE_ARGUMENT_REGISTERS = 4;
+const VFP_ARGUMENT_REGISTERS = 16;
+
+/** 比较运算对应的条件码：整数比较和 vcmp 之后的浮点比较 */
+const CONDITIONS: Record<string, [string, string]> = {
+    '<': ['lt', 'mi'],
+    '>': ['gt', 'gt'],
+    '<=': ['le', 'ls'],
+    '>=': ['ge', 'ge'],
+    '==': ['eq', 'eq'],
+    '!=': ['ne', 'ne'],
+};
+
+/** IR 比较谓词对应的运算符 */
+const PREDICATE_OPERATORS: Record<ComparePredicate, string> = { eq: '==', ne: '!=', lt: '<', le: '<=', gt: '>', ge: '>=' };
+
+/**
+ * 参与分配的寄存器：r4-r10 和 s16-s31，都是被调用者保存的。
+ * r0-r3、s0-s15 用于传参，其中 r0-r2、s0-s2 兼作临时寄存器，ip 用于装入超出范围的偏移。
+ */
+const ALLOCATABLE_REGISTERS: TargetRegisters = {
+    int: { callerSaved: [], calleeSaved: ['r4', 'r5', 'r6', 'r7', 'r8', 'r9', 'r10'] },
+    float: { callerSaved: [], calleeSaved: Array.from({ length: 16 }, (_, i) => `s${16 + i}`) },
+};
+
+/** 能否编码为数据处理指令的立即数：8 位值循环右移偶数位 */
+function isEncodableImmediate(value: number): boolean {
+    const unsigned = value >>> 0;
+    for (let rotate = 0; rotate < 32; rotate += 2) {
+        const rotated = ((unsigned << rotate) | (unsigned >>> (32 - rotate))) >>> 0;
+        if (rotated <= 0xff) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * 按 AAPCS-VFP 分配实参位置：整数和地址用 r0-r3，浮点用 s0-s15，
+ * 用完后按顺序放在栈上，每个占 4 字节。
+ */
+function argumentLayout(kinds: ValueKind[]): ArgumentLayout {
+    let coreCount = 0;
+    let vfpCount = 0;
+    let stackSize = 0;
+    const locations = kinds.map((kind): ArgumentLocation => {
+        if (kind === 'float' && vfpCount < VFP_ARGUMENT_REGISTERS) {
+            return { register: `s${vfpCount++}` };
+        }
+        if (kind !== 'float' && coreCount < CORE_ARGUMENT_REGISTERS) {
+            return { register: `r${coreCount++}` };
+        }
+        const location = { stackOffset: stackSize };
+        stackSize += 4;
+        return location;
+    });
+    return { locations, stackSize };
+}
+
+/**
+ * 访存指令。ldr/str 的偏移范围是 ±4095，vldr/vstr 是 ±1020 且为 4 的倍数，
+ * 超出时先在 ip 中算出地址。
+ */
+function memoryLines(op: string, register: string, offset: number, base: string): string[] {
+    const inRange = op.startsWith('v') ? offset >= -1020 && offset <= 1020 && offset % 4 === 0 : offset >= -4095 && offset <= 4095;
+    if (inRange) {
+        return [`${op} ${register}, [${base}, #${offset}]`];
+    }
+    return [...immediateLines('ip', offset), `add ip, ${base}, ip`, `${op} ${register}, [ip]`];
+}
+
+/** 用 movw/movt 装入任意 32 位常量，避免文字池超出范围 */
+function immediateLines(register: string, value: number): string[] {
+    const unsigned = value >>> 0;
+    const lines = [`movw ${register}, #${unsigned & 0xffff}`];
+    if (unsigned > 0xffff) {
+        lines.push(`movt ${register}, #${unsigned >>> 16}`);
+    }
+    return lines;
+}
+
+/**
+ * 加上序言和尾声：push {fp, lr} 之后 fp 指向保存的旧 fp，局部变量紧挨着 fp 向下分配；
+ * 用到的被调用者保存的寄存器保存在栈帧中给定的位置。
+ */
+function functionLines(name: string, body: string[], frame: FrameInfo, savedRegisters: SavedRegister[]): string[] {
+    const frameSize = alignUp(frame.localSize + frame.outgoingSize, 8);
+    const lines = [
+        '\t.align\t2',
+        `\t.globl\t${name}`,
+        `\t.type\t${name}, %function`,
+        `${name}:`,
+        '\tpush {fp, lr}',
+        '\tmov fp, sp',
+    ];
+    if (frameSize > 0) {
+        if (isEncodableImmediate(frameSize)) {
+            lines.push(`\tsub sp, sp, #${frameSize}`);
+        } else {
+            lines.push(...immediateLines('ip', frameSize).map(line => `\t${line}`), '\tsub sp, sp, ip');
+        }
+    }
+    const saveLines = (load: boolean) => savedRegisters.flatMap(({ register, offset }) => {
+        const op = isVfpRegister(register) ? load ? 'vldr' : 'vstr' : load ? 'ldr' : 'str';
+        return memoryLines(op, register, offset, 'fp').map(line => `\t${line}`);
+    });
+    lines.push(
+        ...saveLines(false),
+        ...body,
+        ...saveLines(true),
+        '\tmov sp, fp',
+        '\tpop {fp, pc}',
+        `\t.size\t${name}, .-${name}`,
+    );
+    return lines;
+}
+
+function isVfpRegister(register: string): boolean {
+    return /^s\d+$/.test(register);
+}
+
+class ArmGenerator extends AssemblyGenerator {
+    protected readonly pointerSize = 4;
+    // push {fp, lr} 之后 fp 指向保存的旧 fp，局部变量紧挨着 fp 向下分配
+    protected readonly savedRegistersSize = 0;
+    protected readonly incomingArgumentsOffset = 8;
+    protected readonly registers = { accumulator: 'r0', secondary: 'r1', floatAccumulator: 's0', floatSecondary: 's1' };
+
+    protected fileHeader(sourceName: string): string[] {
+        return [
+            '\t.arch armv7ve',
+            '\t.fpu vfpv4',
+            '\t.eabi_attribute 28, 1',
+            '\t.syntax unified',
+            '\t.arm',
+            `\t.file\t"${sourceName}"`,
+            '\t.text',
+        ];
+    }
+
+    protected symbolType(type: 'object' | 'function'): string {
+        return `%${type}`;
+    }
+
+    protected functionText(name: string, body: string[], frame: FrameInfo): string[] {
+        return functionLines(name, body, frame, []);
+    }
+
+    protected argumentLayout(kinds: ValueKind[]): ArgumentLayout {
+        return argumentLayout(kinds);
+    }
+
+    protected loadConstant(constant: ConstValue): void {
+        if (constant.type === 'int') {
+            this.moveImmediate('r0', constant.value);
+        } else {
+            this.moveImmediate('ip', floatBits(constant.value));
+            this.emit('vmov s0, ip');
+        }
+    }
+
+    protected loadSlot(kind: ValueKind, register: string, offset: number, base = 'fp'): void {
+        this.memory(kind === 'float' ? 'vldr' : 'ldr', register, offset, base);
+    }
+
+    protected storeSlot(kind: ValueKind, register: string, offset: number, base = 'fp'): void {
+        this.memory(kind === 'float' ? 'vstr' : 'str', register, offset, base);
+    }
+
+    protected localAddress(register: string, offset: number): void {
+        if (isEncodableImmediate(-offset)) {
+            this.emit(`sub ${register}, fp, #${-offset}`);
+        } else {
+            this.moveImmediate('ip', offset);
+            this.emit(`add ${register}, fp, ip`);
+        }
+    }
+
+    protected globalAddress(label: string): void {
+        this.emit(`movw r0, #:lower16:${label}`);
+        this.emit(`movt r0, #:upper16:${label}`);
+    }
+
+    protected indexAddress(stride: number): void {
+        if ((stride & (stride - 1)) === 0) {
+            this.emit(`add r0, r1, r0, lsl #${Math.log2(stride)}`);
+        } else {
+            this.moveImmediate('r2', stride);
+            this.emit('mla r0, r0, r2, r1');
+        }
+    }
+
+    protected loadIndirect(type: ScalarType): void {
+        this.emit(type === 'int' ? 'ldr r0, [r0]' : 'vldr s0, [r0]');
+    }
+
+    protected storeIndirect(type: ScalarType): void {
+        this.emit(type === 'int' ? 'str r1, [r0]' : 'vstr s1, [r0]');
+    }
+
+    protected intBinary(operator: string): void {
+        switch (operator) {
+            case '+': this.emit('add r0, r1, r0'); return;
+            case '-': this.emit('sub r0, r1, r0'); return;
+            case '*': this.emit('mul r0, r1, r0'); return;
+            case '/': this.emit('sdiv r0, r1, r0'); return;
+            case '%':
+                this.emit('sdiv r2, r1, r0');
+                this.emit('mls r0, r2, r0, r1');
+                return;
+        }
+        const condition = CONDITIONS[operator];
+        if (!condition) {
+            throw new CompileError(`未知运算符 '${operator}'。`);
+        }
+        this.emit('cmp r1, r0');
+        this.emit('mov r0, #0');
+        this.emit(`mov${condition[0]} r0, #1`);
+    }
+
+    protected floatBinary(operator: string): ValueKind {
+        switch (operator) {
+            case '+': this.emit('vadd.f32 s0, s1, s0'); return 'float';
+            case '-': this.emit('vsub.f32 s0, s1, s0'); return 'float';
+            case '*': this.emit('vmul.f32 s0, s1, s0'); return 'float';
+            case '/': this.emit('vdiv.f32 s0, s1, s0'); return 'float';
+        }
+        const condition = CONDITIONS[operator];
+        if (!condition) {
+            throw new CompileError(`浮点数不能进行 '${operator}' 运算。`);
+        }
+        this.emit('vcmp.f32 s1, s0');
+        this.emit('vmrs APSR_nzcv, FPSCR');
+        this.emit('mov r0, #0');
+        this.emit(`mov${condition[1]} r0, #1`);
+        return 'int';
+    }
+
+    protected negate(type: ScalarType): void {
+        this.emit(type === 'int' ? 'rsb r0, r0, #0' : 'vneg.f32 s0, s0');
+    }
+
+    protected logicalNot(type: ScalarType): void {
+        this.compareWithZero(type);
+        this.emit('mov r0, #0');
+        this.emit('moveq r0, #1');
+    }
+
+    protected convertValue(from: ScalarType, to: ScalarType): void {
+        if (to === 'float') {
+            this.emit('vmov s0, r0');
+            this.emit('vcvt.f32.s32 s0, s0');
+        } else {
+            // vcvt.s32.f32 向零舍入
+            this.emit('vcvt.s32.f32 s0, s0');
+            this.emit('vmov r0, s0');
+        }
+    }
+
+    protected convertSecondaryToFloat(): void {
+        this.emit('vmov s1, r1');
+        this.emit('vcvt.f32.s32 s1, s1');
+    }
+
+    protected branch(type: ScalarType, trueLabel: string, falseLabel: string): void {
+        this.compareWithZero(type);
+        this.emit(`bne ${trueLabel}`);
+        this.emit(`b ${falseLabel}`);
+    }
+
+    protected jump(label: string): void {
+        this.emit(`b ${label}`);
+    }
+
+    protected call(symbol: string): void {
+        // 返回值本来就在 r0 或 s0 中
+        this.emit(`bl ${symbol}`);
+    }
+
+    protected setReturnValue(type: ScalarType, fromAccumulator: boolean): void {
+        if (fromAccumulator) {
+            return;
+        }
+        if (type === 'int') {
+            this.emit('mov r0, #0');
+        } else {
+            this.emit('mov ip, #0');
+            this.emit('vmov s0, ip');
+        }
+    }
+
+    protected clearMemory(offset: number, size: number): void {
+        this.localAddress('r0', offset);
+        this.emit('mov r1, #0');
+        this.moveImmediate('r2', size);
+        this.emit('bl memset');
+    }
+
+    private compareWithZero(type: ScalarType): void {
+        if (type === 'float') {
+            this.emit('vcmp.f32 s0, #0');
+            this.emit('vmrs APSR_nzcv, FPSCR');
+        } else {
+            this.emit('cmp r0, #0');
+        }
+    }
+
+    private memory(op: string, register: string, offset: number, base: string): void {
+        memoryLines(op, register, offset, base).forEach(line => this.emit(line));
+    }
+
+    private moveImmediate(register: string, value: number): void {
+        immediateLines(register, value).forEach(line => this.emit(line));
+    }
+}
+
+class ArmIrGenerator extends IrAssemblyGenerator {
+    protected readonly pointerSize = 4;
+    protected readonly savedRegistersSize = 0;
+    protected readonly incomingArgumentsOffset = 8;
+    protected readonly framePointer = 'fp';
+    protected readonly stackPointer = 'sp';
+    protected readonly allocatable = ALLOCATABLE_REGISTERS;
+    protected readonly scratch = { int: ['r0', 'r1', 'r2'], float: ['s0', 's1', 's2'] } as const;
+    protected readonly returnRegisters = { int: 'r0', float: 's0' };
+
+    protected fileHeader(sourceName: string): string[] {
+        return [
+            '\t.arch armv7ve',
+            '\t.fpu vfpv4',
+            '\t.eabi_attribute 28, 1',
+            '\t.syntax unified',
+            '\t.arm',
+            `\t.file\t"${sourceName}"`,
+            '\t.text',
+        ];
+    }
+
+    protected symbolType(type: 'object' | 'function'): string {
+        return `%${type}`;
+    }
+
+    protected functionText(name: string, body: string[], frame: RegisterFrameInfo): string[] {
+        return functionLines(name, body, frame, frame.savedRegisters);
+    }
+
+    protected argumentLayout(kinds: ValueKind[]): ArgumentLayout {
+        return argumentLayout(kinds);
+    }
+
+    protected isFloatRegister(register: string): boolean {
+        return isVfpRegister(register);
+    }
+
+    protected loadImmediate(register: string, value: number): void {
+        if (value >= 0 && isEncodableImmediate(value)) {
+            this.emit(`mov ${register}, #${value}`);
+        } else {
+            immediateLines(register, value).forEach(line => this.emit(line));
+        }
+    }
+
+    protected loadFloatImmediate(register: string, value: number): void {
+        immediateLines('ip', value).forEach(line => this.emit(line));
+        this.emit(`vmov ${register}, ip`);
+    }
+
+    protected move(dest: string, source: string): void {
+        const op = isVfpRegister(dest) && isVfpRegister(source) ? 'vmov.f32' : isVfpRegister(dest) || isVfpRegister(source) ? 'vmov' : 'mov';
+        this.emit(`${op} ${dest}, ${source}`);
+    }
+
+    protected loadMemory(type: MemoryType, register: string, offset: number, base: string): void {
+        this.memory(type === 'f32' && isVfpRegister(register) ? 'vldr' : 'ldr', register, offset, base);
+    }
+
+    protected storeMemory(type: MemoryType, register: string, offset: number, base: string): void {
+        this.memory(type === 'f32' && isVfpRegister(register) ? 'vstr' : 'str', register, offset, base);
+    }
+
+    protected globalAddress(register: string, label: string): void {
+        this.emit(`movw ${register}, #:lower16:${label}`);
+        this.emit(`movt ${register}, #:upper16:${label}`);
+    }
+
+    protected addImmediate(dest: string, source: string, value: number): void {
+        if (value >= 0 && isEncodableImmediate(value)) {
+            this.emit(`add ${dest}, ${source}, #${value}`);
+        } else if (value < 0 && isEncodableImmediate(-value)) {
+            this.emit(`sub ${dest}, ${source}, #${-value}`);
+        } else {
+            immediateLines('ip', value).forEach(line => this.emit(line));
+            this.emit(`add ${dest}, ${source}, ip`);
+        }
+    }
+
+    protected indexAddress(dest: string, base: string, index: string, stride: number): void {
+        if ((stride & (stride - 1)) === 0) {
+            this.emit(`add ${dest}, ${base}, ${index}, lsl #${Math.log2(stride)}`);
+        } else {
+            immediateLines('ip', stride).forEach(line => this.emit(line));
+            this.emit(`mla ${dest}, ${index}, ip, ${base}`);
+        }
+    }
+
+    protected binary(operator: BinaryOperator, dest: string, left: string, right: string): void {
+        if (operator === 'srem') {
+            this.emit(`sdiv ip, ${left}, ${right}`);
+            this.emit(`mls ${dest}, ip, ${right}, ${left}`);
+            return;
+        }
+        const op = {
+            add: 'add', sub: 'sub', mul: 'mul', sdiv: 'sdiv',
+            fadd: 'vadd.f32', fsub: 'vsub.f32', fmul: 'vmul.f32', fdiv: 'vdiv.f32',
+        }[operator];
+        this.emit(`${op} ${dest}, ${left}, ${right}`);
+    }
+
+    protected unary(operator: UnaryOperator, dest: string, source: string): void {
+        switch (operator) {
+            case 'neg': this.emit(`rsb ${dest}, ${source}, #0`); return;
+            case 'fneg': this.emit(`vneg.f32 ${dest}, ${source}`); return;
+            case 'itof':
+                this.emit(`vmov ${dest}, ${source}`);
+                this.emit(`vcvt.f32.s32 ${dest}, ${dest}`);
+                return;
+            case 'ftoi':
+                // vcvt.s32.f32 向零舍入，结果先放在浮点临时寄存器中
+                this.emit(`vcvt.s32.f32 s2, ${source}`);
+                this.emit(`vmov ${dest}, s2`);
+                return;
+        }
+    }
+
+    protected compare(operandType: ScalarIrType, predicate: ComparePredicate, dest: string, left: string, right: string): void {
+        const [intCondition, floatCondition] = CONDITIONS[PREDICATE_OPERATORS[predicate]];
+        if (operandType === 'f32') {
+            this.emit(`vcmp.f32 ${left}, ${right}`);
+            this.emit('vmrs APSR_nzcv, FPSCR');
+        } else {
+            this.emit(`cmp ${left}, ${right}`);
+        }
+        this.emit(`mov ${dest}, #0`);
+        this.emit(`mov${operandType === 'f32' ? floatCondition : intCondition} ${dest}, #1`);
+    }
+
+    protected branchIf(register: string, whenZero: boolean, label: string): void {
+        this.emit(`cmp ${register}, #0`);
+        this.emit(`${whenZero ? 'beq' : 'bne'} ${label}`);
+    }
+
+    protected jump(label: string): void {
+        this.emit(`b ${label}`);
+    }
+
+    protected call(symbol: string): void {
+        this.emit(`bl ${symbol}`);
+    }
+
+    private memory(op: string, register: string, offset: number, base: string): void {
+        memoryLines(op, register, offset, base).forEach(line => this.emit(line));
+    }
+}
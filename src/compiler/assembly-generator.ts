@@ -0,0 +1,688 @@
+import type {
+    BlockItem, Cond, ConstDef, ConstInitVal, ConstantLVal, Decl, Exp, FuncDef, Model, Stmt, VarDef, VariableLVal
+} from '../language/generated/ast.js';
+import {
+    isBinExpr, isConstDef, isFuncRParams, isStmtExp, isStmtLval, isStmtbreak, isStmtcontinue, isStmtelif,
+    isStmtreturn, isStmtwhile
+} from '../language/generated/ast.js';
+import { SYLIB_FUNCTIONS, type FunctionSignature, type ScalarType } from './runtime.js';
+import {
+    CompileError, Scopes, arraySize, convertConst, evaluateConstExp, flattenInitializer, floatBits, parseNumber,
+    scalarInitializer, type ConstValue, type VariableSymbol
+} from './semantic.js';
+
+/**
+ * 汇编后端的公共前半部分：遍历 AST、管理作用域和栈帧、折叠常量、展开初值和短路求值，
+ * 具体指令由各目标架构的子类给出。
+ *
+ * 表达式按栈式求值：结果放在累加寄存器（整数、地址）或浮点累加寄存器中，
+ * 中间结果保存在栈帧的临时槽里，所以调用函数时不需要保存任何寄存器。
+ */
+
+/** 表达式值的种类；ptr 是数组（或子数组）的地址 */
+export type ValueKind = ScalarType | 'ptr';
+
+/** 实参的传递位置；栈上的偏移相对调用时的 sp */
+export type ArgumentLocation = { register: string } | { stackOffset: number };
+
+export interface ArgumentLayout {
+    locations: ArgumentLocation[];
+    /** 栈上传递的参数占用的字节数 */
+    stackSize: number;
+}
+
+/** 子类约定的寄存器角色 */
+export interface RegisterRoles {
+    /** 整数和地址的累加寄存器 */
+    accumulator: string;
+    /** 二元运算时左操作数所在的寄存器 */
+    secondary: string;
+    floatAccumulator: string;
+    floatSecondary: string;
+}
+
+/** 目标函数的栈帧信息，由公共部分统计 */
+export interface FrameInfo {
+    /** 局部变量和临时槽占用的字节数 */
+    localSize: number;
+    /** 调用其他函数时栈上传参区的大小 */
+    outgoingSize: number;
+}
+
+interface AsmVariable extends VariableSymbol {
+    /** 全局变量和常量数组的符号 */
+    label?: string;
+    /** 局部变量相对帧指针的偏移；数组形参的槽里存放数组地址 */
+    offset?: number;
+}
+
+interface AsmFunction extends FunctionSignature {
+    symbol: string;
+    passLineNumber?: boolean;
+}
+
+interface LoopLabels {
+    continueLabel: string;
+    breakLabel: string;
+}
+
+export function alignUp(value: number, align: number): number {
+    return Math.ceil(value / align) * align;
+}
+
+/** 一个数据对象的伪指令，连续的 0 合并成 .zero；objectType 是 .type 中对象类型的写法 */
+export function dataDirectives(label: string, type: ScalarType, values: number[], objectType: string): string[] {
+    const lines = ['\t.align\t2', `\t.type\t${label}, ${objectType}`, `\t.size\t${label}, ${values.length * 4}`, `${label}:`];
+    let zeros = 0;
+    for (const value of values) {
+        const word = type === 'int' ? value : floatBits(value);
+        if (word === 0) {
+            zeros++;
+            continue;
+        }
+        if (zeros > 0) {
+            lines.push(`\t.zero\t${zeros * 4}`);
+            zeros = 0;
+        }
+        lines.push(`\t.word\t${word}`);
+    }
+    if (zeros > 0) {
+        lines.push(`\t.zero\t${zeros * 4}`);
+    }
+    return lines;
+}
+
+export abstract class AssemblyGenerator {
+    /** 地址的字节数 */
+    protected abstract readonly pointerSize: number;
+    /** 帧指针以下由序言保存寄存器占用的字节数 */
+    protected abstract readonly savedRegistersSize: number;
+    /** 调用者栈上传递的第一个参数相对帧指针的偏移 */
+    protected abstract readonly incomingArgumentsOffset: number;
+    protected abstract readonly registers: RegisterRoles;
+
+    /** 文件开头的伪指令 */
+    protected abstract fileHeader(sourceName: string): string[];
+    /** .type 伪指令中类型的写法，例如 @object 或 %object */
+    protected abstract symbolType(type: 'object' | 'function'): string;
+    /** 在函数体前后加上序言和尾声 */
+    protected abstract functionText(name: string, body: string[], frame: FrameInfo): string[];
+    protected abstract argumentLayout(kinds: ValueKind[]): ArgumentLayout;
+
+    protected abstract loadConstant(constant: ConstValue): void;
+    /** 在寄存器和 base + offset 处的内存之间传送一个值，base 默认为帧指针 */
+    protected abstract loadSlot(kind: ValueKind, register: string, offset: number, base?: string): void;
+    protected abstract storeSlot(kind: ValueKind, register: string, offset: number, base?: string): void;
+    /** 累加寄存器 = 帧指针 + offset */
+    protected abstract localAddress(register: string, offset: number): void;
+    /** 累加寄存器 = 符号地址 */
+    protected abstract globalAddress(label: string): void;
+    /** 累加寄存器 = 辅助寄存器 + 累加寄存器 * stride */
+    protected abstract indexAddress(stride: number): void;
+    /** 从累加寄存器中的地址读取值到（浮点）累加寄存器 */
+    protected abstract loadIndirect(type: ScalarType): void;
+    /** 把（浮点）辅助寄存器中的值写到累加寄存器中的地址 */
+    protected abstract storeIndirect(type: ScalarType): void;
+    /** 左操作数在辅助寄存器、右操作数在累加寄存器中 */
+    protected abstract intBinary(operator: string): void;
+    protected abstract floatBinary(operator: string): ValueKind;
+    protected abstract negate(type: ScalarType): void;
+    /** 累加寄存器 = !value */
+    protected abstract logicalNot(type: ScalarType): void;
+    protected abstract convertValue(from: ScalarType, to: ScalarType): void;
+    /** 把辅助寄存器中的整数转换成浮点辅助寄存器中的浮点数 */
+    protected abstract convertSecondaryToFloat(): void;
+    protected abstract branch(type: ScalarType, trueLabel: string, falseLabel: string): void;
+    protected abstract jump(label: string): void;
+    /** 调用函数，并把返回值放进（浮点）累加寄存器 */
+    protected abstract call(symbol: string, returnType: ScalarType | 'void'): void;
+    /** 把（浮点）累加寄存器的值作为返回值；void 时设置默认返回值 0 */
+    protected abstract setReturnValue(type: ScalarType, fromAccumulator: boolean): void;
+    /** 把帧指针 + offset 开始的 size 字节清零 */
+    protected abstract clearMemory(offset: number, size: number): void;
+
+    private readonly scopes = new Scopes<AsmVariable>();
+    private readonly functions = new Map<string, AsmFunction>();
+    private readonly dataLines: string[] = [];
+    private readonly bssLines: string[] = [];
+    private readonly rodataLines: string[] = [];
+    private readonly constLabels = new Set<string>();
+    private labelCounter = 0;
+
+    // 当前函数的状态
+    private currentFunction: FuncDef | undefined;
+    private body: string[] = [];
+    private frameUsed = 0;
+    private maxOutgoing = 0;
+    private tempSlots: number[] = [];
+    private tempDepth = 0;
+    private returnLabel = '';
+    private loops: LoopLabels[] = [];
+
+    generate(model: Model, sourceName: string): string {
+        for (const func of model.functions) {
+            this.functions.set(func.name, {
+                symbol: func.name,
+                returnType: func.functype,
+                params: func.funcFparam.map(p => ({ type: p.btype, rank: p.array ? p.extraExp.length + 1 : 0 })),
+            });
+        }
+        for (const [name, runtime] of Object.entries(SYLIB_FUNCTIONS)) {
+            if (!this.functions.has(name)) {
+                this.functions.set(name, runtime);
+            }
+        }
+
+        const declarations = [...model.declarations].sort((a, b) => (a.$cstNode?.offset ?? 0) - (b.$cstNode?.offset ?? 0));
+        for (const decl of declarations) {
+            this.generateGlobalDecl(decl);
+        }
+        const functionTexts = model.functions.map(func => this.generateFunction(func).join('\n'));
+
+        const lines = [...this.fileHeader(sourceName), ...functionTexts];
+        if (this.dataLines.length > 0) {
+            lines.push('\t.data', ...this.dataLines);
+        }
+        if (this.bssLines.length > 0) {
+            lines.push('\t.bss', ...this.bssLines);
+        }
+        if (this.rodataLines.length > 0) {
+            lines.push('\t.section\t.rodata', ...this.rodataLines);
+        }
+        lines.push('');
+        return lines.join('\n');
+    }
+
+    // ---------------------------------------------------------------- 声明
+
+    private generateGlobalDecl(decl: Decl): void {
+        for (const def of decl.defs as Array<VarDef | ConstDef>) {
+            const symbol = this.createSymbol(def, decl);
+            const values = this.constantValues(def, symbol);
+            if (symbol.isConst) {
+                symbol.constValues = values;
+            }
+            if (!symbol.isConst || symbol.dims.length > 0) {
+                symbol.label = def.name;
+                const section = symbol.isConst ? this.rodataLines : values.every(v => v === 0) ? this.bssLines : this.dataLines;
+                section.push(`\t.globl\t${def.name}`);
+                this.emitData(section, def.name, symbol.type, values);
+            }
+            this.scopes.declare(def.name, symbol);
+        }
+    }
+
+    private generateLocalDecl(decl: Decl): void {
+        for (const def of decl.defs as Array<VarDef | ConstDef>) {
+            const symbol = this.createSymbol(def, decl);
+            const size = arraySize(symbol.dims) * 4;
+            if (symbol.isConst) {
+                symbol.constValues = this.constantValues(def, symbol);
+                if (symbol.dims.length > 0) {
+                    // 局部常量数组放进只读数据段
+                    let label = `.LC.${this.currentFunction!.name}.${def.name}`;
+                    for (let i = 1; this.constLabels.has(label); i++) {
+                        label = `.LC.${this.currentFunction!.name}.${def.name}.${i}`;
+                    }
+                    this.constLabels.add(label);
+                    symbol.label = label;
+                    this.emitData(this.rodataLines, label, symbol.type, symbol.constValues);
+                }
+                this.scopes.declare(def.name, symbol);
+                continue;
+            }
+
+            symbol.offset = this.allocate(size, symbol.dims.length > 0 ? 8 : 4);
+            // 初值在登记名字之前计算
+            const init = (def as VarDef).Init[0];
+            if (init && symbol.dims.length === 0) {
+                const exp = scalarInitializer(init);
+                if (exp) {
+                    this.convert(this.generateExp(exp), symbol.type);
+                    this.storeSlot(symbol.type, this.accumulatorFor(symbol.type), symbol.offset);
+                }
+            } else if (init) {
+                this.clearMemory(symbol.offset, size);
+                flattenInitializer(init, symbol.dims).forEach((exp, i) => {
+                    if (!exp || (exp.$type === 'NumberLiteral' && parseNumber(exp.value).value === 0)) {
+                        return;
+                    }
+                    this.convert(this.generateExp(exp), symbol.type);
+                    this.storeSlot(symbol.type, this.accumulatorFor(symbol.type), symbol.offset! + i * 4);
+                });
+            }
+            this.scopes.declare(def.name, symbol);
+        }
+    }
+
+    private createSymbol(def: VarDef | ConstDef, decl: Decl): AsmVariable {
+        const dims = def.index.map(dim => {
+            const size = convertConst(this.evaluate(dim), 'int');
+            if (size <= 0) {
+                throw new CompileError(`数组 '${def.name}' 的长度必须为正数。`);
+            }
+            return size;
+        });
+        return {
+            name: def.name,
+            type: decl.btype,
+            dims,
+            isConst: isConstDef(def),
+            isParam: false,
+            isGlobal: this.scopes.isGlobal,
+        };
+    }
+
+    /** 计算全局变量或常量的初值（必须是编译期常量） */
+    private constantValues(def: VarDef | ConstDef, symbol: AsmVariable): number[] {
+        const init = isConstDef(def) ? def as ConstInitVal : (def as VarDef).Init[0];
+        if (!init) {
+            return new Array<number>(arraySize(symbol.dims)).fill(0);
+        }
+        const exps = symbol.dims.length > 0 ? flattenInitializer(init, symbol.dims) : [scalarInitializer(init)];
+        return exps.map(exp => exp ? convertConst(this.evaluate(exp), symbol.type) : 0);
+    }
+
+    private evaluate(exp: Exp): ConstValue {
+        return evaluateConstExp(exp, name => this.scopes.lookup(name));
+    }
+
+    private emitData(section: string[], label: string, type: ScalarType, values: number[]): void {
+        section.push(...dataDirectives(label, type, values, this.symbolType('object')));
+    }
+
+    // ---------------------------------------------------------------- 函数
+
+    private generateFunction(func: FuncDef): string[] {
+        this.currentFunction = func;
+        this.body = [];
+        this.frameUsed = 0;
+        this.maxOutgoing = 0;
+        this.tempSlots = [];
+        this.tempDepth = 0;
+        this.returnLabel = this.label('ret');
+        this.loops = [];
+
+        this.scopes.push();
+        const signature = this.functions.get(func.name)!;
+        const { locations } = this.argumentLayout(signature.params.map(p => p.rank > 0 ? 'ptr' : p.type));
+        func.funcFparam.forEach((param, i) => {
+            const kind: ValueKind = param.array ? 'ptr' : param.btype;
+            const symbol: AsmVariable = {
+                name: param.name,
+                type: param.btype,
+                dims: param.array ? [0, ...param.extraExp.map(e => convertConst(this.evaluate(e), 'int'))] : [],
+                isConst: false,
+                isParam: true,
+                isGlobal: false,
+            };
+            const location = locations[i];
+            if ('stackOffset' in location) {
+                // 栈上传递的参数位于调用者的栈帧中，在帧指针之上
+                symbol.offset = this.incomingArgumentsOffset + location.stackOffset;
+            } else {
+                const size = kind === 'ptr' ? this.pointerSize : 4;
+                symbol.offset = this.allocate(size, size);
+                this.storeSlot(kind, location.register, symbol.offset);
+            }
+            this.scopes.declare(param.name, symbol);
+        });
+
+        this.generateBlockItems(func.block.blockItems);
+        // 没有 return 就到达函数末尾时返回 0
+        if (func.functype !== 'void') {
+            this.setReturnValue(func.functype, false);
+        }
+        this.scopes.pop();
+
+        this.placeLabel(this.returnLabel);
+        const lines = this.functionText(func.name, this.body, { localSize: this.frameUsed, outgoingSize: this.maxOutgoing });
+        this.currentFunction = undefined;
+        return lines;
+    }
+
+    private generateBlockItems(items: BlockItem[]): void {
+        this.scopes.push();
+        for (const item of items) {
+            if (item.blockDecl) {
+                this.generateLocalDecl(item.blockDecl);
+            } else if (item.blockStmt) {
+                this.generateStmt(item.blockStmt);
+            }
+        }
+        this.scopes.pop();
+    }
+
+    private generateStmt(stmt: Stmt): void {
+        if (isStmtLval(stmt)) {
+            const lval = stmt.lval as VariableLVal;
+            const symbol = this.lookup(lval.value.$refText);
+            this.convert(this.generateExp(stmt.expr1), symbol.type);
+            if (symbol.dims.length === 0 && !symbol.label && symbol.offset !== undefined) {
+                this.storeSlot(symbol.type, this.accumulatorFor(symbol.type), symbol.offset);
+                return;
+            }
+            this.push(symbol.type);
+            this.lvalAddress(lval);
+            this.pop(symbol.type, symbol.type === 'int' ? this.registers.secondary : this.registers.floatSecondary);
+            this.storeIndirect(symbol.type);
+        } else if (isStmtExp(stmt)) {
+            if (stmt.expr2) {
+                this.generateExp(stmt.expr2);
+            }
+        } else if (isStmtelif(stmt)) {
+            const thenLabel = this.label('then');
+            const endLabel = this.label('endif');
+            const elseLabel = stmt.elsestmt ? this.label('else') : endLabel;
+            this.generateCond(stmt.condition, thenLabel, elseLabel);
+            this.placeLabel(thenLabel);
+            this.generateNested(stmt.ifstmt);
+            if (stmt.elsestmt) {
+                this.jump(endLabel);
+                this.placeLabel(elseLabel);
+                this.generateNested(stmt.elsestmt);
+            }
+            this.placeLabel(endLabel);
+        } else if (isStmtwhile(stmt)) {
+            const condLabel = this.label('while');
+            const bodyLabel = this.label('body');
+            const endLabel = this.label('endwhile');
+            this.placeLabel(condLabel);
+            this.generateCond(stmt.condition, bodyLabel, endLabel);
+            this.placeLabel(bodyLabel);
+            this.loops.push({ continueLabel: condLabel, breakLabel: endLabel });
+            this.generateNested(stmt.whilestmt);
+            this.loops.pop();
+            this.jump(condLabel);
+            this.placeLabel(endLabel);
+        } else if (isStmtbreak(stmt) || isStmtcontinue(stmt)) {
+            const loop = this.loops[this.loops.length - 1];
+            if (!loop) {
+                throw new CompileError(`'${isStmtbreak(stmt) ? 'break' : 'continue'}' 语句只能在循环中使用。`);
+            }
+            this.jump(isStmtbreak(stmt) ? loop.breakLabel : loop.continueLabel);
+        } else if (isStmtreturn(stmt)) {
+            const returnType = this.currentFunction!.functype;
+            if (stmt.tobereturn) {
+                const kind = this.generateExp(stmt.tobereturn);
+                if (returnType !== 'void') {
+                    this.convert(kind, returnType);
+                    this.setReturnValue(returnType, true);
+                }
+            } else if (returnType !== 'void') {
+                this.setReturnValue(returnType, false);
+            }
+            this.jump(this.returnLabel);
+        } else {
+            this.generateBlockItems(stmt.blockItems);
+        }
+    }
+
+    /** if/while 的语句体单独成一个作用域 */
+    private generateNested(stmt: Stmt): void {
+        this.scopes.push();
+        this.generateStmt(stmt);
+        this.scopes.pop();
+    }
+
+    /** 条件跳转，|| 和 && 按短路求值展开 */
+    private generateCond(cond: Cond, trueLabel: string, falseLabel: string): void {
+        if (isBinExpr(cond) && cond.left && (cond.operator === '||' || cond.operator === '&&')) {
+            const rightLabel = this.label(cond.operator === '||' ? 'or' : 'and');
+            if (cond.operator === '||') {
+                this.generateCond(cond.left, trueLabel, rightLabel);
+            } else {
+                this.generateCond(cond.left, rightLabel, falseLabel);
+            }
+            this.placeLabel(rightLabel);
+            this.generateCond(cond.right, trueLabel, falseLabel);
+            return;
+        }
+        if (isBinExpr(cond) && !cond.left && cond.operator === '!') {
+            this.generateCond(cond.right, falseLabel, trueLabel);
+            return;
+        }
+        const kind = this.generateExp(cond as Exp);
+        if (kind === 'ptr') {
+            throw new CompileError('数组不能用作条件。');
+        }
+        this.branch(kind, trueLabel, falseLabel);
+    }
+
+    // ---------------------------------------------------------------- 表达式
+
+    private generateExp(exp: Exp): ValueKind {
+        switch (exp.$type) {
+            case 'NumberLiteral': {
+                const constant = parseNumber(exp.value);
+                this.loadConstant(constant);
+                return constant.type;
+            }
+            case 'VariableLVal':
+            case 'ConstantLVal':
+                return this.generateLValValue(exp);
+            case 'FunctionCall':
+            case 'FuncRParams':
+                return this.generateCall(exp.funcname.$refText, isFuncRParams(exp) ? exp.funcRparams : [], exp);
+            case 'BinExpr':
+                if (!exp.left) {
+                    return this.generateUnary(exp.operator, exp.right);
+                }
+                if (exp.operator === '&&' || exp.operator === '||') {
+                    return this.generateLogicalValue(exp);
+                }
+                return this.generateBinary(exp.operator, exp.left, exp.right);
+        }
+    }
+
+    private generateLValValue(lval: VariableLVal | ConstantLVal): ValueKind {
+        const symbol = this.lookup(lval.value.$refText);
+        // 常量在下标也是常量时直接折叠
+        if (symbol.constValues && (symbol.dims.length === 0 || lval.index.length === symbol.dims.length)) {
+            try {
+                const constant = this.evaluate(lval);
+                this.loadConstant({ type: symbol.type, value: constant.value });
+                return symbol.type;
+            } catch (error) {
+                if (!(error instanceof CompileError) || symbol.dims.length === 0) {
+                    throw error;
+                }
+            }
+        }
+        if (symbol.dims.length === 0 && !symbol.label && symbol.offset !== undefined) {
+            this.loadSlot(symbol.type, this.accumulatorFor(symbol.type), symbol.offset);
+            return symbol.type;
+        }
+        this.lvalAddress(lval);
+        if (lval.index.length < symbol.dims.length) {
+            // 部分下标得到子数组的地址，用于传参
+            return 'ptr';
+        }
+        this.loadIndirect(symbol.type);
+        return symbol.type;
+    }
+
+    /** 把左值的地址计算到累加寄存器 */
+    private lvalAddress(lval: VariableLVal | ConstantLVal): void {
+        const symbol = this.lookup(lval.value.$refText);
+        if (lval.index.length > symbol.dims.length) {
+            throw new CompileError(`'${symbol.name}' 的下标个数超过了它的维数。`);
+        }
+        if (symbol.label) {
+            this.globalAddress(symbol.label);
+        } else if (symbol.offset === undefined) {
+            throw new CompileError(`不能给常量 '${symbol.name}' 赋值。`);
+        } else if (symbol.isParam && symbol.dims.length > 0) {
+            this.loadSlot('ptr', this.registers.accumulator, symbol.offset);
+        } else {
+            this.localAddress(this.registers.accumulator, symbol.offset);
+        }
+        lval.index.forEach((index, i) => {
+            this.push('ptr');
+            this.convert(this.generateExp(index), 'int');
+            this.pop('ptr', this.registers.secondary);
+            this.indexAddress(arraySize(symbol.dims.slice(i + 1)) * 4);
+        });
+    }
+
+    private generateCall(name: string, args: Exp[], node: Exp): ValueKind {
+        const func = this.functions.get(name);
+        if (!func) {
+            throw new CompileError(`调用了未定义的函数 '${name}'。`);
+        }
+        if (args.length !== func.params.length) {
+            throw new CompileError(`函数 '${name}' 需要 ${func.params.length} 个参数，实际传递了 ${args.length} 个。`);
+        }
+        // 先把所有实参求值到临时槽，再一起放到传参位置
+        const firstSlot = this.tempDepth;
+        const kinds: ValueKind[] = [];
+        if (func.passLineNumber) {
+            this.loadConstant({ type: 'int', value: (node.$cstNode?.range.start.line ?? 0) + 1 });
+            this.push('int');
+            kinds.push('int');
+        }
+        args.forEach((arg, i) => {
+            const param = func.params[i];
+            const kind = this.generateExp(arg);
+            if (param.rank > 0) {
+                if (kind !== 'ptr') {
+                    throw new CompileError(`函数 '${name}' 的第 ${i + 1} 个参数需要数组。`);
+                }
+            } else {
+                this.convert(kind, param.type);
+            }
+            const paramKind = param.rank > 0 ? 'ptr' : param.type;
+            this.push(paramKind);
+            kinds.push(paramKind);
+        });
+        const { locations, stackSize } = this.argumentLayout(kinds);
+        this.maxOutgoing = Math.max(this.maxOutgoing, stackSize);
+        // 先填栈上的参数，它们要借用累加寄存器，而累加寄存器可能同时是参数寄存器
+        locations.forEach((location, i) => {
+            if ('stackOffset' in location) {
+                const register = kinds[i] === 'float' ? this.registers.floatAccumulator : this.registers.accumulator;
+                this.loadTemp(kinds[i], register, this.tempSlots[firstSlot + i]);
+                this.storeSlot(kinds[i], register, location.stackOffset, 'sp');
+            }
+        });
+        locations.forEach((location, i) => {
+            if ('register' in location) {
+                this.loadTemp(kinds[i], location.register, this.tempSlots[firstSlot + i]);
+            }
+        });
+        this.tempDepth = firstSlot;
+        this.call(func.symbol, func.returnType);
+        return func.returnType === 'void' ? 'int' : func.returnType;
+    }
+
+    private generateUnary(operator: string, operand: Exp): ValueKind {
+        const kind = this.generateExp(operand);
+        if (kind === 'ptr') {
+            throw new CompileError('数组不能用作数值。');
+        }
+        if (operator === '!') {
+            this.logicalNot(kind);
+            return 'int';
+        }
+        if (operator === '-') {
+            this.negate(kind);
+        }
+        return kind;
+    }
+
+    private generateBinary(operator: string, leftExp: Exp, rightExp: Exp): ValueKind {
+        const left = this.generateExp(leftExp);
+        if (left === 'ptr') {
+            throw new CompileError('数组不能用作数值。');
+        }
+        this.push(left);
+        const right = this.generateExp(rightExp);
+        if (right === 'ptr') {
+            throw new CompileError('数组不能用作数值。');
+        }
+        this.pop(left, left === 'int' ? this.registers.secondary : this.registers.floatSecondary);
+        if (left === 'float' || right === 'float') {
+            if (left === 'int') {
+                this.convertSecondaryToFloat();
+            }
+            this.convert(right, 'float');
+            return this.floatBinary(operator);
+        }
+        this.intBinary(operator);
+        return 'int';
+    }
+
+    /** 逻辑运算作为值使用时，借助条件跳转得到 0 或 1 */
+    private generateLogicalValue(cond: Cond): ValueKind {
+        const trueLabel = this.label('true');
+        const falseLabel = this.label('false');
+        const endLabel = this.label('endlogic');
+        this.generateCond(cond, trueLabel, falseLabel);
+        this.placeLabel(trueLabel);
+        this.loadConstant({ type: 'int', value: 1 });
+        this.jump(endLabel);
+        this.placeLabel(falseLabel);
+        this.loadConstant({ type: 'int', value: 0 });
+        this.placeLabel(endLabel);
+        return 'int';
+    }
+
+    private convert(kind: ValueKind, type: ScalarType): void {
+        if (kind === 'ptr') {
+            throw new CompileError('数组不能用作数值。');
+        }
+        if (kind !== type) {
+            this.convertValue(kind, type);
+        }
+    }
+
+    // ---------------------------------------------------------------- 栈帧和指令输出
+
+    private lookup(name: string): AsmVariable {
+        const symbol = this.scopes.lookup(name);
+        if (!symbol) {
+            throw new CompileError(`使用了未定义的变量 '${name}'。`);
+        }
+        return symbol;
+    }
+
+    private accumulatorFor(type: ScalarType): string {
+        return type === 'int' ? this.registers.accumulator : this.registers.floatAccumulator;
+    }
+
+    /** 在栈帧中分配空间，返回相对帧指针的偏移 */
+    private allocate(size: number, align: number): number {
+        this.frameUsed = alignUp(this.frameUsed + size, align);
+        return -(this.savedRegistersSize + this.frameUsed);
+    }
+
+    /** 把累加寄存器保存到临时槽；整数按地址宽度保存 */
+    private push(kind: ValueKind): void {
+        if (this.tempDepth === this.tempSlots.length) {
+            this.tempSlots.push(this.allocate(this.pointerSize, this.pointerSize));
+        }
+        const slot = this.tempSlots[this.tempDepth++];
+        this.storeSlot(kind === 'float' ? 'float' : 'ptr', kind === 'float' ? this.registers.floatAccumulator : this.registers.accumulator, slot);
+    }
+
+    /** 从最近的临时槽取回值 */
+    private pop(kind: ValueKind, register: string): void {
+        this.loadTemp(kind, register, this.tempSlots[--this.tempDepth]);
+    }
+
+    private loadTemp(kind: ValueKind, register: string, slot: number): void {
+        this.loadSlot(kind === 'float' ? 'float' : 'ptr', register, slot);
+    }
+
+    private label(hint: string): string {
+        return `.L${hint}${this.labelCounter++}`;
+    }
+
+    private placeLabel(label: string): void {
+        this.body.push(`${label}:`);
+    }
+
+    protected emit(line: string): void {
+        this.body.push(`\t${line}`);
+    }
+}
@@ -0,0 +1,543 @@
+import type {
+    BlockItem, Cond, ConstDef, ConstInitVal, ConstantLVal, Decl, Exp, FuncDef, Model, Stmt, VarDef, VariableLVal
+} from '../language/generated/ast.js';
+import {
+    isConstDef, isFuncRParams, isStmtExp, isStmtLval, isStmtbreak, isStmtcontinue, isStmtelif,
+    isStmtreturn, isStmtwhile
+} from '../language/generated/ast.js';
+import { SYLIB_FUNCTIONS, type FunctionSignature, type ScalarType } from './runtime.js';
+import {
+    CompileError, Scopes, arraySize, convertConst, evaluateConstExp, flattenInitializer, foldBinary, parseNumber,
+    scalarInitializer, type ConstValue, type VariableSymbol
+} from './semantic.js';
+
+/**
+ * 遍历 AST 直接执行 SysY 程序，不需要交叉编译器和模拟器就能对照期望输出检查程序。
+ * 变量按行优先展开存放在 Int32Array 或 Float32Array 中（标量是长度为 1 的数组），
+ * 存入时自然按 32 位补码截断或舍入为单精度。
+ */
+
+/** 程序运行时的错误：除以零、数组越界、递归过深等 */
+export class RuntimeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RuntimeError';
+    }
+}
+
+/** 程序的标准输入输出 */
+export interface ProgramIo {
+    /** 第一次读输入时调用，返回标准输入的全部内容 */
+    readInput(): string;
+    /** 程序结束（包括出错）时写出全部标准输出 */
+    writeOutput(text: string): void;
+    /** 用过计时函数时写出计时统计，格式与 sylib 相同 */
+    writeError(text: string): void;
+}
+
+/**
+ * 执行 main 函数，返回退出码（main 的返回值模 256）。
+ * @throws CompileError 程序有语义错误时
+ * @throws RuntimeError 程序运行出错时，出错之前的输出已经写出
+ */
+export function runProgram(model: Model, io: ProgramIo): number {
+    return new Interpreter(model, io).run();
+}
+
+type Memory = Int32Array | Float32Array;
+
+/** 数组或子数组的引用，用于传参。数组形参省略的第一维记为 0 */
+interface ArrayRef {
+    kind: 'array';
+    name: string;
+    type: ScalarType;
+    memory: Memory;
+    offset: number;
+    dims: number[];
+}
+
+type RuntimeValue = ConstValue | ArrayRef;
+
+interface RuntimeVariable extends VariableSymbol {
+    memory: Memory;
+    offset: number;
+}
+
+/** 语句的执行结果，正常执行完为 undefined */
+type Completion = { kind: 'break' } | { kind: 'continue' } | { kind: 'return', value?: ConstValue } | undefined;
+
+const BREAK: Completion = { kind: 'break' };
+const CONTINUE: Completion = { kind: 'continue' };
+
+const INT_PATTERN = /[+-]?\d+/y;
+const FLOAT_PATTERN = /[+-]?(0[xX](?:[0-9a-fA-F]+\.?[0-9a-fA-F]*|\.[0-9a-fA-F]+)(?:[pP][+-]?\d+)?|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?|inf(?:inity)?|nan)/iy;
+
+function isArray(value: RuntimeValue): value is ArrayRef {
+    return 'kind' in value;
+}
+
+function allocate(type: ScalarType, size: number): Memory {
+    return type === 'int' ? new Int32Array(size) : new Float32Array(size);
+}
+
+class Interpreter {
+    private readonly functions = new Map<string, FuncDef>();
+    private readonly globals = new Map<string, RuntimeVariable>();
+    /** 当前调用的局部作用域，不包含全局变量 */
+    private scopes = new Scopes<RuntimeVariable>();
+    private currentFunction: FuncDef | undefined;
+
+    // 运行时库的状态
+    private input: string | undefined;
+    private inputPos = 0;
+    private readonly output: string[] = [];
+    private timerStart: [number, number] = [0, 0];
+    /** 计时总和，单位为微秒 */
+    private timerTotal = 0;
+    private timerUsed = false;
+
+    constructor(private readonly model: Model, private readonly io: ProgramIo) {}
+
+    run(): number {
+        this.model.functions.forEach(func => this.functions.set(func.name, func));
+        const main = this.functions.get('main');
+        if (!main) {
+            throw new CompileError('程序中没有 main 函数。');
+        }
+        try {
+            const declarations = [...this.model.declarations].sort((a, b) => (a.$cstNode?.offset ?? 0) - (b.$cstNode?.offset ?? 0));
+            declarations.forEach(decl => this.declareGlobal(decl));
+            return convertConst(this.callFunction(main, []), 'int') & 255;
+        } catch (error) {
+            if (error instanceof RangeError && /call stack/.test(error.message)) {
+                throw new RuntimeError('递归过深，栈溢出。');
+            }
+            throw error;
+        } finally {
+            this.io.writeOutput(this.output.join(''));
+            if (this.timerUsed) {
+                const s = Math.floor(this.timerTotal / 1e6);
+                this.io.writeError(`TOTAL: ${Math.floor(s / 3600)}H-${Math.floor(s / 60) % 60}M-${s % 60}S-${this.timerTotal % 1e6}us\n`);
+            }
+        }
+    }
+
+    // ---------------------------------------------------------------- 声明
+
+    private declareGlobal(decl: Decl): void {
+        for (const def of decl.defs as Array<VarDef | ConstDef>) {
+            const variable = this.createVariable(def, decl);
+            const init = isConstDef(def) ? def as ConstInitVal : def.Init[0];
+            if (init) {
+                // 全局变量的初值必须是编译期常量
+                const exps = variable.dims.length > 0 ? flattenInitializer(init, variable.dims) : [scalarInitializer(init)];
+                exps.forEach((exp, i) => variable.memory[i] = exp ? convertConst(this.evaluate(exp), variable.type) : 0);
+            }
+            if (variable.isConst) {
+                variable.constValues = [...variable.memory];
+            }
+            this.globals.set(def.name, variable);
+        }
+    }
+
+    private declareLocal(decl: Decl): void {
+        for (const def of decl.defs as Array<VarDef | ConstDef>) {
+            const variable = this.createVariable(def, decl);
+            // 初值在登记名字之前计算
+            if (isConstDef(def)) {
+                const init = def as ConstInitVal;
+                const exps = variable.dims.length > 0 ? flattenInitializer(init, variable.dims) : [scalarInitializer(init)];
+                exps.forEach((exp, i) => variable.memory[i] = exp ? convertConst(this.evaluate(exp), variable.type) : 0);
+                variable.constValues = [...variable.memory];
+            } else if (def.Init[0]) {
+                const exps = variable.dims.length > 0 ? flattenInitializer(def.Init[0], variable.dims) : [scalarInitializer(def.Init[0])];
+                exps.forEach((exp, i) => variable.memory[i] = exp ? convertConst(this.scalar(this.evalExp(exp)), variable.type) : 0);
+            }
+            this.scopes.declare(def.name, variable);
+        }
+    }
+
+    private createVariable(def: VarDef | ConstDef, decl: Decl): RuntimeVariable {
+        const dims = def.index.map(dim => {
+            const size = convertConst(this.evaluate(dim), 'int');
+            if (size <= 0) {
+                throw new CompileError(`数组 '${def.name}' 的长度必须为正数。`);
+            }
+            return size;
+        });
+        return {
+            name: def.name,
+            type: decl.btype,
+            dims,
+            isConst: isConstDef(def),
+            isParam: false,
+            isGlobal: this.currentFunction === undefined,
+            memory: allocate(decl.btype, arraySize(dims)),
+            offset: 0,
+        };
+    }
+
+    private evaluate(exp: Exp): ConstValue {
+        return evaluateConstExp(exp, name => this.lookup(name));
+    }
+
+    private lookup(name: string): RuntimeVariable | undefined {
+        return this.scopes.lookup(name) ?? this.globals.get(name);
+    }
+
+    // ---------------------------------------------------------------- 函数
+
+    private callFunction(func: FuncDef, args: RuntimeValue[]): ConstValue {
+        const caller = { scopes: this.scopes, func: this.currentFunction };
+        this.scopes = new Scopes<RuntimeVariable>();
+        this.currentFunction = func;
+        try {
+            func.funcFparam.forEach((param, i) => {
+                const arg = args[i];
+                if (isArray(arg)) {
+                    const dims = [0, ...param.extraExp.map(exp => convertConst(this.evaluate(exp), 'int'))];
+                    this.scopes.declare(param.name, {
+                        name: param.name, type: param.btype, dims, isConst: false, isParam: true, isGlobal: false,
+                        memory: arg.memory, offset: arg.offset,
+                    });
+                } else {
+                    const memory = allocate(param.btype, 1);
+                    memory[0] = arg.value;
+                    this.scopes.declare(param.name, {
+                        name: param.name, type: param.btype, dims: [], isConst: false, isParam: true, isGlobal: false, memory, offset: 0,
+                    });
+                }
+            });
+            const completion = this.execBlockItems(func.block.blockItems);
+            if (completion?.kind === 'break' || completion?.kind === 'continue') {
+                throw new CompileError(`'${completion.kind}' 语句只能在循环中使用。`);
+            }
+            // 函数末尾没有 return 时返回 0
+            const value = completion?.value ?? { type: 'int', value: 0 };
+            return func.functype === 'void' ? { type: 'int', value: 0 } : { type: func.functype, value: convertConst(value, func.functype) };
+        } finally {
+            this.scopes = caller.scopes;
+            this.currentFunction = caller.func;
+        }
+    }
+
+    private call(name: string, args: Exp[]): ConstValue {
+        const func = this.functions.get(name);
+        const signature: FunctionSignature | undefined = func
+            ? { returnType: func.functype, params: func.funcFparam.map(p => ({ type: p.btype, rank: p.array ? p.extraExp.length + 1 : 0 })) }
+            : SYLIB_FUNCTIONS[name];
+        if (!signature) {
+            throw new CompileError(`调用了未定义的函数 '${name}'。`);
+        }
+        if (args.length !== signature.params.length) {
+            throw new CompileError(`函数 '${name}' 需要 ${signature.params.length} 个参数，实际传递了 ${args.length} 个。`);
+        }
+        const values = args.map((arg, i): RuntimeValue => {
+            const param = signature.params[i];
+            const value = this.evalExp(arg);
+            if (param.rank > 0) {
+                if (!isArray(value)) {
+                    throw new CompileError(`函数 '${name}' 的第 ${i + 1} 个参数需要数组。`);
+                }
+                return value;
+            }
+            return { type: param.type, value: convertConst(this.scalar(value), param.type) };
+        });
+        return func ? this.callFunction(func, values) : this.callRuntime(name, values);
+    }
+
+    // ---------------------------------------------------------------- 语句
+
+    private execBlockItems(items: BlockItem[]): Completion {
+        this.scopes.push();
+        try {
+            for (const item of items) {
+                if (item.blockDecl) {
+                    this.declareLocal(item.blockDecl);
+                } else if (item.blockStmt) {
+                    const completion = this.execStmt(item.blockStmt);
+                    if (completion) {
+                        return completion;
+                    }
+                }
+            }
+            return undefined;
+        } finally {
+            this.scopes.pop();
+        }
+    }
+
+    private execStmt(stmt: Stmt): Completion {
+        if (isStmtLval(stmt)) {
+            const target = this.locate(stmt.lval as VariableLVal);
+            if (target.variable.isConst) {
+                throw new CompileError(`不能给常量 '${target.variable.name}' 赋值。`);
+            }
+            if (target.dims.length > 0) {
+                throw new CompileError(`不能给数组 '${target.variable.name}' 赋值。`);
+            }
+            target.memory[target.offset] = convertConst(this.scalar(this.evalExp(stmt.expr1)), target.variable.type);
+        } else if (isStmtExp(stmt)) {
+            if (stmt.expr2) {
+                this.evalExp(stmt.expr2);
+            }
+        } else if (isStmtelif(stmt)) {
+            if (this.condition(stmt.condition)) {
+                return this.execNested(stmt.ifstmt);
+            } else if (stmt.elsestmt) {
+                return this.execNested(stmt.elsestmt);
+            }
+        } else if (isStmtwhile(stmt)) {
+            while (this.condition(stmt.condition)) {
+                const completion = this.execNested(stmt.whilestmt);
+                if (completion === BREAK) {
+                    break;
+                }
+                if (completion?.kind === 'return') {
+                    return completion;
+                }
+            }
+        } else if (isStmtbreak(stmt)) {
+            return BREAK;
+        } else if (isStmtcontinue(stmt)) {
+            return CONTINUE;
+        } else if (isStmtreturn(stmt)) {
+            return { kind: 'return', value: stmt.tobereturn ? this.scalar(this.evalExp(stmt.tobereturn)) : undefined };
+        } else {
+            return this.execBlockItems(stmt.blockItems);
+        }
+        return undefined;
+    }
+
+    /** if/while 的语句体单独成一个作用域 */
+    private execNested(stmt: Stmt): Completion {
+        this.scopes.push();
+        try {
+            return this.execStmt(stmt);
+        } finally {
+            this.scopes.pop();
+        }
+    }
+
+    private condition(cond: Cond): boolean {
+        return this.scalar(this.evalExp(cond as Exp)).value !== 0;
+    }
+
+    // ---------------------------------------------------------------- 表达式
+
+    private evalExp(exp: Exp): RuntimeValue {
+        switch (exp.$type) {
+            case 'NumberLiteral':
+                return parseNumber(exp.value);
+            case 'VariableLVal':
+            case 'ConstantLVal': {
+                const target = this.locate(exp);
+                if (target.dims.length > 0) {
+                    // 部分下标得到子数组，用于传参
+                    const { name, type } = target.variable;
+                    return { kind: 'array', name, type, memory: target.memory, offset: target.offset, dims: target.dims };
+                }
+                return { type: target.variable.type, value: target.memory[target.offset] };
+            }
+            case 'FunctionCall':
+            case 'FuncRParams':
+                return this.call(exp.funcname.$refText, isFuncRParams(exp) ? exp.funcRparams : []);
+            case 'BinExpr': {
+                if (!exp.left) {
+                    const operand = this.scalar(this.evalExp(exp.right));
+                    switch (exp.operator) {
+                        case '-':
+                            return { type: operand.type, value: operand.type === 'int' ? -operand.value | 0 : -operand.value };
+                        case '!':
+                            return { type: 'int', value: operand.value === 0 ? 1 : 0 };
+                        default:
+                            return operand;
+                    }
+                }
+                const left = this.scalar(this.evalExp(exp.left));
+                // 逻辑运算短路求值
+                if (exp.operator === '&&' && left.value === 0 || exp.operator === '||' && left.value !== 0) {
+                    return { type: 'int', value: exp.operator === '||' ? 1 : 0 };
+                }
+                const right = this.scalar(this.evalExp(exp.right));
+                if ((exp.operator === '/' || exp.operator === '%') && left.type === 'int' && right.type === 'int' && right.value === 0) {
+                    throw new RuntimeError('整数除以零。');
+                }
+                return foldBinary(exp.operator, left, right);
+            }
+        }
+    }
+
+    /** 左值所在的位置；下标不全时是子数组的起点和剩下的各维长度 */
+    private locate(lval: VariableLVal | ConstantLVal): { variable: RuntimeVariable, memory: Memory, offset: number, dims: number[] } {
+        const name = lval.value.$refText;
+        const variable = this.lookup(name);
+        if (!variable) {
+            throw new CompileError(`使用了未定义的变量 '${name}'。`);
+        }
+        if (lval.index.length > variable.dims.length) {
+            throw new CompileError(`'${name}' 的下标个数超过了它的维数。`);
+        }
+        let offset = variable.offset;
+        lval.index.forEach((exp, i) => {
+            const index = convertConst(this.scalar(this.evalExp(exp)), 'int');
+            const length = variable.dims[i];
+            // 数组形参的第一维长度未知，只检查是否超出实参数组
+            if (index < 0 || length > 0 && index >= length) {
+                throw new RuntimeError(`数组 '${name}' 的下标 ${index} 越界，长度为 ${length}。`);
+            }
+            offset += index * arraySize(variable.dims.slice(i + 1));
+        });
+        const dims = variable.dims.slice(lval.index.length);
+        if (offset + arraySize(dims) > variable.memory.length) {
+            throw new RuntimeError(`数组 '${name}' 的访问超出了实参数组的范围。`);
+        }
+        return { variable, memory: variable.memory, offset, dims };
+    }
+
+    private scalar(value: RuntimeValue): ConstValue {
+        if (isArray(value)) {
+            throw new CompileError(`数组 '${value.name}' 不能用作数值。`);
+        }
+        return value;
+    }
+
+    // ---------------------------------------------------------------- 运行时库
+
+    private callRuntime(name: string, args: RuntimeValue[]): ConstValue {
+        const int = (value: number): ConstValue => ({ type: 'int', value });
+        const array = (index: number) => args[index] as ArrayRef;
+        const scalar = (index: number) => (args[index] as ConstValue).value;
+        switch (name) {
+            case 'getint':
+                return int(this.readInt());
+            case 'getch': {
+                const input = this.readInput();
+                return int(this.inputPos < input.length ? input.charCodeAt(this.inputPos++) : -1);
+            }
+            case 'getfloat':
+                return { type: 'float', value: this.readFloat() };
+            case 'getarray':
+            case 'getfarray': {
+                const n = this.readInt();
+                const target = array(0);
+                for (let i = 0; i < n; i++) {
+                    this.store(target, i, name === 'getarray' ? this.readInt() : this.readFloat());
+                }
+                return int(n);
+            }
+            case 'putint':
+                this.output.push(String(scalar(0)));
+                break;
+            case 'putch':
+                this.output.push(String.fromCharCode(scalar(0) & 255));
+                break;
+            case 'putfloat':
+                this.output.push(hexFloat(scalar(0)));
+                break;
+            case 'putarray':
+            case 'putfarray': {
+                const n = scalar(0);
+                const source = array(1);
+                this.output.push(`${n}:`);
+                for (let i = 0; i < n; i++) {
+                    const value = this.load(source, i);
+                    this.output.push(` ${name === 'putarray' ? value : hexFloat(value)}`);
+                }
+                this.output.push('\n');
+                break;
+            }
+            case 'starttime':
+                this.timerStart = process.hrtime();
+                break;
+            case 'stoptime': {
+                const [seconds, nanoseconds] = process.hrtime(this.timerStart);
+                this.timerTotal += seconds * 1e6 + Math.floor(nanoseconds / 1000);
+                this.timerUsed = true;
+                break;
+            }
+        }
+        return int(0);
+    }
+
+    private load(array: ArrayRef, index: number): number {
+        if (array.offset + index >= array.memory.length) {
+            throw new RuntimeError(`运行时函数访问数组 '${array.name}' 越界。`);
+        }
+        return array.memory[array.offset + index];
+    }
+
+    private store(array: ArrayRef, index: number, value: number): void {
+        if (array.offset + index >= array.memory.length) {
+            throw new RuntimeError(`运行时函数访问数组 '${array.name}' 越界。`);
+        }
+        array.memory[array.offset + index] = value;
+    }
+
+    /** 第一次读输入时才向 io 要输入，不读输入的程序不会等待标准输入 */
+    private readInput(): string {
+        return this.input ??= this.io.readInput();
+    }
+
+    /** 跳过空白后在当前位置匹配 */
+    private match(pattern: RegExp): string | undefined {
+        const input = this.readInput();
+        while (this.inputPos < input.length && /\s/.test(input[this.inputPos])) {
+            this.inputPos++;
+        }
+        pattern.lastIndex = this.inputPos;
+        const match = pattern.exec(input);
+        if (!match) {
+            return undefined;
+        }
+        this.inputPos = pattern.lastIndex;
+        return match[0];
+    }
+
+    /** 输入格式不对时与 sylib 的 scanf 一样得到 0 */
+    private readInt(): number {
+        const text = this.match(INT_PATTERN);
+        return text === undefined ? 0 : parseInt(text, 10) | 0;
+    }
+
+    private readFloat(): number {
+        const text = this.match(FLOAT_PATTERN);
+        return text === undefined ? 0 : Math.fround(parseFloatText(text));
+    }
+}
+
+/** 按 strtod 的规则解析十进制、十六进制浮点数和 inf、nan */
+function parseFloatText(text: string): number {
+    const match = /^([+-]?)0[xX]([0-9a-fA-F]*)\.?([0-9a-fA-F]*)(?:[pP]([+-]?\d+))?$/.exec(text);
+    if (!match) {
+        return parseFloat(text.replace(/^([+-]?)inf(inity)?$/i, '$1Infinity'));
+    }
+    let value = parseInt(match[2] || '0', 16);
+    for (let i = 0; i < match[3].length; i++) {
+        value += parseInt(match[3][i], 16) / 16 ** (i + 1);
+    }
+    value *= 2 ** parseInt(match[4] || '0', 10);
+    return match[1] === '-' ? -value : value;
+}
+
+/** 与 printf("%a") 相同的十六进制浮点格式 */
+function hexFloat(value: number): string {
+    if (Number.isNaN(value)) {
+        return 'nan';
+    }
+    if (!Number.isFinite(value)) {
+        return value < 0 ? '-inf' : 'inf';
+    }
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value);
+    const hi = view.getUint32(0);
+    const lo = view.getUint32(4);
+    const sign = hi >>> 31 ? '-' : '';
+    const biased = (hi >>> 20) & 0x7ff;
+    const mantissa = ((hi & 0xfffff).toString(16).padStart(5, '0') + lo.toString(16).padStart(8, '0')).replace(/0+$/, '');
+    if (biased === 0 && mantissa === '') {
+        return `${sign}0x0p+0`;
+    }
+    const exponent = biased === 0 ? -1022 : biased - 1023;
+    return `${sign}0x${biased === 0 ? 0 : 1}${mantissa ? '.' + mantissa : ''}p${exponent >= 0 ? '+' : ''}${exponent}`;
+}
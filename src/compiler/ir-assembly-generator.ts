@@ -0,0 +1,438 @@
+import type { Model } from '../language/generated/ast.js';
+import {
+    alignUp, dataDirectives, type ArgumentLayout, type FrameInfo, type ValueKind
+} from './assembly-generator.js';
+import {
+    valueType, type BasicBlock, type BinaryOperator, type CallInstruction, type ComparePredicate, type Instruction, type IrFunction, type IrGlobal,
+    type IrModule, type IrType, type ScalarIrType, type Temp, type Terminator, type UnaryOperator, type Value
+} from './ir/ir.js';
+import { lowerToIr } from './ir/lowering.js';
+import { PassManager, codegenPipeline, type PipelineOptions } from './ir/pass-manager.js';
+import { allocateRegisters, type RegisterAllocator } from './regalloc/allocator.js';
+import { registerClass, type Location, type RegisterClass, type TargetRegisters } from './regalloc/registers.js';
+import { CompileError, floatBits } from './semantic.js';
+
+/**
+ * 经过 IR 的汇编后端：AST 降级为 IR，提升为 SSA 并按优化级别优化，再退出 SSA，
+ * 然后用寄存器分配的结果逐条翻译 IR 指令，具体指令由各目标架构的子类给出。
+ *
+ * 溢出的临时值放在栈帧中，每次使用时读到保留的临时寄存器里，定值后立即写回；
+ * alloca 的结果不分配寄存器，使用时按帧指针重新计算地址。
+ */
+
+export interface AssemblyOptions extends PipelineOptions {
+    /** 寄存器分配算法；不指定时按栈式求值直接从 AST 生成 */
+    regalloc?: RegisterAllocator;
+    /** 优化级别，见 optimizationPipeline，只对经过 IR 的生成有效 */
+    optLevel?: number;
+}
+
+/** 访存的宽度：ptr 是地址宽度 */
+export type MemoryType = ScalarIrType | 'ptr';
+
+/** 序言中保存的被调用者保存的寄存器和保存位置（相对帧指针） */
+export interface SavedRegister {
+    register: string;
+    offset: number;
+}
+
+export interface RegisterFrameInfo extends FrameInfo {
+    savedRegisters: SavedRegister[];
+}
+
+export abstract class IrAssemblyGenerator {
+    /** 地址的字节数 */
+    protected abstract readonly pointerSize: number;
+    /** 帧指针以下由序言保存寄存器占用的字节数 */
+    protected abstract readonly savedRegistersSize: number;
+    /** 调用者栈上传递的第一个参数相对帧指针的偏移 */
+    protected abstract readonly incomingArgumentsOffset: number;
+    protected abstract readonly framePointer: string;
+    protected abstract readonly stackPointer: string;
+    /** 参与分配的寄存器，不包括传参寄存器和下面的临时寄存器 */
+    protected abstract readonly allocatable: TargetRegisters;
+    /** 每类三个不参与分配的临时寄存器：前两个存放常量、溢出的操作数和结果，第三个供子类在一条指令内部使用 */
+    protected abstract readonly scratch: Record<RegisterClass, readonly [string, string, string]>;
+    protected abstract readonly returnRegisters: Record<RegisterClass, string>;
+
+    /** 文件开头的伪指令 */
+    protected abstract fileHeader(sourceName: string): string[];
+    /** .type 伪指令中类型的写法，例如 @object 或 %object */
+    protected abstract symbolType(type: 'object' | 'function'): string;
+    /** 在函数体前后加上序言和尾声，包括保存和恢复用到的被调用者保存的寄存器 */
+    protected abstract functionText(name: string, body: string[], frame: RegisterFrameInfo): string[];
+    protected abstract argumentLayout(kinds: ValueKind[]): ArgumentLayout;
+    protected abstract isFloatRegister(register: string): boolean;
+
+    protected abstract loadImmediate(register: string, value: number): void;
+    protected abstract loadFloatImmediate(register: string, value: number): void;
+    /** 寄存器间传送，两端可以是不同的寄存器类 */
+    protected abstract move(dest: string, source: string): void;
+    /** 在寄存器和 base + offset 处的内存之间传送一个值 */
+    protected abstract loadMemory(type: MemoryType, register: string, offset: number, base: string): void;
+    protected abstract storeMemory(type: MemoryType, register: string, offset: number, base: string): void;
+    protected abstract globalAddress(register: string, label: string): void;
+    /** dest = source + value */
+    protected abstract addImmediate(dest: string, source: string, value: number): void;
+    /** dest = base + index * stride；dest 可能与 base 或 index 相同 */
+    protected abstract indexAddress(dest: string, base: string, index: string, stride: number): void;
+    /** dest 可能与操作数相同，所以要在写 dest 之前读完操作数 */
+    protected abstract binary(operator: BinaryOperator, dest: string, left: string, right: string): void;
+    protected abstract unary(operator: UnaryOperator, dest: string, source: string): void;
+    protected abstract compare(operandType: ScalarIrType, predicate: ComparePredicate, dest: string, left: string, right: string): void;
+    /** 寄存器中的整数为 0（whenZero）或非 0 时跳转 */
+    protected abstract branchIf(register: string, whenZero: boolean, label: string): void;
+    protected abstract jump(label: string): void;
+    protected abstract call(symbol: string): void;
+
+    private readonly lines: string[] = [];
+
+    // 当前函数的状态
+    private func: IrFunction | undefined;
+    private body: string[] = [];
+    private frameUsed = 0;
+    private maxOutgoing = 0;
+    private locations = new Map<string, Location>();
+    private spillOffsets: number[] = [];
+    /** alloca 的结果相对帧指针的偏移 */
+    private frameObjects = new Map<string, number>();
+
+    constructor(
+        private readonly allocator: RegisterAllocator,
+        private readonly optLevel = 0,
+        private readonly pipelineOptions: PipelineOptions = {}
+    ) {}
+
+    generate(model: Model, sourceName: string): string {
+        const module = lowerToIr(model);
+        new PassManager().add(...codegenPipeline(this.optLevel, this.pipelineOptions)).run(module);
+        return this.generateModule(module, sourceName);
+    }
+
+    /** 翻译退出 SSA 之后的模块 */
+    generateModule(module: IrModule, sourceName: string): string {
+        this.lines.push(...this.fileHeader(sourceName));
+        for (const func of module.functions) {
+            this.lines.push(...this.generateFunction(func));
+        }
+        const isZero = (global: IrGlobal) => global.init.every(value => value === 0);
+        const sections: Array<[string, IrGlobal[]]> = [
+            ['\t.data', module.globals.filter(global => !global.constant && !isZero(global))],
+            ['\t.bss', module.globals.filter(global => !global.constant && isZero(global))],
+            ['\t.section\t.rodata', module.globals.filter(global => global.constant)],
+        ];
+        for (const [directive, globals] of sections.filter(([, globals]) => globals.length > 0)) {
+            this.lines.push(directive);
+            for (const global of globals) {
+                this.lines.push(`\t.globl\t${global.name}`,
+                    ...dataDirectives(global.name, global.type === 'f32' ? 'float' : 'int', global.init, this.symbolType('object')));
+            }
+        }
+        this.lines.push('');
+        return this.lines.join('\n');
+    }
+
+    // ---------------------------------------------------------------- 函数
+
+    private generateFunction(func: IrFunction): string[] {
+        this.func = func;
+        this.body = [];
+        this.frameUsed = 0;
+        this.maxOutgoing = 0;
+        this.frameObjects = new Map();
+        for (const instruction of func.blocks.flatMap(block => block.instructions)) {
+            if (instruction.op === 'alloca') {
+                const size = instruction.elementType === 'ptr' ? this.pointerSize : 4;
+                this.frameObjects.set(instruction.result.name, this.allocate(size * instruction.count, instruction.count > 1 ? 8 : size));
+            }
+        }
+        const allocation = allocateRegisters(func, this.allocatable, this.allocator, new Set(this.frameObjects.keys()));
+        this.locations = allocation.locations;
+        this.spillOffsets = Array.from({ length: allocation.spillSlots }, () => this.allocate(this.pointerSize, this.pointerSize));
+        const savedRegisters = allocation.usedCalleeSaved.map(register => ({ register, offset: this.allocate(this.pointerSize, this.pointerSize) }));
+
+        this.moveParams(func);
+        func.blocks.forEach((block, i) => this.generateBlock(block, func.blocks[i + 1]));
+        this.placeLabel(this.returnLabel());
+        const lines = this.functionText(func.name, this.body, { localSize: this.frameUsed, outgoingSize: this.maxOutgoing, savedRegisters });
+        this.func = undefined;
+        return lines;
+    }
+
+    /** 把形参从传参位置移到分配的位置：先处理寄存器传递的，免得它们被临时寄存器覆盖 */
+    private moveParams(func: IrFunction): void {
+        const { locations } = this.argumentLayout(func.params.map(param => valueKind(param.type)));
+        const params = func.params.map((param, i) => ({ param, location: locations[i] }));
+        for (const { param, location } of params) {
+            const target = this.locations.get(param.name);
+            if (!target || !('register' in location)) {
+                continue;
+            }
+            if ('register' in target) {
+                this.move(target.register, location.register);
+            } else {
+                this.storeMemory(memoryType(param.type), location.register, this.spillOffsets[target.spillSlot], this.framePointer);
+            }
+        }
+        for (const { param, location } of params) {
+            const target = this.locations.get(param.name);
+            if (!target || !('stackOffset' in location)) {
+                continue;
+            }
+            // 栈上传递的参数位于调用者的栈帧中，在帧指针之上
+            const register = this.destination(param);
+            this.loadMemory(memoryType(param.type), register, this.incomingArgumentsOffset + location.stackOffset, this.framePointer);
+            this.writeBack(param, register);
+        }
+    }
+
+    private generateBlock(block: BasicBlock, next: BasicBlock | undefined): void {
+        this.placeLabel(this.blockLabel(block.label));
+        block.instructions.forEach(instruction => this.generateInstruction(instruction));
+        this.generateTerminator(block.terminator, next);
+    }
+
+    private generateInstruction(instruction: Instruction): void {
+        switch (instruction.op) {
+            case 'alloca':
+                return;
+            case 'load': {
+                const register = this.destination(instruction.result);
+                const [base, offset] = this.addressOf(instruction.address, 1);
+                this.loadMemory(memoryType(instruction.result.type), register, offset, base);
+                this.writeBack(instruction.result, register);
+                return;
+            }
+            case 'store': {
+                const value = this.operand(instruction.value, 0);
+                const [base, offset] = this.addressOf(instruction.address, 1);
+                this.storeMemory(instruction.type, value, offset, base);
+                return;
+            }
+            case 'gep': {
+                const register = this.destination(instruction.result);
+                const base = this.operand(instruction.base, 0);
+                if (instruction.index.kind === 'const') {
+                    this.addImmediate(register, base, instruction.index.value * instruction.stride);
+                } else {
+                    this.indexAddress(register, base, this.operand(instruction.index, 1), instruction.stride);
+                }
+                this.writeBack(instruction.result, register);
+                return;
+            }
+            case 'binary': {
+                const left = this.operand(instruction.left, 0);
+                const right = this.operand(instruction.right, 1);
+                const register = this.destination(instruction.result);
+                this.binary(instruction.operator, register, left, right);
+                this.writeBack(instruction.result, register);
+                return;
+            }
+            case 'unary': {
+                const source = this.operand(instruction.value, 0);
+                const register = this.destination(instruction.result);
+                this.unary(instruction.operator, register, source);
+                this.writeBack(instruction.result, register);
+                return;
+            }
+            case 'compare': {
+                const left = this.operand(instruction.left, 0);
+                const right = this.operand(instruction.right, 1);
+                const register = this.destination(instruction.result);
+                this.compare(instruction.operandType, instruction.predicate, register, left, right);
+                this.writeBack(instruction.result, register);
+                return;
+            }
+            case 'call':
+                this.generateCall(instruction);
+                return;
+            case 'copy':
+                this.generateCopy(instruction.result, instruction.value);
+                return;
+            case 'phi':
+                throw new CompileError(`函数 '${this.func!.name}' 还没有退出 SSA，无法生成汇编。`);
+        }
+    }
+
+    private generateCopy(result: Temp, value: Value): void {
+        const target = this.locations.get(result.name)!;
+        const source = value.kind === 'temp' ? this.locations.get(value.name) : undefined;
+        if (source && sameLocation(source, target)) {
+            // 合并后两端在同一个位置，复制可以省去
+            return;
+        }
+        if ('register' in target) {
+            this.operandInto(value, target.register);
+        } else {
+            this.writeBack(result, this.operand(value, 0));
+        }
+    }
+
+    /** 先填栈上的实参，再填寄存器中的实参：传参寄存器不参与分配，填写时不会覆盖还要读取的值 */
+    private generateCall(call: CallInstruction): void {
+        const layout = this.argumentLayout(call.args.map(arg => valueKind(valueType(arg))));
+        this.maxOutgoing = Math.max(this.maxOutgoing, layout.stackSize);
+        call.args.forEach((arg, i) => {
+            const location = layout.locations[i];
+            if ('stackOffset' in location) {
+                this.storeMemory(memoryType(valueType(arg)), this.operand(arg, 0), location.stackOffset, this.stackPointer);
+            }
+        });
+        call.args.forEach((arg, i) => {
+            const location = layout.locations[i];
+            if ('register' in location) {
+                this.operandInto(arg, location.register);
+            }
+        });
+        this.call(call.callee);
+        if (call.result) {
+            const target = this.locations.get(call.result.name)!;
+            const returned = this.returnRegisters[registerClass(call.result.type)];
+            if ('register' in target) {
+                this.move(target.register, returned);
+            } else {
+                this.writeBack(call.result, returned);
+            }
+        }
+    }
+
+    private generateTerminator(terminator: Terminator, next: BasicBlock | undefined): void {
+        switch (terminator.op) {
+            case 'jmp':
+                if (terminator.target !== next?.label) {
+                    this.jump(this.blockLabel(terminator.target));
+                }
+                return;
+            case 'br': {
+                const condition = this.operand(terminator.condition, 0);
+                if (terminator.trueTarget === next?.label) {
+                    this.branchIf(condition, true, this.blockLabel(terminator.falseTarget));
+                    return;
+                }
+                this.branchIf(condition, false, this.blockLabel(terminator.trueTarget));
+                if (terminator.falseTarget !== next?.label) {
+                    this.jump(this.blockLabel(terminator.falseTarget));
+                }
+                return;
+            }
+            case 'ret':
+                if (terminator.value) {
+                    this.operandInto(terminator.value, this.returnRegisters[registerClass(valueType(terminator.value))]);
+                }
+                if (next) {
+                    this.jump(this.returnLabel());
+                }
+                return;
+        }
+    }
+
+    // ---------------------------------------------------------------- 操作数
+
+    /** 把值放进寄存器，返回寄存器名；需要时使用第 index 个临时寄存器 */
+    private operand(value: Value, index: number): string {
+        const scratch = this.scratch[registerClass(valueType(value))][index];
+        if (value.kind === 'temp') {
+            const location = this.locations.get(value.name);
+            if (location && 'register' in location) {
+                return location.register;
+            }
+        }
+        this.operandInto(value, scratch);
+        return scratch;
+    }
+
+    /** 把值放进指定的寄存器 */
+    private operandInto(value: Value, register: string): void {
+        const type = valueType(value);
+        if (this.isFloatRegister(register) !== (type === 'f32')) {
+            // 浮点实参借用整数寄存器传递
+            this.move(register, this.operand(value, 0));
+            return;
+        }
+        switch (value.kind) {
+            case 'const':
+                if (value.type === 'i32') {
+                    this.loadImmediate(register, value.value);
+                } else {
+                    this.loadFloatImmediate(register, floatBits(value.value));
+                }
+                return;
+            case 'global':
+                this.globalAddress(register, value.name);
+                return;
+            case 'temp': {
+                const offset = this.frameObjects.get(value.name);
+                if (offset !== undefined) {
+                    this.addImmediate(register, this.framePointer, offset);
+                    return;
+                }
+                const location = this.locations.get(value.name)!;
+                if ('register' in location) {
+                    if (location.register !== register) {
+                        this.move(register, location.register);
+                    }
+                } else {
+                    this.loadMemory(memoryType(type), register, this.spillOffsets[location.spillSlot], this.framePointer);
+                }
+            }
+        }
+    }
+
+    /** 访存的基址寄存器和偏移：alloca 的地址直接用帧指针加偏移 */
+    private addressOf(address: Value, index: number): [string, number] {
+        const offset = address.kind === 'temp' ? this.frameObjects.get(address.name) : undefined;
+        return offset !== undefined ? [this.framePointer, offset] : [this.operand(address, index), 0];
+    }
+
+    /** 写结果的寄存器：溢出的临时值先写到第 0 个临时寄存器 */
+    private destination(result: Temp): string {
+        const location = this.locations.get(result.name)!;
+        return 'register' in location ? location.register : this.scratch[registerClass(result.type)][0];
+    }
+
+    /** 溢出的临时值写回栈帧 */
+    private writeBack(result: Temp, register: string): void {
+        const location = this.locations.get(result.name)!;
+        if ('spillSlot' in location) {
+            this.storeMemory(memoryType(result.type), register, this.spillOffsets[location.spillSlot], this.framePointer);
+        } else if (location.register !== register) {
+            this.move(location.register, register);
+        }
+    }
+
+    // ---------------------------------------------------------------- 工具
+
+    /** 在栈帧中分配空间，返回相对帧指针的偏移 */
+    private allocate(size: number, align: number): number {
+        this.frameUsed = alignUp(this.frameUsed + size, align);
+        return -(this.savedRegistersSize + this.frameUsed);
+    }
+
+    private blockLabel(label: string): string {
+        return `.L${this.func!.name}.${label}`;
+    }
+
+    private returnLabel(): string {
+        return `.L${this.func!.name}.return`;
+    }
+
+    private placeLabel(label: string): void {
+        this.body.push(`${label}:`);
+    }
+
+    protected emit(line: string): void {
+        this.body.push(`\t${line}`);
+    }
+}
+
+function valueKind(type: IrType): ValueKind {
+    return type === 'f32' ? 'float' : type === 'ptr' ? 'ptr' : 'int';
+}
+
+function memoryType(type: IrType): MemoryType {
+    return type === 'void' ? 'i32' : type;
+}
+
+function sameLocation(a: Location, b: Location): boolean {
+    return 'register' in a ? 'register' in b && a.register === b.register : 'spillSlot' in b && a.spillSlot === b.spillSlot;
+}
@@ -0,0 +1,81 @@
+import { blockMap, removeUnreachableBlocks } from './cfg.js';
+import { DominatorTree, EXIT } from './dominators.js';
+import { instructionOperands, type BasicBlock, type Instruction, type IrFunction, type Terminator } from './ir.js';
+
+/**
+ * 激进的死代码删除：先假定所有指令都无用，从有副作用的指令（store、call 和 ret）出发，
+ * 沿操作数的定值和控制依赖（后支配边界）标记有用的指令，phi 还需要各个来源块的跳转。
+ * 没有被标记的指令被删除；无用的条件跳转改为跳到直接后支配者，中间的块随之不可达。
+ * 因此不影响结果的循环也会被整个删除。返回 IR 是否有变化。
+ */
+export function adce(func: IrFunction): boolean {
+    const blocks = blockMap(func);
+    const tree = new DominatorTree(func, true);
+    const definitions = new Map<string, Array<{ instruction: Instruction, block: BasicBlock }>>();
+    for (const block of func.blocks) {
+        for (const instruction of block.instructions) {
+            if ('result' in instruction && instruction.result) {
+                const name = instruction.result.name;
+                definitions.set(name, [...definitions.get(name) ?? [], { instruction, block }]);
+            }
+        }
+    }
+
+    const live = new Set<Instruction | Terminator>();
+    const liveBlocks = new Set<string>();
+    const worklist: Array<{ instruction: Instruction | Terminator, block: BasicBlock }> = [];
+    const mark = (instruction: Instruction | Terminator, block: BasicBlock) => {
+        if (!live.has(instruction)) {
+            live.add(instruction);
+            worklist.push({ instruction, block });
+        }
+    };
+    // 有块到不了出口（死循环）时控制依赖不完整，保留所有条件跳转；
+    // 无条件跳转总是保留，但只有 phi 需要它时才使所在的块有用
+    const keepBranches = func.blocks.some(block => !tree.isReachable(block.label));
+    for (const block of func.blocks) {
+        for (const instruction of block.instructions) {
+            if (instruction.op === 'store' || instruction.op === 'call') {
+                mark(instruction, block);
+            }
+        }
+        const terminator = block.terminator;
+        if (terminator.op === 'ret' || terminator.op === 'br' && (keepBranches || tree.idom(block.label) === EXIT)) {
+            mark(terminator, block);
+        }
+    }
+
+    while (worklist.length > 0) {
+        const { instruction, block } = worklist.pop()!;
+        for (const operand of instructionOperands(instruction)) {
+            if (operand.kind === 'temp') {
+                definitions.get(operand.name)?.forEach(definition => mark(definition.instruction, definition.block));
+            }
+        }
+        if (instruction.op === 'phi') {
+            for (const incoming of instruction.incoming) {
+                const pred = blocks.get(incoming.block)!;
+                mark(pred.terminator, pred);
+            }
+        }
+        if (!liveBlocks.has(block.label)) {
+            liveBlocks.add(block.label);
+            for (const label of tree.frontier(block.label)) {
+                const controller = blocks.get(label)!;
+                mark(controller.terminator, controller);
+            }
+        }
+    }
+
+    let changed = false;
+    for (const block of func.blocks) {
+        const instructions = block.instructions.filter(instruction => live.has(instruction));
+        changed ||= instructions.length !== block.instructions.length;
+        block.instructions = instructions;
+        if (block.terminator.op === 'br' && !live.has(block.terminator)) {
+            block.terminator = { op: 'jmp', target: tree.idom(block.label)! };
+            changed = true;
+        }
+    }
+    return removeUnreachableBlocks(func) || changed;
+}
@@ -0,0 +1,108 @@
+import type { BasicBlock, CallInstruction, IrModule } from './ir.js';
+
+/** 一个调用点：调用者中某个基本块里的 call 指令 */
+export interface CallSite {
+    caller: string;
+    block: BasicBlock;
+    call: CallInstruction;
+}
+
+/**
+ * 调用图：节点是模块中定义的函数，边是源程序中的函数调用（降级后的 call 指令）。
+ * 对外部函数（sylib 和 memset）的调用不在图中。
+ * 用 Tarjan 算法求强连通分量，同一分量中的函数互相递归。
+ */
+export class CallGraph {
+    private readonly sites = new Map<string, CallSite[]>();
+    private readonly components = new Map<string, number>();
+    private readonly selfRecursive = new Set<string>();
+    /** 自底向上的顺序：被调用者在调用者之前（递归的函数之间顺序任意） */
+    readonly bottomUp: string[] = [];
+
+    constructor(module: IrModule) {
+        for (const func of module.functions) {
+            this.sites.set(func.name, []);
+        }
+        for (const func of module.functions) {
+            for (const block of func.blocks) {
+                for (const instruction of block.instructions) {
+                    if (instruction.op === 'call' && this.sites.has(instruction.callee)) {
+                        this.sites.get(func.name)!.push({ caller: func.name, block, call: instruction });
+                        if (instruction.callee === func.name) {
+                            this.selfRecursive.add(func.name);
+                        }
+                    }
+                }
+            }
+        }
+        this.findComponents();
+    }
+
+    /** 函数中对模块内函数的调用点 */
+    callSites(caller: string): readonly CallSite[] {
+        return this.sites.get(caller) ?? [];
+    }
+
+    /** 调用了 callee 的所有调用点 */
+    callersOf(callee: string): CallSite[] {
+        return [...this.sites.values()].flatMap(sites => sites.filter(site => site.call.callee === callee));
+    }
+
+    /** 函数是否直接或间接地调用自己 */
+    isRecursive(name: string): boolean {
+        return this.selfRecursive.has(name)
+            || this.bottomUp.some(other => other !== name && this.components.get(other) === this.components.get(name));
+    }
+
+    private findComponents(): void {
+        // 显式栈上的 Tarjan 算法，next 是下一条要访问的出边
+        const index = new Map<string, number>();
+        const lowLink = new Map<string, number>();
+        const stack: string[] = [];
+        const onStack = new Set<string>();
+        let counter = 0;
+        for (const root of this.sites.keys()) {
+            if (index.has(root)) {
+                continue;
+            }
+            const work: Array<{ name: string, next: number }> = [{ name: root, next: 0 }];
+            index.set(root, counter);
+            lowLink.set(root, counter++);
+            stack.push(root);
+            onStack.add(root);
+            while (work.length > 0) {
+                const top = work[work.length - 1];
+                const sites = this.sites.get(top.name)!;
+                if (top.next < sites.length) {
+                    const callee = sites[top.next++].call.callee;
+                    if (!index.has(callee)) {
+                        index.set(callee, counter);
+                        lowLink.set(callee, counter++);
+                        stack.push(callee);
+                        onStack.add(callee);
+                        work.push({ name: callee, next: 0 });
+                    } else if (onStack.has(callee)) {
+                        lowLink.set(top.name, Math.min(lowLink.get(top.name)!, index.get(callee)!));
+                    }
+                    continue;
+                }
+                work.pop();
+                if (work.length > 0) {
+                    const parent = work[work.length - 1].name;
+                    lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(top.name)!));
+                }
+                if (lowLink.get(top.name) === index.get(top.name)) {
+                    // top 是分量的根，分量按完成顺序编号，被调用者的分量先完成
+                    const component = this.components.size;
+                    let member: string;
+                    do {
+                        member = stack.pop()!;
+                        onStack.delete(member);
+                        this.components.set(member, component);
+                        this.bottomUp.push(member);
+                    } while (member !== top.name);
+                }
+            }
+        }
+    }
+}
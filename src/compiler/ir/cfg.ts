@@ -0,0 +1,92 @@
+import { instructionOperands, successors, type BasicBlock, type IrFunction } from './ir.js';
+
+/**
+ * 控制流图相关的工具函数，供各个分析和优化遍使用。
+ */
+
+export function blockMap(func: IrFunction): Map<string, BasicBlock> {
+    return new Map(func.blocks.map(block => [block.label, block]));
+}
+
+/** 每个基本块的前驱，按基本块在函数中的顺序排列 */
+export function predecessors(func: IrFunction): Map<string, string[]> {
+    const result = new Map<string, string[]>(func.blocks.map(block => [block.label, []]));
+    for (const block of func.blocks) {
+        for (const successor of successors(block.terminator)) {
+            result.get(successor)?.push(block.label);
+        }
+    }
+    return result;
+}
+
+/** 从入口可达的基本块的逆后序 */
+export function reversePostorder(func: IrFunction): string[] {
+    const blocks = blockMap(func);
+    return reversePostorderFrom(func.blocks[0].label, label => successors(blocks.get(label)!.terminator));
+}
+
+/** 任意图上从 entry 出发可达的节点的逆后序，用显式的栈避免很长的控制流链导致调用栈溢出 */
+export function reversePostorderFrom(entry: string, successorsOf: (label: string) => string[]): string[] {
+    const visited = new Set([entry]);
+    const order: string[] = [];
+    const stack: Array<{ label: string, targets: string[], next: number }> = [{ label: entry, targets: successorsOf(entry), next: 0 }];
+    while (stack.length > 0) {
+        const top = stack[stack.length - 1];
+        if (top.next < top.targets.length) {
+            const target = top.targets[top.next++];
+            if (!visited.has(target)) {
+                visited.add(target);
+                stack.push({ label: target, targets: successorsOf(target), next: 0 });
+            }
+        } else {
+            order.push(top.label);
+            stack.pop();
+        }
+    }
+    return order.reverse();
+}
+
+/** 删除从入口不可达的基本块，并去掉 phi 中来自这些块的值 */
+export function removeUnreachableBlocks(func: IrFunction): boolean {
+    const reachable = new Set(reversePostorder(func));
+    if (reachable.size === func.blocks.length) {
+        return false;
+    }
+    func.blocks = func.blocks.filter(block => reachable.has(block.label));
+    for (const block of func.blocks) {
+        for (const instruction of block.instructions) {
+            if (instruction.op === 'phi') {
+                instruction.incoming = instruction.incoming.filter(incoming => reachable.has(incoming.block));
+            }
+        }
+    }
+    return true;
+}
+
+/** 函数中已经使用的临时值名字（形参和所有指令的结果及操作数） */
+export function tempNames(func: IrFunction): Set<string> {
+    const names = new Set(func.params.map(param => param.name));
+    for (const block of func.blocks) {
+        for (const instruction of [...block.instructions, block.terminator]) {
+            if ('result' in instruction && instruction.result) {
+                names.add(instruction.result.name);
+            }
+            for (const operand of instructionOperands(instruction)) {
+                if (operand.kind === 'temp') {
+                    names.add(operand.name);
+                }
+            }
+        }
+    }
+    return names;
+}
+
+/** 以 base 为前缀取一个未被使用的名字，并登记到 used 中 */
+export function freshName(used: Set<string>, base: string): string {
+    let name = base;
+    for (let i = 1; used.has(name); i++) {
+        name = `${base}.${i}`;
+    }
+    used.add(name);
+    return name;
+}
@@ -0,0 +1,140 @@
+import { predecessors, reversePostorderFrom } from './cfg.js';
+import { successors, type IrFunction } from './ir.js';
+
+/** 后支配树中代表函数出口的虚拟节点，所有 ret 块都流向它 */
+export const EXIT = '';
+
+/**
+ * 支配树和支配边界，只包含从入口可达的基本块。
+ * 直接支配者用 Cooper、Harvey 和 Kennedy 的迭代算法在逆后序上计算。
+ * reverse 为 true 时在反向的控制流图上计算，得到以虚拟出口 EXIT 为根的后支配树，
+ * 其支配边界就是控制依赖；无法到达出口的块（死循环）不在树中。
+ */
+export class DominatorTree {
+    readonly entry: string;
+    /** 逆后序，入口在最前 */
+    readonly order: string[];
+    private readonly idoms = new Map<string, string>();
+    private readonly childLists = new Map<string, string[]>();
+    private readonly frontiers = new Map<string, Set<string>>();
+    /** 支配树前序遍历的进出时间，用于常数时间判断支配关系 */
+    private readonly enter = new Map<string, number>();
+    private readonly exit = new Map<string, number>();
+
+    constructor(func: IrFunction, reverse = false) {
+        const forwardSuccs = new Map(func.blocks.map(block => [block.label, successors(block.terminator)]));
+        const forwardPreds = predecessors(func);
+        let succs = forwardSuccs;
+        let preds = forwardPreds;
+        this.entry = func.blocks[0].label;
+        if (reverse) {
+            const returns = func.blocks.filter(block => block.terminator.op === 'ret').map(block => block.label);
+            succs = new Map([...forwardPreds, [EXIT, returns]]);
+            preds = new Map([...forwardSuccs].map(([label, targets]) => [label, [...targets]]));
+            returns.forEach(label => preds.get(label)!.push(EXIT));
+            preds.set(EXIT, []);
+            this.entry = EXIT;
+        }
+        this.order = reversePostorderFrom(this.entry, label => succs.get(label)!);
+        const index = new Map(this.order.map((label, i) => [label, i]));
+
+        this.idoms.set(this.entry, this.entry);
+        const intersect = (a: string, b: string): string => {
+            while (a !== b) {
+                while (index.get(a)! > index.get(b)!) {
+                    a = this.idoms.get(a)!;
+                }
+                while (index.get(b)! > index.get(a)!) {
+                    b = this.idoms.get(b)!;
+                }
+            }
+            return a;
+        };
+        for (let changed = true; changed;) {
+            changed = false;
+            for (const label of this.order.slice(1)) {
+                let idom: string | undefined;
+                for (const pred of preds.get(label)!) {
+                    if (this.idoms.has(pred)) {
+                        idom = idom === undefined ? pred : intersect(pred, idom);
+                    }
+                }
+                if (idom !== undefined && this.idoms.get(label) !== idom) {
+                    this.idoms.set(label, idom);
+                    changed = true;
+                }
+            }
+        }
+
+        for (const label of this.order) {
+            this.childLists.set(label, []);
+            this.frontiers.set(label, new Set());
+        }
+        for (const label of this.order.slice(1)) {
+            this.childLists.get(this.idoms.get(label)!)!.push(label);
+        }
+        this.number();
+
+        // 汇合点的每个前驱沿支配树向上走到汇合点的直接支配者为止，途经的块的支配边界都包含汇合点
+        for (const label of this.order) {
+            const reachablePreds = preds.get(label)!.filter(pred => this.idoms.has(pred));
+            if (reachablePreds.length < 2) {
+                continue;
+            }
+            for (const pred of reachablePreds) {
+                let runner = pred;
+                while (runner !== this.idoms.get(label)) {
+                    this.frontiers.get(runner)!.add(label);
+                    runner = this.idoms.get(runner)!;
+                }
+            }
+        }
+    }
+
+    /** 直接支配者，入口和不可达的块没有 */
+    idom(label: string): string | undefined {
+        return label === this.entry ? undefined : this.idoms.get(label);
+    }
+
+    children(label: string): readonly string[] {
+        return this.childLists.get(label) ?? [];
+    }
+
+    frontier(label: string): ReadonlySet<string> {
+        return this.frontiers.get(label) ?? new Set();
+    }
+
+    /** a 是否支配 b（每个块都支配自己） */
+    dominates(a: string, b: string): boolean {
+        const enterA = this.enter.get(a);
+        const enterB = this.enter.get(b);
+        return enterA !== undefined && enterB !== undefined && enterA <= enterB && this.exit.get(b)! <= this.exit.get(a)!;
+    }
+
+    isReachable(label: string): boolean {
+        return this.idoms.has(label);
+    }
+
+    /** 支配树的前序遍历 */
+    preorder(): string[] {
+        return [...this.enter.keys()];
+    }
+
+    private number(): void {
+        let clock = 0;
+        const stack: Array<{ label: string, next: number }> = [{ label: this.entry, next: 0 }];
+        this.enter.set(this.entry, clock++);
+        while (stack.length > 0) {
+            const top = stack[stack.length - 1];
+            const children = this.childLists.get(top.label)!;
+            if (top.next < children.length) {
+                const child = children[top.next++];
+                this.enter.set(child, clock++);
+                stack.push({ label: child, next: 0 });
+            } else {
+                this.exit.set(top.label, clock++);
+                stack.pop();
+            }
+        }
+    }
+}
@@ -0,0 +1,154 @@
+import { CallGraph } from './call-graph.js';
+import { freshName, predecessors, tempNames } from './cfg.js';
+import {
+    constant, mapOperands, temp, type BasicBlock, type CallInstruction, type Instruction, type IrFunction, type IrModule, type ScalarIrType,
+    type Temp, type Value
+} from './ir.js';
+
+/** 默认的内联阈值：内联代价不超过它的调用点被内联 */
+export const DEFAULT_INLINE_THRESHOLD = 40;
+
+/**
+ * 按调用图自底向上内联：被调用者先完成自身的内联，再按它最终的规模决定是否内联到调用者中。
+ * 递归的函数（调用图中成环的）不内联。内联后不再被调用的函数被删除（main 除外）。
+ * 返回 IR 是否有变化。
+ */
+export function inline(module: IrModule, threshold = DEFAULT_INLINE_THRESHOLD): boolean {
+    const graph = new CallGraph(module);
+    const functions = new Map(module.functions.map(func => [func.name, func]));
+    const inlined = new Set<string>();
+
+    for (const name of graph.bottomUp) {
+        const caller = functions.get(name)!;
+        const labels = new Set(caller.blocks.map(block => block.label));
+        const names = tempNames(caller);
+        // 只扫描调用者原有的块和拆分出的后半部分，内联进来的函数体已经在被调用者中处理过
+        const worklist = [...caller.blocks];
+        while (worklist.length > 0) {
+            const block = worklist.shift()!;
+            const index = block.instructions.findIndex(instruction => {
+                if (instruction.op !== 'call') {
+                    return false;
+                }
+                const callee = functions.get(instruction.callee);
+                return callee !== undefined && !graph.isRecursive(callee.name) && isInlinable(callee)
+                    && inlineCost(callee, instruction) <= threshold;
+            });
+            if (index >= 0) {
+                const call = block.instructions[index] as CallInstruction;
+                worklist.unshift(inlineCall(caller, block, index, functions.get(call.callee)!, labels, names));
+                inlined.add(call.callee);
+            }
+        }
+    }
+
+    const called = new CallGraph(module);
+    module.functions = module.functions.filter(func => func.name === 'main' || !inlined.has(func.name) || called.callersOf(func.name).length > 0);
+    return inlined.size > 0;
+}
+
+/** 函数的规模：除 alloca 和 phi 之外的指令数加上终结指令数 */
+export function functionSize(func: IrFunction): number {
+    return func.blocks.reduce((size, block) =>
+        size + block.instructions.filter(instruction => instruction.op !== 'alloca' && instruction.op !== 'phi').length + 1, 0);
+}
+
+/** 在调用点内联的代价：函数体的规模减去调用本身（传参和 call）省下的指令 */
+export function inlineCost(callee: IrFunction, call: CallInstruction): number {
+    return functionSize(callee) - call.args.length - 1;
+}
+
+/** 入口块有前驱的函数无法直接把调用点接到入口上 */
+function isInlinable(callee: IrFunction): boolean {
+    return predecessors(callee).get(callee.blocks[0].label)!.length === 0;
+}
+
+/**
+ * 把 block 中第 index 条指令（call）替换为被调用函数体的副本：
+ * call 之后的指令连同原来的终结指令移到新块 `<callee>.exit` 中，ret 改为跳到这个块，
+ * 有多个返回值时在那里用 phi 合并。函数体中的 alloca 移到调用者的入口块。
+ * 返回拆分出的新块。
+ */
+function inlineCall(caller: IrFunction, block: BasicBlock, index: number, callee: IrFunction,
+    labels: Set<string>, names: Set<string>): BasicBlock {
+    const call = block.instructions[index] as CallInstruction;
+    const params = new Map(callee.params.map((param, i) => [param.name, call.args[i]]));
+    const renamed = new Map<string, string>();
+    const rename = (value: Temp): Temp => {
+        if (!renamed.has(value.name)) {
+            renamed.set(value.name, freshName(names, `${callee.name}.${value.name}`));
+        }
+        return temp(renamed.get(value.name)!, value.type);
+    };
+    const mapValue = (value: Value): Value =>
+        value.kind !== 'temp' ? value : params.get(value.name) ?? rename(value);
+    const blockLabels = new Map(callee.blocks.map(calleeBlock => [calleeBlock.label, freshName(labels, `${callee.name}.${calleeBlock.label}`)]));
+    const exit: BasicBlock = {
+        label: freshName(labels, `${callee.name}.exit`),
+        instructions: block.instructions.slice(index + 1),
+        terminator: block.terminator,
+    };
+    // 原来从 block 流出的边现在从 exit 流出
+    for (const other of caller.blocks) {
+        for (const instruction of other.instructions) {
+            if (instruction.op === 'phi') {
+                instruction.incoming.forEach(incoming => incoming.block = incoming.block === block.label ? exit.label : incoming.block);
+            }
+        }
+    }
+    block.instructions = block.instructions.slice(0, index);
+    block.terminator = { op: 'jmp', target: blockLabels.get(callee.blocks[0].label)! };
+
+    const returns: Array<{ value?: Value, block: string }> = [];
+    const allocas: Instruction[] = [];
+    const body: BasicBlock[] = structuredClone(callee.blocks).map(original => {
+        const label = blockLabels.get(original.label)!;
+        const instructions = original.instructions.filter(instruction => {
+            mapOperands(instruction, mapValue);
+            if ('result' in instruction && instruction.result) {
+                instruction.result = rename(instruction.result);
+            }
+            if (instruction.op === 'phi') {
+                instruction.incoming.forEach(incoming => incoming.block = blockLabels.get(incoming.block)!);
+            }
+            if (instruction.op === 'alloca') {
+                allocas.push(instruction);
+                return false;
+            }
+            return true;
+        });
+        const terminator = original.terminator;
+        mapOperands(terminator, mapValue);
+        switch (terminator.op) {
+            case 'br':
+                terminator.trueTarget = blockLabels.get(terminator.trueTarget)!;
+                terminator.falseTarget = blockLabels.get(terminator.falseTarget)!;
+                break;
+            case 'jmp':
+                terminator.target = blockLabels.get(terminator.target)!;
+                break;
+            case 'ret':
+                returns.push({ value: terminator.value, block: label });
+                return { label, instructions, terminator: { op: 'jmp', target: exit.label } };
+        }
+        return { label, instructions, terminator };
+    });
+
+    if (call.result) {
+        const result = call.result;
+        if (returns.length > 1) {
+            exit.instructions.unshift({ op: 'phi', result, incoming: returns.map(({ value, block }) => ({ value: value!, block })) });
+        } else {
+            // 只有一个返回点时直接用返回值替换调用结果；函数不返回时结果不会被用到
+            const value = returns[0]?.value ?? constant(result.type as ScalarIrType, 0);
+            for (const other of [...caller.blocks, ...body, exit]) {
+                for (const instruction of [...other.instructions, other.terminator]) {
+                    mapOperands(instruction, operand => operand.kind === 'temp' && operand.name === result.name ? value : operand);
+                }
+            }
+        }
+    }
+    caller.blocks[0].instructions.unshift(...allocas);
+    caller.blocks.splice(caller.blocks.indexOf(block) + 1, 0, ...body, exit);
+    return exit;
+}
@@ -0,0 +1,285 @@
+/**
+ * 带类型的三地址中间表示。
+ *
+ * 一个模块由全局数据、外部函数声明和函数组成；函数由基本块组成，
+ * 每个基本块是一串指令加上一条终结指令。临时值按名字区分，
+ * 局部变量起初都放在 alloca 出来的内存中，由 mem2reg 提升为临时值（SSA 形式），
+ * 退出 SSA 时 phi 被替换为 copy。
+ */
+
+/** 标量类型：32 位整数和单精度浮点数 */
+export type ScalarIrType = 'i32' | 'f32';
+
+export type IrType = ScalarIrType | 'ptr' | 'void';
+
+/** 临时值（虚拟寄存器），以 % 开头 */
+export interface Temp {
+    kind: 'temp';
+    name: string;
+    type: IrType;
+}
+
+export interface Constant {
+    kind: 'const';
+    type: ScalarIrType;
+    value: number;
+}
+
+/** 全局变量的地址，以 @ 开头 */
+export interface GlobalRef {
+    kind: 'global';
+    name: string;
+}
+
+export type Value = Temp | Constant | GlobalRef;
+
+export type BinaryOperator = 'add' | 'sub' | 'mul' | 'sdiv' | 'srem' | 'fadd' | 'fsub' | 'fmul' | 'fdiv';
+
+export type UnaryOperator = 'neg' | 'fneg' | 'itof' | 'ftoi';
+
+export type ComparePredicate = 'eq' | 'ne' | 'lt' | 'le' | 'gt' | 'ge';
+
+export interface AllocaInstruction {
+    op: 'alloca';
+    result: Temp;
+    elementType: ScalarIrType | 'ptr';
+    /** 元素个数，标量为 1 */
+    count: number;
+}
+
+export interface LoadInstruction {
+    op: 'load';
+    result: Temp;
+    address: Value;
+}
+
+export interface StoreInstruction {
+    op: 'store';
+    type: ScalarIrType | 'ptr';
+    value: Value;
+    address: Value;
+}
+
+/** 地址运算：result = base + index * stride（字节） */
+export interface GepInstruction {
+    op: 'gep';
+    result: Temp;
+    base: Value;
+    index: Value;
+    stride: number;
+}
+
+export interface BinaryInstruction {
+    op: 'binary';
+    result: Temp;
+    operator: BinaryOperator;
+    left: Value;
+    right: Value;
+}
+
+export interface UnaryInstruction {
+    op: 'unary';
+    result: Temp;
+    operator: UnaryOperator;
+    value: Value;
+}
+
+/** 比较结果是 i32 的 0 或 1 */
+export interface CompareInstruction {
+    op: 'compare';
+    result: Temp;
+    operandType: ScalarIrType;
+    predicate: ComparePredicate;
+    left: Value;
+    right: Value;
+}
+
+export interface CallInstruction {
+    op: 'call';
+    /** void 函数没有结果 */
+    result?: Temp;
+    callee: string;
+    returnType: ScalarIrType | 'void';
+    args: Value[];
+}
+
+/** 寄存器间复制，只在退出 SSA 之后出现，同一个临时值可以被多次赋值 */
+export interface CopyInstruction {
+    op: 'copy';
+    result: Temp;
+    value: Value;
+}
+
+export interface PhiInstruction {
+    op: 'phi';
+    result: Temp;
+    incoming: Array<{ value: Value, block: string }>;
+}
+
+export type Instruction =
+    | AllocaInstruction | LoadInstruction | StoreInstruction | GepInstruction | BinaryInstruction
+    | UnaryInstruction | CompareInstruction | CallInstruction | CopyInstruction | PhiInstruction;
+
+/** 条件为非 0 时跳到 trueTarget */
+export interface BranchTerminator {
+    op: 'br';
+    condition: Value;
+    trueTarget: string;
+    falseTarget: string;
+}
+
+export interface JumpTerminator {
+    op: 'jmp';
+    target: string;
+}
+
+export interface ReturnTerminator {
+    op: 'ret';
+    value?: Value;
+}
+
+export type Terminator = BranchTerminator | JumpTerminator | ReturnTerminator;
+
+export interface BasicBlock {
+    label: string;
+    instructions: Instruction[];
+    terminator: Terminator;
+}
+
+export interface IrFunction {
+    name: string;
+    returnType: ScalarIrType | 'void';
+    params: Temp[];
+    /** 第一个基本块是入口 */
+    blocks: BasicBlock[];
+}
+
+/** 外部函数（sylib 和 memset） */
+export interface IrDeclaration {
+    name: string;
+    returnType: ScalarIrType | 'void';
+    paramTypes: Array<ScalarIrType | 'ptr'>;
+}
+
+export interface IrGlobal {
+    name: string;
+    type: ScalarIrType;
+    /** 元素个数，标量为 1 */
+    count: number;
+    /** 按行优先展开的初值，长度等于 count */
+    init: number[];
+    constant: boolean;
+}
+
+export interface IrModule {
+    globals: IrGlobal[];
+    declarations: IrDeclaration[];
+    functions: IrFunction[];
+}
+
+export function temp(name: string, type: IrType): Temp {
+    return { kind: 'temp', name, type };
+}
+
+export function constant(type: ScalarIrType, value: number): Constant {
+    return { kind: 'const', type, value: type === 'i32' ? value | 0 : Math.fround(value) };
+}
+
+export function globalRef(name: string): GlobalRef {
+    return { kind: 'global', name };
+}
+
+/** 值的类型，全局变量的值是它的地址 */
+export function valueType(value: Value): IrType {
+    return value.kind === 'global' ? 'ptr' : value.type;
+}
+
+/** 二元运算结果的类型 */
+export function binaryResultType(operator: BinaryOperator): ScalarIrType {
+    return operator.startsWith('f') ? 'f32' : 'i32';
+}
+
+/** 一元运算结果的类型 */
+export function unaryResultType(operator: UnaryOperator): ScalarIrType {
+    return operator === 'fneg' || operator === 'itof' ? 'f32' : 'i32';
+}
+
+/** 指令读取的所有操作数 */
+export function instructionOperands(instruction: Instruction | Terminator): Value[] {
+    switch (instruction.op) {
+        case 'alloca': return [];
+        case 'load': return [instruction.address];
+        case 'store': return [instruction.value, instruction.address];
+        case 'gep': return [instruction.base, instruction.index];
+        case 'binary':
+        case 'compare': return [instruction.left, instruction.right];
+        case 'unary':
+        case 'copy': return [instruction.value];
+        case 'call': return instruction.args;
+        case 'phi': return instruction.incoming.map(incoming => incoming.value);
+        case 'br': return [instruction.condition];
+        case 'jmp': return [];
+        case 'ret': return instruction.value ? [instruction.value] : [];
+    }
+}
+
+/** 两个操作数是否表示同一个值 */
+export function sameValue(a: Value, b: Value): boolean {
+    switch (a.kind) {
+        case 'temp': return b.kind === 'temp' && a.name === b.name;
+        case 'global': return b.kind === 'global' && a.name === b.name;
+        case 'const': return b.kind === 'const' && a.type === b.type && Object.is(a.value, b.value);
+    }
+}
+
+/** 终结指令的后继基本块 */
+export function successors(terminator: Terminator): string[] {
+    switch (terminator.op) {
+        case 'br': return terminator.trueTarget === terminator.falseTarget ? [terminator.trueTarget] : [terminator.trueTarget, terminator.falseTarget];
+        case 'jmp': return [terminator.target];
+        case 'ret': return [];
+    }
+}
+
+/** 把指令读取的每个操作数替换为 map 的结果 */
+export function mapOperands(instruction: Instruction | Terminator, map: (value: Value) => Value): void {
+    switch (instruction.op) {
+        case 'alloca':
+        case 'jmp':
+            return;
+        case 'load':
+            instruction.address = map(instruction.address);
+            return;
+        case 'store':
+            instruction.value = map(instruction.value);
+            instruction.address = map(instruction.address);
+            return;
+        case 'gep':
+            instruction.base = map(instruction.base);
+            instruction.index = map(instruction.index);
+            return;
+        case 'binary':
+        case 'compare':
+            instruction.left = map(instruction.left);
+            instruction.right = map(instruction.right);
+            return;
+        case 'unary':
+        case 'copy':
+            instruction.value = map(instruction.value);
+            return;
+        case 'call':
+            instruction.args = instruction.args.map(map);
+            return;
+        case 'phi':
+            instruction.incoming.forEach(incoming => incoming.value = map(incoming.value));
+            return;
+        case 'br':
+            instruction.condition = map(instruction.condition);
+            return;
+        case 'ret':
+            if (instruction.value) {
+                instruction.value = map(instruction.value);
+            }
+            return;
+    }
+}
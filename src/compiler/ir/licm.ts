@@ -0,0 +1,66 @@
+import { blockMap, reversePostorder } from './cfg.js';
+import { instructionOperands, type Instruction, type IrFunction, type Value } from './ir.js';
+import { LoopInfo, insertPreheaders } from './loops.js';
+
+/**
+ * 循环不变量外提：操作数都在循环外定值（或是常量、全局变量地址）的运算和地址计算（gep）
+ * 移到循环的前置块中。先处理内层循环，外提到内层前置块的指令可以继续被外层循环外提。
+ * while 循环的循环体可能一次也不执行，所以只外提不会出错的指令：
+ * 不外提 load、call 和 phi，除法和取余只在除数是 0 和 -1 以外的常量时外提。
+ * 返回 IR 是否有变化。
+ */
+export function licm(func: IrFunction): boolean {
+    let changed = insertPreheaders(func);
+    const info = new LoopInfo(func);
+    const blocks = blockMap(func);
+    const order = reversePostorder(func);
+    // 每个临时值的定值所在的块，被多次赋值的临时值（退出 SSA 之后）不外提
+    const definitions = new Map<string, string[]>();
+    for (const block of func.blocks) {
+        for (const instruction of block.instructions) {
+            if ('result' in instruction && instruction.result) {
+                definitions.set(instruction.result.name, [...definitions.get(instruction.result.name) ?? [], block.label]);
+            }
+        }
+    }
+
+    for (const loop of info.loops) {
+        const preheader = blocks.get(loop.preheader!)!;
+        const isInvariant = (value: Value) =>
+            value.kind !== 'temp' || !(definitions.get(value.name) ?? []).some(label => loop.blocks.has(label));
+        for (const label of order.filter(label => loop.blocks.has(label))) {
+            const block = blocks.get(label)!;
+            block.instructions = block.instructions.filter(instruction => {
+                if (!isHoistable(instruction) || definitions.get(instruction.result.name)!.length > 1
+                    || !instructionOperands(instruction).every(isInvariant)) {
+                    return true;
+                }
+                preheader.instructions.push(instruction);
+                definitions.set(instruction.result.name, [preheader.label]);
+                changed = true;
+                return false;
+            });
+        }
+    }
+    return changed;
+}
+
+type Hoistable = Extract<Instruction, { op: 'binary' | 'unary' | 'compare' | 'gep' }>;
+
+function isHoistable(instruction: Instruction): instruction is Hoistable {
+    switch (instruction.op) {
+        case 'unary':
+        case 'compare':
+        case 'gep':
+            return true;
+        case 'binary': {
+            if (instruction.operator !== 'sdiv' && instruction.operator !== 'srem') {
+                return true;
+            }
+            const divisor = instruction.right;
+            return divisor.kind === 'const' && divisor.value !== 0 && divisor.value !== -1;
+        }
+        default:
+            return false;
+    }
+}
@@ -0,0 +1,158 @@
+import { blockMap, freshName, predecessors, tempNames } from './cfg.js';
+import { DominatorTree } from './dominators.js';
+import { successors, temp, type BasicBlock, type IrFunction, type PhiInstruction, type Terminator } from './ir.js';
+
+/** 自然循环 */
+export interface Loop {
+    header: string;
+    /** 循环中的基本块，包括循环头和内层循环的块 */
+    blocks: Set<string>;
+    /** 回边的起点 */
+    latches: string[];
+    /** 循环外唯一的前驱，并且它只有循环头一个后继；没有这样的块时为 undefined */
+    preheader?: string;
+    parent?: Loop;
+    children: Loop[];
+    /** 嵌套深度，最外层循环为 1 */
+    depth: number;
+}
+
+/**
+ * 函数中的自然循环和它们的嵌套关系。
+ * 回边是指向支配自己的块的边，回边的目标是循环头，循环体是不经过循环头能到达回边起点的块。
+ * 循环头相同的回边属于同一个循环。SysY 只有 while 循环，循环头就是 while 的条件块。
+ */
+export class LoopInfo {
+    /** 最外层的循环，按循环头在函数中的顺序排列 */
+    readonly topLevel: Loop[] = [];
+    /** 所有循环，内层循环在外层循环之前 */
+    readonly loops: Loop[];
+
+    constructor(func: IrFunction) {
+        const tree = new DominatorTree(func);
+        const preds = predecessors(func);
+        const headers = new Map<string, Loop>();
+        for (const block of func.blocks) {
+            for (const successor of successors(block.terminator)) {
+                if (tree.isReachable(block.label) && tree.dominates(successor, block.label)) {
+                    const loop = headers.get(successor) ?? { header: successor, blocks: new Set([successor]), latches: [], children: [], depth: 0 };
+                    headers.set(successor, loop);
+                    loop.latches.push(block.label);
+                    // 从回边起点逆着控制流找到循环体
+                    const worklist = [block.label];
+                    while (worklist.length > 0) {
+                        const label = worklist.pop()!;
+                        if (!loop.blocks.has(label)) {
+                            loop.blocks.add(label);
+                            worklist.push(...preds.get(label)!.filter(pred => tree.isReachable(pred)));
+                        }
+                    }
+                }
+            }
+        }
+
+        // 包含某个循环头的最小的其他循环就是它的外层循环
+        const order = new Map(func.blocks.map((block, i) => [block.label, i]));
+        const blocks = blockMap(func);
+        const bySize = [...headers.values()].sort((a, b) => a.blocks.size - b.blocks.size || order.get(a.header)! - order.get(b.header)!);
+        for (const loop of bySize) {
+            loop.parent = bySize.find(other => other !== loop && other.blocks.has(loop.header));
+            (loop.parent?.children ?? this.topLevel).push(loop);
+            const outside = preds.get(loop.header)!.filter(pred => !loop.blocks.has(pred));
+            if (outside.length === 1 && successors(blocks.get(outside[0])!.terminator).length === 1) {
+                loop.preheader = outside[0];
+            }
+        }
+        const byHeader = (a: Loop, b: Loop) => order.get(a.header)! - order.get(b.header)!;
+        this.topLevel.sort(byHeader);
+        const visit = (loop: Loop, depth: number) => {
+            loop.depth = depth;
+            loop.children.sort(byHeader);
+            loop.children.forEach(child => visit(child, depth + 1));
+        };
+        this.topLevel.forEach(loop => visit(loop, 1));
+        this.loops = bySize;
+    }
+
+    /** 包含这个块的最内层循环 */
+    loopFor(label: string): Loop | undefined {
+        return this.loops.find(loop => loop.blocks.has(label));
+    }
+
+    /** 块所在循环的嵌套深度，不在循环中为 0 */
+    depth(label: string): number {
+        return this.loopFor(label)?.depth ?? 0;
+    }
+}
+
+/**
+ * 为没有前置块的循环插入一个：循环外的前驱都改为跳到新块 `<header>.preheader`，新块再跳到循环头。
+ * 循环头的 phi 中来自循环外的值移到新块中（只有一个时直接改来源块）。
+ * 返回是否插入了新块；插入后需要重新计算 LoopInfo。
+ */
+export function insertPreheaders(func: IrFunction, info = new LoopInfo(func)): boolean {
+    const labels = new Set(func.blocks.map(block => block.label));
+    const names = tempNames(func);
+    const blocks = blockMap(func);
+    const preds = predecessors(func);
+    let changed = false;
+    for (const loop of info.loops) {
+        if (loop.preheader) {
+            continue;
+        }
+        const header = blocks.get(loop.header)!;
+        const outside = preds.get(loop.header)!.filter(pred => !loop.blocks.has(pred));
+        const preheader: BasicBlock = { label: freshName(labels, `${loop.header}.preheader`), instructions: [], terminator: { op: 'jmp', target: loop.header } };
+        for (const label of outside) {
+            retarget(blocks.get(label)!.terminator, loop.header, preheader.label);
+        }
+        for (const instruction of header.instructions) {
+            if (instruction.op !== 'phi') {
+                continue;
+            }
+            const incoming = instruction.incoming.filter(entry => outside.includes(entry.block));
+            const inside = instruction.incoming.filter(entry => !outside.includes(entry.block));
+            if (incoming.length === 1) {
+                instruction.incoming = [...inside, { value: incoming[0].value, block: preheader.label }];
+            } else if (incoming.length > 1) {
+                const phi: PhiInstruction = { op: 'phi', result: temp(freshName(names, `${instruction.result.name}.ph`), instruction.result.type), incoming };
+                preheader.instructions.push(phi);
+                instruction.incoming = [...inside, { value: phi.result, block: preheader.label }];
+            }
+        }
+        func.blocks.splice(func.blocks.indexOf(header), 0, preheader);
+        blocks.set(preheader.label, preheader);
+        // 前置块属于外层循环
+        for (let outer = loop.parent; outer; outer = outer.parent) {
+            outer.blocks.add(preheader.label);
+        }
+        preds.set(preheader.label, outside);
+        preds.set(loop.header, [...preds.get(loop.header)!.filter(pred => !outside.includes(pred)), preheader.label]);
+        loop.preheader = preheader.label;
+        changed = true;
+    }
+    return changed;
+}
+
+function retarget(terminator: Terminator, from: string, to: string): void {
+    if (terminator.op === 'jmp' && terminator.target === from) {
+        terminator.target = to;
+    } else if (terminator.op === 'br') {
+        terminator.trueTarget = terminator.trueTarget === from ? to : terminator.trueTarget;
+        terminator.falseTarget = terminator.falseTarget === from ? to : terminator.falseTarget;
+    }
+}
+
+/** 以注释的形式输出函数的循环树，每层循环缩进两格 */
+export function printLoopTree(func: IrFunction, info = new LoopInfo(func)): string {
+    const lines = [`; loops in @${func.name}${info.topLevel.length === 0 ? ': none' : ''}`];
+    const visit = (loop: Loop) => {
+        const indent = '  '.repeat(loop.depth);
+        const blocks = func.blocks.map(block => block.label).filter(label => loop.blocks.has(label));
+        lines.push(`;${indent}loop ${loop.header}: depth ${loop.depth}, preheader ${loop.preheader ?? '-'}, latches ${loop.latches.join(' ')}`);
+        lines.push(`;${indent}  blocks ${blocks.join(' ')}`);
+        loop.children.forEach(visit);
+    };
+    info.topLevel.forEach(visit);
+    return lines.join('\n') + '\n';
+}
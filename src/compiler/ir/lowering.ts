@@ -0,0 +1,600 @@
+import type {
+    BlockItem, Cond, ConstDef, ConstInitVal, ConstantLVal, Decl, Exp, FuncDef, Model, Stmt, VarDef, VariableLVal
+} from '../../language/generated/ast.js';
+import {
+    isBinExpr, isConstDef, isFuncRParams, isStmtExp, isStmtLval, isStmtbreak, isStmtcontinue, isStmtelif,
+    isStmtreturn, isStmtwhile
+} from '../../language/generated/ast.js';
+import { SYLIB_FUNCTIONS, type FunctionSignature, type ScalarType } from '../runtime.js';
+import {
+    CompileError, Scopes, arraySize, convertConst, evaluateConstExp, flattenInitializer, parseNumber,
+    scalarInitializer, type ConstValue, type VariableSymbol
+} from '../semantic.js';
+import {
+    constant, globalRef, temp, valueType, type BasicBlock, type BinaryOperator, type ComparePredicate, type Instruction,
+    type IrDeclaration, type IrFunction, type IrGlobal, type IrModule, type IrType, type ScalarIrType, type Temp,
+    type Terminator, type Value
+} from './ir.js';
+
+/**
+ * 把通过验证的 SysY 编译单元降级为中间表示。
+ * 局部变量和标量形参都分配在入口块的 alloca 中，临时值写作 %N，基本块标签写作 hint.N。
+ */
+export function lowerToIr(model: Model): IrModule {
+    return new IrLowering().lower(model);
+}
+
+/** 数组清零使用的外部函数 */
+const MEMSET: IrDeclaration = { name: 'memset', returnType: 'void', paramTypes: ['ptr', 'i32', 'i32'] };
+
+/** 变量在中间表示中的位置 */
+interface IrVariable extends VariableSymbol {
+    /** 变量地址（全局变量、alloca 或数组形参）；标量常量直接折叠，没有地址 */
+    address?: Value;
+}
+
+interface IrCallee extends FunctionSignature {
+    symbol: string;
+    passLineNumber?: boolean;
+}
+
+interface LoopLabels {
+    continueLabel: string;
+    breakLabel: string;
+}
+
+const COMPARISONS: Record<string, ComparePredicate> = {
+    '<': 'lt',
+    '>': 'gt',
+    '<=': 'le',
+    '>=': 'ge',
+    '==': 'eq',
+    '!=': 'ne',
+};
+
+const ARITHMETIC: Record<string, [BinaryOperator, BinaryOperator | undefined]> = {
+    '+': ['add', 'fadd'],
+    '-': ['sub', 'fsub'],
+    '*': ['mul', 'fmul'],
+    '/': ['sdiv', 'fdiv'],
+    '%': ['srem', undefined],
+};
+
+function irType(type: ScalarType): ScalarIrType {
+    return type === 'int' ? 'i32' : 'f32';
+}
+
+function isZero(value: Value): boolean {
+    return value.kind === 'const' && value.value === 0 && !Object.is(value.value, -0);
+}
+
+class IrLowering {
+    private readonly scopes = new Scopes<IrVariable>();
+    private readonly functions = new Map<string, IrCallee>();
+    private readonly externals = new Map<string, IrDeclaration>();
+    private readonly globals: IrGlobal[] = [];
+
+    // 当前函数的状态
+    private currentFunction: FuncDef | undefined;
+    private allocas: Instruction[] = [];
+    private blocks: BasicBlock[] = [];
+    /** 正在填充的基本块；终结指令之后为 undefined */
+    private current: { label: string, instructions: Instruction[] } | undefined;
+    private tempCounter = 0;
+    private labelCounter = 0;
+    private localNames = new Set<string>();
+    private loops: LoopLabels[] = [];
+
+    lower(model: Model): IrModule {
+        for (const func of model.functions) {
+            this.functions.set(func.name, {
+                symbol: func.name,
+                returnType: func.functype,
+                params: func.funcFparam.map(p => ({ type: p.btype, rank: p.array ? p.extraExp.length + 1 : 0 })),
+            });
+        }
+        for (const [name, runtime] of Object.entries(SYLIB_FUNCTIONS)) {
+            if (!this.functions.has(name)) {
+                this.functions.set(name, runtime);
+            }
+        }
+
+        const declarations = [...model.declarations].sort((a, b) => (a.$cstNode?.offset ?? 0) - (b.$cstNode?.offset ?? 0));
+        for (const decl of declarations) {
+            this.lowerGlobalDecl(decl);
+        }
+        const functions = model.functions.map(func => this.lowerFunction(func));
+        return { globals: this.globals, declarations: [...this.externals.values()], functions };
+    }
+
+    // ---------------------------------------------------------------- 声明
+
+    private lowerGlobalDecl(decl: Decl): void {
+        for (const def of decl.defs as Array<VarDef | ConstDef>) {
+            const symbol = this.createSymbol(def, decl);
+            const values = this.constantValues(def, symbol);
+            if (symbol.isConst) {
+                symbol.constValues = values;
+            }
+            if (!symbol.isConst || symbol.dims.length > 0) {
+                symbol.address = globalRef(def.name);
+                this.globals.push({ name: def.name, type: irType(symbol.type), count: values.length, init: values, constant: symbol.isConst });
+            }
+            this.scopes.declare(def.name, symbol);
+        }
+    }
+
+    private lowerLocalDecl(decl: Decl): void {
+        for (const def of decl.defs as Array<VarDef | ConstDef>) {
+            const symbol = this.createSymbol(def, decl);
+            if (symbol.isConst) {
+                symbol.constValues = this.constantValues(def, symbol);
+                if (symbol.dims.length > 0) {
+                    // 局部常量数组的值在编译期已知，放进全局常量即可
+                    const name = `__const.${this.currentFunction!.name}.${this.uniqueLocal(def.name)}`;
+                    this.globals.push({ name, type: irType(symbol.type), count: symbol.constValues.length, init: symbol.constValues, constant: true });
+                    symbol.address = globalRef(name);
+                }
+                this.scopes.declare(def.name, symbol);
+                continue;
+            }
+
+            const address = temp(this.uniqueLocal(def.name), 'ptr');
+            this.allocas.push({ op: 'alloca', result: address, elementType: irType(symbol.type), count: arraySize(symbol.dims) });
+            symbol.address = address;
+
+            // 初值在登记名字之前计算
+            const init = (def as VarDef).Init[0];
+            if (init && symbol.dims.length === 0) {
+                const exp = scalarInitializer(init);
+                if (exp) {
+                    const value = this.convert(this.lowerExp(exp), symbol.type);
+                    this.emit({ op: 'store', type: irType(symbol.type), value, address });
+                }
+            } else if (init) {
+                const flat = flattenInitializer(init, symbol.dims);
+                const values = flat.map(exp => exp ? this.convert(this.lowerExp(exp), symbol.type) : undefined);
+                this.externals.set(MEMSET.name, MEMSET);
+                this.emit({
+                    op: 'call', callee: MEMSET.name, returnType: 'void',
+                    args: [address, constant('i32', 0), constant('i32', arraySize(symbol.dims) * 4)],
+                });
+                values.forEach((value, offset) => {
+                    if (!value || isZero(value)) {
+                        return;
+                    }
+                    const element = this.temp('ptr');
+                    this.emit({ op: 'gep', result: element, base: address, index: constant('i32', offset), stride: 4 });
+                    this.emit({ op: 'store', type: irType(symbol.type), value, address: element });
+                });
+            }
+            this.scopes.declare(def.name, symbol);
+        }
+    }
+
+    private createSymbol(def: VarDef | ConstDef, decl: Decl): IrVariable {
+        const dims = def.index.map(dim => {
+            const size = convertConst(this.evaluate(dim), 'int');
+            if (size <= 0) {
+                throw new CompileError(`数组 '${def.name}' 的长度必须为正数。`);
+            }
+            return size;
+        });
+        return {
+            name: def.name,
+            type: decl.btype,
+            dims,
+            isConst: isConstDef(def),
+            isParam: false,
+            isGlobal: this.scopes.isGlobal,
+        };
+    }
+
+    /** 计算全局变量或常量的初值（必须是编译期常量） */
+    private constantValues(def: VarDef | ConstDef, symbol: IrVariable): number[] {
+        const init = isConstDef(def) ? def as ConstInitVal : (def as VarDef).Init[0];
+        const size = arraySize(symbol.dims);
+        if (!init) {
+            return new Array<number>(size).fill(0);
+        }
+        const exps = symbol.dims.length > 0 ? flattenInitializer(init, symbol.dims) : [scalarInitializer(init)];
+        return exps.map(exp => exp ? convertConst(this.evaluate(exp), symbol.type) : 0);
+    }
+
+    private evaluate(exp: Exp): ConstValue {
+        return evaluateConstExp(exp, name => this.scopes.lookup(name));
+    }
+
+    // ---------------------------------------------------------------- 函数
+
+    private lowerFunction(func: FuncDef): IrFunction {
+        this.currentFunction = func;
+        this.allocas = [];
+        this.blocks = [];
+        this.current = { label: 'entry', instructions: [] };
+        this.tempCounter = 0;
+        this.labelCounter = 0;
+        // 临时值写作 %N，不会与变量名冲突；形参名直接作为临时值的名字
+        this.localNames = new Set(func.funcFparam.map(p => p.name));
+        this.loops = [];
+
+        this.scopes.push();
+        const params = func.funcFparam.map(param => {
+            const rank = param.array ? param.extraExp.length + 1 : 0;
+            const symbol: IrVariable = {
+                name: param.name,
+                type: param.btype,
+                dims: param.array ? [0, ...param.extraExp.map(e => convertConst(this.evaluate(e), 'int'))] : [],
+                isConst: false,
+                isParam: true,
+                isGlobal: false,
+            };
+            if (rank > 0) {
+                const value = temp(param.name, 'ptr');
+                symbol.address = value;
+                this.scopes.declare(param.name, symbol);
+                return value;
+            }
+            // 标量形参可以被赋值，先存入栈上
+            const value = temp(param.name, irType(param.btype));
+            const address = temp(this.uniqueLocal(`${param.name}.addr`), 'ptr');
+            this.allocas.push({ op: 'alloca', result: address, elementType: value.type as ScalarIrType, count: 1 });
+            this.emit({ op: 'store', type: irType(param.btype), value, address });
+            symbol.address = address;
+            this.scopes.declare(param.name, symbol);
+            return value;
+        });
+
+        this.lowerBlockItems(func.block.blockItems);
+        if (this.current) {
+            // 函数末尾没有 return：void 函数正常返回，其他函数返回 0
+            this.terminate(func.functype === 'void' ? { op: 'ret' } : { op: 'ret', value: constant(irType(func.functype), 0) });
+        }
+        this.scopes.pop();
+
+        this.blocks[0].instructions.unshift(...this.allocas);
+        this.currentFunction = undefined;
+        return { name: func.name, returnType: func.functype === 'void' ? 'void' : irType(func.functype), params, blocks: this.blocks };
+    }
+
+    private lowerBlockItems(items: BlockItem[]): void {
+        this.scopes.push();
+        for (const item of items) {
+            if (item.blockDecl) {
+                this.lowerLocalDecl(item.blockDecl);
+            } else if (item.blockStmt) {
+                this.lowerStmt(item.blockStmt);
+            }
+        }
+        this.scopes.pop();
+    }
+
+    private lowerStmt(stmt: Stmt): void {
+        if (isStmtLval(stmt)) {
+            const target = this.lvalAddress(stmt.lval as VariableLVal);
+            const value = this.convert(this.lowerExp(stmt.expr1), target.symbol.type);
+            this.emit({ op: 'store', type: irType(target.symbol.type), value, address: target.address });
+        } else if (isStmtExp(stmt)) {
+            if (stmt.expr2) {
+                this.lowerExp(stmt.expr2);
+            }
+        } else if (isStmtelif(stmt)) {
+            const thenLabel = this.label('if.then');
+            const endLabel = this.label('if.end');
+            const elseLabel = stmt.elsestmt ? this.label('if.else') : endLabel;
+            this.lowerCond(stmt.condition, thenLabel, elseLabel);
+            this.startBlock(thenLabel);
+            this.lowerNested(stmt.ifstmt);
+            if (stmt.elsestmt) {
+                this.branch(endLabel);
+                this.startBlock(elseLabel);
+                this.lowerNested(stmt.elsestmt);
+            }
+            this.startBlock(endLabel);
+        } else if (isStmtwhile(stmt)) {
+            const condLabel = this.label('while.cond');
+            const bodyLabel = this.label('while.body');
+            const endLabel = this.label('while.end');
+            this.startBlock(condLabel);
+            this.lowerCond(stmt.condition, bodyLabel, endLabel);
+            this.startBlock(bodyLabel);
+            this.loops.push({ continueLabel: condLabel, breakLabel: endLabel });
+            this.lowerNested(stmt.whilestmt);
+            this.loops.pop();
+            this.branch(condLabel);
+            this.startBlock(endLabel);
+        } else if (isStmtbreak(stmt) || isStmtcontinue(stmt)) {
+            const loop = this.loops[this.loops.length - 1];
+            if (!loop) {
+                throw new CompileError(`'${isStmtbreak(stmt) ? 'break' : 'continue'}' 语句只能在循环中使用。`);
+            }
+            this.branch(isStmtbreak(stmt) ? loop.breakLabel : loop.continueLabel);
+        } else if (isStmtreturn(stmt)) {
+            const returnType = this.currentFunction!.functype;
+            if (returnType === 'void') {
+                if (stmt.tobereturn) {
+                    this.lowerExp(stmt.tobereturn);
+                }
+                this.terminate({ op: 'ret' });
+            } else {
+                const value = stmt.tobereturn ? this.convert(this.lowerExp(stmt.tobereturn), returnType) : constant(irType(returnType), 0);
+                this.terminate({ op: 'ret', value });
+            }
+        } else {
+            this.lowerBlockItems(stmt.blockItems);
+        }
+    }
+
+    /** if/while 的语句体单独成一个作用域 */
+    private lowerNested(stmt: Stmt): void {
+        this.scopes.push();
+        this.lowerStmt(stmt);
+        this.scopes.pop();
+    }
+
+    /** 条件跳转，|| 和 && 按短路求值展开 */
+    private lowerCond(cond: Cond, trueLabel: string, falseLabel: string): void {
+        if (isBinExpr(cond) && cond.left && (cond.operator === '||' || cond.operator === '&&')) {
+            const rightLabel = this.label(cond.operator === '||' ? 'lor.rhs' : 'land.rhs');
+            if (cond.operator === '||') {
+                this.lowerCond(cond.left, trueLabel, rightLabel);
+            } else {
+                this.lowerCond(cond.left, rightLabel, falseLabel);
+            }
+            this.startBlock(rightLabel);
+            this.lowerCond(cond.right, trueLabel, falseLabel);
+            return;
+        }
+        if (isBinExpr(cond) && !cond.left && cond.operator === '!') {
+            this.lowerCond(cond.right, falseLabel, trueLabel);
+            return;
+        }
+        const value = this.lowerExp(cond as Exp);
+        if (valueType(value) === 'ptr') {
+            throw new CompileError('数组不能用作条件。');
+        }
+        // br 以 i32 非零为真，浮点条件先与 0 比较
+        const condition = valueType(value) === 'f32' ? this.compare('ne', value, constant('f32', 0)) : value;
+        this.terminate({ op: 'br', condition, trueTarget: trueLabel, falseTarget: falseLabel });
+    }
+
+    // ---------------------------------------------------------------- 表达式
+
+    private lowerExp(exp: Exp): Value {
+        switch (exp.$type) {
+            case 'NumberLiteral': {
+                const number = parseNumber(exp.value);
+                return constant(irType(number.type), number.value);
+            }
+            case 'VariableLVal':
+            case 'ConstantLVal':
+                return this.lowerLValValue(exp);
+            case 'FunctionCall':
+            case 'FuncRParams':
+                return this.lowerCall(exp.funcname.$refText, isFuncRParams(exp) ? exp.funcRparams : [], exp);
+            case 'BinExpr':
+                if (!exp.left) {
+                    return this.lowerUnary(exp.operator, exp.right);
+                }
+                if (exp.operator === '&&' || exp.operator === '||') {
+                    return this.lowerLogicalValue(exp);
+                }
+                return this.lowerBinary(exp.operator, this.lowerExp(exp.left), this.lowerExp(exp.right));
+        }
+    }
+
+    private lowerLValValue(lval: VariableLVal | ConstantLVal): Value {
+        const symbol = this.lookup(lval.value.$refText);
+        // 常量在下标也是常量时直接折叠
+        if (symbol.constValues && (symbol.dims.length === 0 || lval.index.length === symbol.dims.length)) {
+            try {
+                const folded = this.evaluate(lval);
+                return constant(irType(symbol.type), folded.value);
+            } catch (error) {
+                if (!(error instanceof CompileError) || symbol.dims.length === 0) {
+                    throw error;
+                }
+            }
+        }
+        const { address } = this.lvalAddress(lval);
+        if (lval.index.length < symbol.dims.length) {
+            // 部分下标得到子数组的地址，用于传参
+            return address;
+        }
+        const result = this.temp(irType(symbol.type));
+        this.emit({ op: 'load', result, address });
+        return result;
+    }
+
+    /** 计算左值的地址，每一维下标对应一条 gep */
+    private lvalAddress(lval: VariableLVal | ConstantLVal): { address: Value, symbol: IrVariable } {
+        const symbol = this.lookup(lval.value.$refText);
+        if (!symbol.address) {
+            throw new CompileError(`不能给常量 '${symbol.name}' 赋值。`);
+        }
+        if (lval.index.length > symbol.dims.length) {
+            throw new CompileError(`'${symbol.name}' 的下标个数超过了它的维数。`);
+        }
+        let address = symbol.address;
+        lval.index.forEach((index, i) => {
+            const value = this.convert(this.lowerExp(index), 'int');
+            const result = this.temp('ptr');
+            this.emit({ op: 'gep', result, base: address, index: value, stride: arraySize(symbol.dims.slice(i + 1)) * 4 });
+            address = result;
+        });
+        return { address, symbol };
+    }
+
+    private lowerCall(name: string, args: Exp[], node: Exp): Value {
+        const func = this.functions.get(name);
+        if (!func) {
+            throw new CompileError(`调用了未定义的函数 '${name}'。`);
+        }
+        if (args.length !== func.params.length) {
+            throw new CompileError(`函数 '${name}' 需要 ${func.params.length} 个参数，实际传递了 ${args.length} 个。`);
+        }
+        const argValues = args.map((arg, i) => {
+            const param = func.params[i];
+            const value = this.lowerExp(arg);
+            if (param.rank > 0) {
+                if (valueType(value) !== 'ptr') {
+                    throw new CompileError(`函数 '${name}' 的第 ${i + 1} 个参数需要数组。`);
+                }
+                return value;
+            }
+            return this.convert(value, param.type);
+        });
+        if (SYLIB_FUNCTIONS[name] === func) {
+            const paramTypes = func.params.map(p => p.rank > 0 ? 'ptr' : irType(p.type));
+            if (func.passLineNumber) {
+                paramTypes.unshift('i32');
+            }
+            this.externals.set(func.symbol, { name: func.symbol, returnType: func.returnType === 'void' ? 'void' : irType(func.returnType), paramTypes });
+        }
+        if (func.passLineNumber) {
+            argValues.unshift(constant('i32', (node.$cstNode?.range.start.line ?? 0) + 1));
+        }
+        if (func.returnType === 'void') {
+            this.emit({ op: 'call', callee: func.symbol, returnType: 'void', args: argValues });
+            return constant('i32', 0);
+        }
+        const result = this.temp(irType(func.returnType));
+        this.emit({ op: 'call', result, callee: func.symbol, returnType: irType(func.returnType), args: argValues });
+        return result;
+    }
+
+    private lowerUnary(operator: string, operand: Exp): Value {
+        const value = this.lowerExp(operand);
+        const type = valueType(value);
+        if (type === 'ptr') {
+            throw new CompileError('数组不能用作数值。');
+        }
+        if (operator === '!') {
+            return this.compare('eq', value, constant(type as ScalarIrType, 0));
+        }
+        if (operator === '-') {
+            if (value.kind === 'const') {
+                return constant(value.type, -value.value);
+            }
+            const result = this.temp(type);
+            this.emit({ op: 'unary', result, operator: type === 'f32' ? 'fneg' : 'neg', value });
+            return result;
+        }
+        return value;
+    }
+
+    private lowerBinary(operator: string, left: Value, right: Value): Value {
+        const type: ScalarType = valueType(left) === 'f32' || valueType(right) === 'f32' ? 'float' : 'int';
+        const l = this.convert(left, type);
+        const r = this.convert(right, type);
+        if (operator in COMPARISONS) {
+            return this.compare(COMPARISONS[operator], l, r);
+        }
+        const binary = ARITHMETIC[operator]?.[type === 'int' ? 0 : 1];
+        if (!binary) {
+            throw new CompileError(type === 'float' ? `浮点数不能进行 '${operator}' 运算。` : `未知运算符 '${operator}'。`);
+        }
+        const result = this.temp(irType(type));
+        this.emit({ op: 'binary', result, operator: binary, left: l, right: r });
+        return result;
+    }
+
+    /** 逻辑运算作为值使用时，借助条件跳转和 phi 得到 0 或 1 */
+    private lowerLogicalValue(cond: Cond): Value {
+        const trueLabel = this.label('logic.true');
+        const falseLabel = this.label('logic.false');
+        const endLabel = this.label('logic.end');
+        this.lowerCond(cond, trueLabel, falseLabel);
+        this.startBlock(trueLabel);
+        this.branch(endLabel);
+        this.startBlock(falseLabel);
+        this.branch(endLabel);
+        this.startBlock(endLabel);
+        const result = this.temp('i32');
+        this.emit({
+            op: 'phi', result,
+            incoming: [{ value: constant('i32', 1), block: trueLabel }, { value: constant('i32', 0), block: falseLabel }],
+        });
+        return result;
+    }
+
+    private compare(predicate: ComparePredicate, left: Value, right: Value): Temp {
+        const result = this.temp('i32');
+        this.emit({ op: 'compare', result, operandType: valueType(left) as ScalarIrType, predicate, left, right });
+        return result;
+    }
+
+    // ---------------------------------------------------------------- 类型转换
+
+    private convert(value: Value, type: ScalarType): Value {
+        const target = irType(type);
+        const source = valueType(value);
+        if (source === target) {
+            return value;
+        }
+        if (source === 'ptr') {
+            throw new CompileError('数组不能用作数值。');
+        }
+        if (value.kind === 'const') {
+            // 常量直接转换
+            return constant(target, convertConst({ type: value.type === 'i32' ? 'int' : 'float', value: value.value }, type));
+        }
+        const result = this.temp(target);
+        this.emit({ op: 'unary', result, operator: target === 'f32' ? 'itof' : 'ftoi', value });
+        return result;
+    }
+
+    // ---------------------------------------------------------------- 指令输出
+
+    private lookup(name: string): IrVariable {
+        const symbol = this.scopes.lookup(name);
+        if (!symbol) {
+            throw new CompileError(`使用了未定义的变量 '${name}'。`);
+        }
+        return symbol;
+    }
+
+    private temp(type: IrType): Temp {
+        return temp(String(this.tempCounter++), type);
+    }
+
+    private label(hint: string): string {
+        return `${hint}.${this.labelCounter++}`;
+    }
+
+    private uniqueLocal(name: string): string {
+        let unique = name;
+        for (let i = 1; this.localNames.has(unique); i++) {
+            unique = `${name}.${i}`;
+        }
+        this.localNames.add(unique);
+        return unique;
+    }
+
+    private emit(instruction: Instruction): void {
+        if (!this.current) {
+            // return/break 之后的代码不可达，放进一个新的基本块
+            this.current = { label: this.label('after.jump'), instructions: [] };
+        }
+        this.current.instructions.push(instruction);
+    }
+
+    private terminate(terminator: Terminator): void {
+        if (!this.current) {
+            this.current = { label: this.label('after.jump'), instructions: [] };
+        }
+        this.blocks.push({ ...this.current, terminator });
+        this.current = undefined;
+    }
+
+    private branch(label: string): void {
+        if (this.current) {
+            this.terminate({ op: 'jmp', target: label });
+        }
+    }
+
+    private startBlock(label: string): void {
+        this.branch(label);
+        this.current = { label, instructions: [] };
+    }
+}
@@ -0,0 +1,220 @@
+import { blockMap, freshName, removeUnreachableBlocks, tempNames } from './cfg.js';
+import { DominatorTree } from './dominators.js';
+import {
+    constant, instructionOperands, mapOperands, sameValue, successors, temp, type AllocaInstruction, type IrFunction, type PhiInstruction,
+    type ScalarIrType, type Value
+} from './ir.js';
+
+/**
+ * 把只通过 load/store 访问的标量 alloca 提升为 SSA 临时值：
+ * 在定值块的迭代支配边界上插入 phi，再沿支配树重命名。
+ * 读取未赋值的变量得到 0。最后删去多余的 phi（所有来源都相同，或结果没有被使用）。
+ */
+export function mem2reg(func: IrFunction): void {
+    removeUnreachableBlocks(func);
+    const allocas = promotableAllocas(func);
+    if (allocas.size === 0) {
+        return;
+    }
+    const tree = new DominatorTree(func);
+    const blocks = blockMap(func);
+    const names = tempNames(func);
+
+    // 插入 phi，记录每个 phi 对应的变量
+    const owners = new Map<PhiInstruction, string>();
+    for (const [name, alloca] of allocas) {
+        const definitionBlocks = func.blocks
+            .filter(block => block.instructions.some(i => i.op === 'store' && i.address.kind === 'temp' && i.address.name === name))
+            .map(block => block.label);
+        const worklist = [...definitionBlocks];
+        const hasPhi = new Set<string>();
+        const queued = new Set(definitionBlocks);
+        while (worklist.length > 0) {
+            const label = worklist.pop()!;
+            for (const frontier of tree.frontier(label)) {
+                if (hasPhi.has(frontier)) {
+                    continue;
+                }
+                hasPhi.add(frontier);
+                const base = name.replace(/\.addr$/, '');
+                const phi: PhiInstruction = { op: 'phi', result: temp(freshName(names, base), alloca.elementType), incoming: [] };
+                blocks.get(frontier)!.instructions.unshift(phi);
+                owners.set(phi, name);
+                if (!queued.has(frontier)) {
+                    queued.add(frontier);
+                    worklist.push(frontier);
+                }
+            }
+        }
+    }
+
+    // 沿支配树重命名：每个变量一个当前值栈，load 被替换为当前值，store 压入新值
+    const replacements = new Map<string, Value>();
+    const resolve = (value: Value) => resolveReplacement(replacements, value);
+    const stacks = new Map<string, Value[]>([...allocas.keys()].map(name => [name, []]));
+    const current = (name: string): Value => {
+        const stack = stacks.get(name)!;
+        return stack.length > 0 ? stack[stack.length - 1] : constant(allocas.get(name)!.elementType as ScalarIrType, 0);
+    };
+    const promotedAddress = (value: Value): string | undefined =>
+        value.kind === 'temp' && allocas.has(value.name) ? value.name : undefined;
+
+    const work: Array<{ label: string, pushed?: string[] }> = [{ label: tree.entry }];
+    while (work.length > 0) {
+        const item = work.pop()!;
+        if (item.pushed) {
+            // 离开子树时恢复各变量的当前值
+            for (const name of item.pushed) {
+                stacks.get(name)!.pop();
+            }
+            continue;
+        }
+        const block = blocks.get(item.label)!;
+        const pushed: string[] = [];
+        block.instructions = block.instructions.filter(instruction => {
+            if (instruction.op === 'phi' && owners.has(instruction)) {
+                stacks.get(owners.get(instruction)!)!.push(instruction.result);
+                pushed.push(owners.get(instruction)!);
+                return true;
+            }
+            if (instruction.op === 'alloca') {
+                return !allocas.has(instruction.result.name);
+            }
+            if (instruction.op === 'load') {
+                const name = promotedAddress(instruction.address);
+                if (name) {
+                    replacements.set(instruction.result.name, resolve(current(name)));
+                    return false;
+                }
+            }
+            if (instruction.op === 'store') {
+                const name = promotedAddress(instruction.address);
+                if (name) {
+                    stacks.get(name)!.push(resolve(instruction.value));
+                    pushed.push(name);
+                    return false;
+                }
+            }
+            return true;
+        });
+        for (const successor of successors(block.terminator)) {
+            for (const instruction of blocks.get(successor)!.instructions) {
+                if (instruction.op === 'phi' && owners.has(instruction)) {
+                    instruction.incoming.push({ value: current(owners.get(instruction)!), block: block.label });
+                }
+            }
+        }
+        work.push({ label: item.label, pushed });
+        for (const child of [...tree.children(item.label)].reverse()) {
+            work.push({ label: child });
+        }
+    }
+
+    replaceAll(func, replacements);
+    removeRedundantPhis(func);
+}
+
+/** 只被用作 load/store 地址的标量 alloca */
+function promotableAllocas(func: IrFunction): Map<string, AllocaInstruction> {
+    const candidates = new Map<string, AllocaInstruction>();
+    for (const block of func.blocks) {
+        for (const instruction of block.instructions) {
+            if (instruction.op === 'alloca' && instruction.count === 1 && instruction.elementType !== 'ptr') {
+                candidates.set(instruction.result.name, instruction);
+            }
+        }
+    }
+    for (const block of func.blocks) {
+        for (const instruction of [...block.instructions, block.terminator]) {
+            const operands = instruction.op === 'load' ? [] : instruction.op === 'store' ? [instruction.value] : instructionOperands(instruction);
+            for (const operand of operands) {
+                if (operand.kind === 'temp') {
+                    candidates.delete(operand.name);
+                }
+            }
+        }
+    }
+    return candidates;
+}
+
+function resolveReplacement(replacements: Map<string, Value>, value: Value): Value {
+    while (value.kind === 'temp' && replacements.has(value.name)) {
+        value = replacements.get(value.name)!;
+    }
+    return value;
+}
+
+function replaceAll(func: IrFunction, replacements: Map<string, Value>): void {
+    if (replacements.size === 0) {
+        return;
+    }
+    for (const block of func.blocks) {
+        for (const instruction of [...block.instructions, block.terminator]) {
+            mapOperands(instruction, value => resolveReplacement(replacements, value));
+        }
+    }
+}
+
+/**
+ * 删去所有来源都相同（不计自身）的 phi，用那个来源替换它；
+ * 再删去结果只被无用的 phi 使用的 phi。
+ */
+export function removeRedundantPhis(func: IrFunction): void {
+    for (let changed = true; changed;) {
+        changed = false;
+        const replacements = new Map<string, Value>();
+        for (const block of func.blocks) {
+            block.instructions = block.instructions.filter(instruction => {
+                if (instruction.op !== 'phi') {
+                    return true;
+                }
+                const sources = instruction.incoming
+                    .map(incoming => incoming.value)
+                    .filter(value => !(value.kind === 'temp' && value.name === instruction.result.name));
+                const first = sources[0];
+                // 同一轮中互相引用的 phi 不能都被替换，否则会形成环
+                if (first && sources.every(value => sameValue(value, first))
+                    && !sameValue(resolveReplacement(replacements, first), instruction.result)) {
+                    replacements.set(instruction.result.name, first);
+                    changed = true;
+                    return false;
+                }
+                return true;
+            });
+        }
+        replaceAll(func, replacements);
+    }
+
+    // 从非 phi 的使用出发标记有用的 phi
+    const phis = new Map<string, PhiInstruction>();
+    for (const block of func.blocks) {
+        for (const instruction of block.instructions) {
+            if (instruction.op === 'phi') {
+                phis.set(instruction.result.name, instruction);
+            }
+        }
+    }
+    const live = new Set<string>();
+    const worklist: string[] = [];
+    const markOperands = (operands: Value[]) => {
+        for (const operand of operands) {
+            if (operand.kind === 'temp' && phis.has(operand.name) && !live.has(operand.name)) {
+                live.add(operand.name);
+                worklist.push(operand.name);
+            }
+        }
+    };
+    for (const block of func.blocks) {
+        for (const instruction of [...block.instructions, block.terminator]) {
+            if (instruction.op !== 'phi') {
+                markOperands(instructionOperands(instruction));
+            }
+        }
+    }
+    while (worklist.length > 0) {
+        markOperands(instructionOperands(phis.get(worklist.pop()!)!));
+    }
+    for (const block of func.blocks) {
+        block.instructions = block.instructions.filter(instruction => instruction.op !== 'phi' || live.has(instruction.result.name));
+    }
+}
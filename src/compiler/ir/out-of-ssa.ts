@@ -0,0 +1,84 @@
+import { blockMap, freshName, tempNames } from './cfg.js';
+import {
+    successors, temp, type BasicBlock, type CopyInstruction, type IrFunction, type PhiInstruction, type Temp, type Value
+} from './ir.js';
+
+/**
+ * 退出 SSA：把 phi 替换为前驱末尾的 copy。
+ * 先拆分关键边（前驱有多个后继时在边上插入新块），
+ * 再把同一条边上的并行复制排成顺序执行的 copy，遇到循环依赖时借助一个新的临时值。
+ */
+export function outOfSsa(func: IrFunction): void {
+    const labels = new Set(func.blocks.map(block => block.label));
+    const names = tempNames(func);
+
+    for (const block of func.blocks) {
+        // 两个出口相同的条件跳转在插入 copy 之后会读到被覆盖的值，先改为无条件跳转
+        const terminator = block.terminator;
+        if (terminator.op === 'br' && terminator.trueTarget === terminator.falseTarget) {
+            block.terminator = { op: 'jmp', target: terminator.trueTarget };
+        }
+    }
+
+    const blocks = blockMap(func);
+    for (const block of [...func.blocks]) {
+        const phis = block.instructions.filter((instruction): instruction is PhiInstruction => instruction.op === 'phi');
+        if (phis.length === 0) {
+            continue;
+        }
+        const preds = [...new Set(phis.flatMap(phi => phi.incoming.map(incoming => incoming.block)))];
+        for (const predLabel of preds) {
+            let pred = blocks.get(predLabel)!;
+            if (successors(pred.terminator).length > 1) {
+                pred = splitEdge(func, pred, block, freshName(labels, `${pred.label}.split`));
+                blocks.set(pred.label, pred);
+            }
+            const copies = phis.map(phi => ({ dest: phi.result, source: phi.incoming.find(incoming => incoming.block === predLabel)!.value }));
+            pred.instructions.push(...sequentialize(copies, type => temp(freshName(names, 'swap'), type)));
+        }
+        block.instructions = block.instructions.filter(instruction => instruction.op !== 'phi');
+    }
+}
+
+/** 在 pred 到 block 的边上插入一个只有跳转的新块，放在 pred 之后 */
+function splitEdge(func: IrFunction, pred: BasicBlock, block: BasicBlock, label: string): BasicBlock {
+    const edge: BasicBlock = { label, instructions: [], terminator: { op: 'jmp', target: block.label } };
+    const terminator = pred.terminator;
+    if (terminator.op === 'br') {
+        if (terminator.trueTarget === block.label) {
+            terminator.trueTarget = label;
+        }
+        if (terminator.falseTarget === block.label) {
+            terminator.falseTarget = label;
+        }
+    }
+    func.blocks.splice(func.blocks.indexOf(pred) + 1, 0, edge);
+    return edge;
+}
+
+/**
+ * 把并行复制排成顺序执行的 copy：先复制目标不再被其他复制读取的，
+ * 剩下的都在环上，把其中一个目标的旧值保存到新的临时值中以打破环。
+ */
+export function sequentialize(copies: Array<{ dest: Temp, source: Value }>, fresh: (type: Temp['type']) => Temp): CopyInstruction[] {
+    const pending = copies.filter(({ dest, source }) => !(source.kind === 'temp' && source.name === dest.name));
+    const result: CopyInstruction[] = [];
+    const isRead = (name: string) => pending.some(({ source }) => source.kind === 'temp' && source.name === name);
+    while (pending.length > 0) {
+        const index = pending.findIndex(({ dest }) => !isRead(dest.name));
+        if (index >= 0) {
+            const [{ dest, source }] = pending.splice(index, 1);
+            result.push({ op: 'copy', result: dest, value: source });
+            continue;
+        }
+        const blocked = pending[0].dest;
+        const saved = fresh(blocked.type);
+        result.push({ op: 'copy', result: saved, value: blocked });
+        for (const copy of pending) {
+            if (copy.source.kind === 'temp' && copy.source.name === blocked.name) {
+                copy.source = saved;
+            }
+        }
+    }
+    return result;
+}
@@ -0,0 +1,344 @@
+import { CompileError } from '../semantic.js';
+import {
+    binaryResultType, constant, globalRef, instructionOperands, temp, unaryResultType, valueType, type BinaryOperator,
+    type ComparePredicate, type CopyInstruction, type Instruction, type IrDeclaration, type IrFunction, type IrModule, type IrType,
+    type ScalarIrType, type Temp, type Terminator, type UnaryOperator, type Value
+} from './ir.js';
+
+/**
+ * 解析 printer.ts 输出的文本格式。';' 之后到行尾是注释。
+ * @throws CompileError 文本格式不正确时，消息中带有行号
+ */
+export function parseModule(text: string): IrModule {
+    return new IrParser(text).parse();
+}
+
+const NAME = '[\\w.]+';
+const TYPE = '(i32|f32|ptr|void)';
+const BINARY_OPERATORS = new Set(['add', 'sub', 'mul', 'sdiv', 'srem', 'fadd', 'fsub', 'fmul', 'fdiv']);
+const UNARY_OPERATORS = new Set(['neg', 'fneg', 'itof', 'ftoi']);
+const PREDICATES = new Set(['eq', 'ne', 'lt', 'le', 'gt', 'ge']);
+
+/** 逗号分隔的列表，不拆开方括号内部 */
+function splitList(text: string): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '[') {
+            depth++;
+        } else if (text[i] === ']') {
+            depth--;
+        } else if (text[i] === ',' && depth === 0) {
+            items.push(text.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+    const last = text.slice(start).trim();
+    if (last || items.length > 0) {
+        items.push(last);
+    }
+    return items;
+}
+
+class IrParser {
+    private readonly lines: string[];
+    private lineNumber = 0;
+
+    constructor(text: string) {
+        this.lines = text.split('\n');
+    }
+
+    parse(): IrModule {
+        const module: IrModule = { globals: [], declarations: [], functions: [] };
+        let line: string | undefined;
+        while ((line = this.next()) !== undefined) {
+            let match: RegExpExecArray | null;
+            if ((match = new RegExp(`^@(${NAME}) = (global|constant) (?:(i32|f32) (\\S+)|\\[(\\d+) x (i32|f32)\\] (zero|\\[.*\\]))$`).exec(line))) {
+                const type = (match[3] ?? match[6]) as ScalarIrType;
+                const count = match[3] ? 1 : Number(match[5]);
+                const values = match[3] ? [match[4]] : match[7] === 'zero' ? [] : splitList(match[7].slice(1, -1));
+                if (values.length > count) {
+                    this.fail(`全局变量 '@${match[1]}' 的初值多于 ${count} 个`);
+                }
+                const init = new Array<number>(count).fill(0);
+                values.forEach((value, i) => init[i] = this.number(value, type));
+                module.globals.push({ name: match[1], type, count, init, constant: match[2] === 'constant' });
+            } else if ((match = new RegExp(`^declare ${TYPE} @(${NAME})\\((.*)\\)$`).exec(line))) {
+                const paramTypes = splitList(match[3]).map(type => this.type(type, ['i32', 'f32', 'ptr']));
+                module.declarations.push({ name: match[2], returnType: this.type(match[1], ['i32', 'f32', 'void']), paramTypes } as IrDeclaration);
+            } else if ((match = new RegExp(`^define ${TYPE} @(${NAME})\\((.*)\\) \\{$`).exec(line))) {
+                module.functions.push(this.parseFunction(match));
+            } else {
+                this.fail(`无法识别 '${line}'`);
+            }
+        }
+        return module;
+    }
+
+    private parseFunction(header: RegExpExecArray): IrFunction {
+        const params = splitList(header[3]).map(param => {
+            const match = new RegExp(`^${TYPE} %(${NAME})$`).exec(param);
+            if (!match) {
+                this.fail(`无法识别形参 '${param}'`);
+            }
+            return temp(match[2], this.type(match[1], ['i32', 'f32', 'ptr']));
+        });
+        const func: IrFunction = { name: header[2], returnType: this.type(header[1], ['i32', 'f32', 'void']) as IrFunction['returnType'], params, blocks: [] };
+        const definitions = new Map<string, Temp>(params.map(param => [param.name, param]));
+        let current: { label: string, instructions: Instruction[] } | undefined;
+        let line: string | undefined;
+        while ((line = this.next()) !== undefined && line !== '}') {
+            const label = new RegExp(`^(${NAME}):$`).exec(line);
+            if (label) {
+                if (current) {
+                    this.fail(`基本块 '${current.label}' 缺少终结指令`);
+                }
+                current = { label: label[1], instructions: [] };
+                continue;
+            }
+            if (!current) {
+                this.fail('指令必须位于基本块中');
+            }
+            const terminator = this.parseTerminator(line);
+            if (terminator) {
+                func.blocks.push({ ...current, terminator });
+                current = undefined;
+                continue;
+            }
+            const instruction = this.parseInstruction(line);
+            if ('result' in instruction && instruction.result) {
+                this.define(definitions, instruction.result);
+            }
+            current.instructions.push(instruction);
+        }
+        if (line === undefined) {
+            this.fail(`函数 '@${func.name}' 缺少 '}'`);
+        }
+        if (current) {
+            this.fail(`基本块 '${current.label}' 缺少终结指令`);
+        }
+        if (func.blocks.length === 0) {
+            this.fail(`函数 '@${func.name}' 没有基本块`);
+        }
+        this.resolveTemps(func, definitions);
+        return func;
+    }
+
+    /** 退出 SSA 之后同一个临时值可以被 copy 多次赋值，但类型必须一致 */
+    private define(definitions: Map<string, Temp>, result: Temp): void {
+        const previous = definitions.get(result.name);
+        if (!previous) {
+            definitions.set(result.name, result);
+        } else if (result.type !== 'void' && previous.type !== 'void' && result.type !== previous.type) {
+            this.fail(`'%${result.name}' 的类型与之前的定义不一致`);
+        } else if (previous.type === 'void') {
+            definitions.set(result.name, result);
+        }
+    }
+
+    /** 操作数中的临时值在整个函数读完后才能确定类型（phi 可以引用后面定义的值） */
+    private resolveTemps(func: IrFunction, definitions: Map<string, Temp>): void {
+        // copy 的结果类型与被复制的临时值或同名的其他定义相同，可能要沿着 copy 链传递多次
+        const copies = func.blocks.flatMap(block => block.instructions)
+            .filter((instruction): instruction is CopyInstruction => instruction.op === 'copy' && instruction.result.type === 'void');
+        for (let changed = true; changed;) {
+            changed = false;
+            for (const copy of copies.filter(copy => copy.result.type === 'void')) {
+                const known = [definitions.get(copy.result.name), copy.value.kind === 'temp' ? definitions.get(copy.value.name) : undefined]
+                    .find(definition => definition && definition.type !== 'void');
+                if (known) {
+                    copy.result.type = known.type;
+                    this.define(definitions, copy.result);
+                    changed = true;
+                }
+            }
+        }
+        const unresolved = copies.find(copy => copy.result.type === 'void');
+        if (unresolved) {
+            throw new CompileError(`IR 函数 '@${func.name}' 无法确定 '%${unresolved.result.name}' 的类型。`);
+        }
+        const labels = new Set(func.blocks.map(block => block.label));
+        const check = (target: string) => {
+            if (!labels.has(target)) {
+                throw new CompileError(`IR 函数 '@${func.name}' 跳转到了不存在的基本块 '${target}'。`);
+            }
+        };
+        for (const block of func.blocks) {
+            for (const user of [...block.instructions, block.terminator]) {
+                for (const operand of instructionOperands(user)) {
+                    if (operand.kind !== 'temp') {
+                        continue;
+                    }
+                    const definition = definitions.get(operand.name);
+                    if (!definition) {
+                        throw new CompileError(`IR 函数 '@${func.name}' 使用了未定义的 '%${operand.name}'。`);
+                    }
+                    operand.type = definition.type;
+                }
+                if (user.op === 'phi') {
+                    user.incoming.forEach(incoming => check(incoming.block));
+                }
+            }
+            if (block.terminator.op === 'br') {
+                check(block.terminator.trueTarget);
+                check(block.terminator.falseTarget);
+            } else if (block.terminator.op === 'jmp') {
+                check(block.terminator.target);
+            }
+        }
+    }
+
+    private parseTerminator(line: string): Terminator | undefined {
+        let match: RegExpExecArray | null;
+        if ((match = new RegExp(`^br (\\S+), (${NAME}), (${NAME})$`).exec(line))) {
+            return { op: 'br', condition: this.value(match[1]), trueTarget: match[2], falseTarget: match[3] };
+        }
+        if ((match = new RegExp(`^jmp (${NAME})$`).exec(line))) {
+            return { op: 'jmp', target: match[1] };
+        }
+        if ((match = /^ret(?: (\S+))?$/.exec(line))) {
+            return match[1] ? { op: 'ret', value: this.value(match[1]) } : { op: 'ret' };
+        }
+        return undefined;
+    }
+
+    private parseInstruction(line: string): Instruction {
+        let match: RegExpExecArray | null;
+        if ((match = /^store (\S+) (\S+), (\S+)$/.exec(line))) {
+            const type = this.type(match[1], ['i32', 'f32', 'ptr']) as ScalarIrType | 'ptr';
+            return { op: 'store', type, value: this.value(match[2], type), address: this.value(match[3]) };
+        }
+        if ((match = /^call (\S+) @([\w.]+)\((.*)\)$/.exec(line))) {
+            if (match[1] !== 'void') {
+                this.fail('有返回值的调用必须给出结果');
+            }
+            return { op: 'call', callee: match[2], returnType: 'void', args: splitList(match[3]).map(arg => this.value(arg)) };
+        }
+        if (!(match = new RegExp(`^%(${NAME}) = (\\S+) ?(.*)$`).exec(line))) {
+            this.fail(`无法识别指令 '${line}'`);
+        }
+        const [, name, op, rest] = match;
+        const result = (type: IrType) => temp(name, type);
+        const operands = (count: number) => {
+            const items = splitList(rest);
+            if (items.length !== count) {
+                this.fail(`'${op}' 需要 ${count} 个操作数`);
+            }
+            return items;
+        };
+
+        if (op === 'alloca' && (match = /^(i32|f32|ptr)(?:, (\d+))?$/.exec(rest))) {
+            return { op: 'alloca', result: result('ptr'), elementType: match[1] as ScalarIrType | 'ptr', count: Number(match[2] ?? 1) };
+        }
+        if (op === 'load' && (match = /^(i32|f32|ptr) (\S+)$/.exec(rest))) {
+            return { op: 'load', result: result(match[1] as IrType), address: this.value(match[2]) };
+        }
+        if (op === 'gep') {
+            const [base, index, stride] = operands(3);
+            if (!/^\d+$/.test(stride)) {
+                this.fail(`gep 的步长 '${stride}' 不是整数`);
+            }
+            return { op: 'gep', result: result('ptr'), base: this.value(base), index: this.value(index, 'i32'), stride: Number(stride) };
+        }
+        if (BINARY_OPERATORS.has(op)) {
+            const type = binaryResultType(op as BinaryOperator);
+            const [left, right] = operands(2);
+            return { op: 'binary', result: result(type), operator: op as BinaryOperator, left: this.value(left, type), right: this.value(right, type) };
+        }
+        if (UNARY_OPERATORS.has(op)) {
+            const operandType = op === 'neg' || op === 'itof' ? 'i32' : 'f32';
+            const [value] = operands(1);
+            return { op: 'unary', result: result(unaryResultType(op as UnaryOperator)), operator: op as UnaryOperator, value: this.value(value, operandType) };
+        }
+        if ((op === 'icmp' || op === 'fcmp') && (match = /^(\w+) (.*)$/.exec(rest)) && PREDICATES.has(match[1])) {
+            const operandType = op === 'icmp' ? 'i32' : 'f32';
+            const items = splitList(match[2]);
+            if (items.length !== 2) {
+                this.fail(`'${op}' 需要 2 个操作数`);
+            }
+            return {
+                op: 'compare', result: result('i32'), operandType, predicate: match[1] as ComparePredicate,
+                left: this.value(items[0], operandType), right: this.value(items[1], operandType),
+            };
+        }
+        if (op === 'copy') {
+            const [value] = operands(1);
+            const parsed = this.value(value);
+            return { op: 'copy', result: result(parsed.kind === 'temp' ? 'void' : valueType(parsed)), value: parsed };
+        }
+        if (op === 'call' && (match = /^(i32|f32) @([\w.]+)\((.*)\)$/.exec(rest))) {
+            const returnType = match[1] as ScalarIrType;
+            return { op: 'call', result: result(returnType), callee: match[2], returnType, args: splitList(match[3]).map(arg => this.value(arg)) };
+        }
+        if (op === 'phi' && (match = /^(i32|f32|ptr) (.*)$/.exec(rest))) {
+            const type = match[1] as ScalarIrType | 'ptr';
+            const incoming = splitList(match[2]).map(item => {
+                const pair = new RegExp(`^\\[(\\S+), (${NAME})\\]$`).exec(item);
+                if (!pair) {
+                    this.fail(`无法识别 phi 的来源 '${item}'`);
+                }
+                return { value: this.value(pair[1], type === 'ptr' ? undefined : type), block: pair[2] };
+            });
+            return { op: 'phi', result: result(type), incoming };
+        }
+        this.fail(`无法识别指令 '${line}'`);
+    }
+
+    /** 解析操作数；常量的类型由字面量决定，给出 expected 时检查是否一致 */
+    private value(text: string, expected?: IrType): Value {
+        let value: Value;
+        if (text.startsWith('%')) {
+            // 类型在 resolveTemps 中补上
+            return temp(text.slice(1), 'void');
+        } else if (text.startsWith('@')) {
+            value = globalRef(text.slice(1));
+        } else {
+            const type = /^-?\d+$/.test(text) ? 'i32' : 'f32';
+            value = constant(type, this.number(text, type));
+        }
+        if (expected && value.kind === 'const' && value.type !== expected) {
+            this.fail(`常量 '${text}' 的类型应为 ${expected}`);
+        }
+        return value;
+    }
+
+    private number(text: string, type: ScalarIrType): number {
+        if (type === 'i32') {
+            if (!/^-?\d+$/.test(text)) {
+                this.fail(`'${text}' 不是整数常量`);
+            }
+            return Number(text) | 0;
+        }
+        const special: Record<string, number> = { 'inf': Infinity, '-inf': -Infinity, 'nan': NaN };
+        if (text in special) {
+            return special[text];
+        }
+        if (!/^-?(\d+\.\d*|\d+(\.\d*)?e[-+]?\d+)$/.test(text)) {
+            this.fail(`'${text}' 不是浮点常量`);
+        }
+        return Math.fround(Number(text));
+    }
+
+    private type<T extends IrType>(text: string, allowed: T[]): T {
+        if (!allowed.includes(text as T)) {
+            this.fail(`这里不能使用类型 '${text}'`);
+        }
+        return text as T;
+    }
+
+    /** 下一个非空行，去掉注释和首尾空白 */
+    private next(): string | undefined {
+        while (this.lineNumber < this.lines.length) {
+            const line = this.lines[this.lineNumber++].replace(/;.*$/, '').trim();
+            if (line) {
+                return line;
+            }
+        }
+        return undefined;
+    }
+
+    private fail(message: string): never {
+        throw new CompileError(`IR 第 ${this.lineNumber} 行：${message}。`);
+    }
+}
@@ -0,0 +1,78 @@
+import { adce } from './adce.js';
+import { DEFAULT_INLINE_THRESHOLD, inline } from './inliner.js';
+import { licm } from './licm.js';
+import type { IrFunction, IrModule } from './ir.js';
+import { mem2reg } from './mem2reg.js';
+import { outOfSsa } from './out-of-ssa.js';
+import { printModule } from './printer.js';
+import { sccp } from './sccp.js';
+
+/** 作用于整个模块的一遍变换 */
+export interface Pass {
+    readonly name: string;
+    run(module: IrModule): void;
+}
+
+/** 对模块中的每个函数分别执行 transform */
+export function functionPass(name: string, transform: (func: IrFunction) => unknown): Pass {
+    return {
+        name,
+        run: module => module.functions.forEach(func => transform(func)),
+    };
+}
+
+export const MEM2REG = functionPass('mem2reg', mem2reg);
+export const SCCP = functionPass('sccp', sccp);
+export const ADCE = functionPass('adce', adce);
+export const LICM = functionPass('licm', licm);
+export const OUT_OF_SSA = functionPass('out-of-ssa', outOfSsa);
+
+/** 内联阈值可调，每次按阈值创建 */
+export function inlinePass(threshold = DEFAULT_INLINE_THRESHOLD): Pass {
+    return { name: 'inline', run: module => inline(module, threshold) };
+}
+
+export const MAX_OPT_LEVEL = 1;
+
+export interface PipelineOptions {
+    inlineThreshold?: number;
+}
+
+/** 各优化级别依次执行的遍，级别 0 不做任何变换 */
+export function optimizationPipeline(level: number, options: PipelineOptions = {}): Pass[] {
+    return level >= 1 ? [MEM2REG, inlinePass(options.inlineThreshold), SCCP, ADCE, LICM] : [];
+}
+
+/** 生成代码之前执行的遍：在优化前后保证先构造 SSA、最后退出 SSA */
+export function codegenPipeline(level: number, options: PipelineOptions = {}): Pass[] {
+    const passes = optimizationPipeline(level, options);
+    if (!passes.includes(MEM2REG)) {
+        passes.unshift(MEM2REG);
+    }
+    passes.push(OUT_OF_SSA);
+    return passes;
+}
+
+export interface PassManagerOptions {
+    /** 每一遍之后以文本形式输出 IR，便于观察各遍的效果 */
+    printAfterEach?: (pass: Pass, text: string) => void;
+}
+
+/** 按加入的顺序执行各遍 */
+export class PassManager {
+    private readonly passes: Pass[] = [];
+
+    constructor(private readonly options: PassManagerOptions = {}) {}
+
+    add(...passes: Pass[]): this {
+        this.passes.push(...passes);
+        return this;
+    }
+
+    run(module: IrModule): void {
+        for (const pass of this.passes) {
+            pass.run(module);
+            this.options.printAfterEach?.(pass, printModule(module));
+        }
+    }
+}
@@ -0,0 +1,125 @@
+import type { BasicBlock, Instruction, IrFunction, IrGlobal, IrModule, Terminator, Value } from './ir.js';
+
+/**
+ * 中间表示的文本格式，与 parser.ts 互逆：
+ *
+ *     @g = global [4 x i32] [1, 2]
+ *     declare i32 @getint()
+ *     define i32 @main() {
+ *     entry:
+ *       %x = alloca i32
+ *       %0 = call i32 @getint()
+ *       store i32 %0, %x
+ *       %1 = load i32 %x
+ *       %2 = add %1, 1
+ *       ret %2
+ *     }
+ *
+ * 二元运算、比较和类型转换的类型由操作码决定（add/fadd、icmp/fcmp、itof/ftoi），不再单独写出。
+ */
+export function printModule(module: IrModule): string {
+    const sections: string[] = [];
+    if (module.globals.length > 0) {
+        sections.push(module.globals.map(printGlobal).join('\n'));
+    }
+    if (module.declarations.length > 0) {
+        sections.push(module.declarations.map(decl => `declare ${decl.returnType} @${decl.name}(${decl.paramTypes.join(', ')})`).join('\n'));
+    }
+    sections.push(...module.functions.map(printFunction));
+    return sections.join('\n\n') + '\n';
+}
+
+export function printFunction(func: IrFunction): string {
+    const params = func.params.map(param => `${param.type} %${param.name}`).join(', ');
+    return [
+        `define ${func.returnType} @${func.name}(${params}) {`,
+        ...func.blocks.flatMap(printBlock),
+        '}',
+    ].join('\n');
+}
+
+function printBlock(block: BasicBlock): string[] {
+    return [
+        `${block.label}:`,
+        ...block.instructions.map(instruction => `  ${printInstruction(instruction)}`),
+        `  ${printTerminator(block.terminator)}`,
+    ];
+}
+
+/** 数组按展开后的元素个数输出，末尾的 0 省略，全零写作 zero */
+function printGlobal(global: IrGlobal): string {
+    const keyword = global.constant ? 'constant' : 'global';
+    const element = (value: number) => printValue({ kind: 'const', type: global.type, value });
+    if (global.count === 1) {
+        return `@${global.name} = ${keyword} ${global.type} ${element(global.init[0])}`;
+    }
+    let length = global.init.length;
+    while (length > 0 && global.init[length - 1] === 0 && !Object.is(global.init[length - 1], -0)) {
+        length--;
+    }
+    const init = length === 0 ? 'zero' : `[${global.init.slice(0, length).map(element).join(', ')}]`;
+    return `@${global.name} = ${keyword} [${global.count} x ${global.type}] ${init}`;
+}
+
+export function printInstruction(instruction: Instruction): string {
+    switch (instruction.op) {
+        case 'alloca':
+            return `%${instruction.result.name} = alloca ${instruction.elementType}${instruction.count === 1 ? '' : `, ${instruction.count}`}`;
+        case 'load':
+            return `%${instruction.result.name} = load ${instruction.result.type} ${printValue(instruction.address)}`;
+        case 'store':
+            return `store ${instruction.type} ${printValue(instruction.value)}, ${printValue(instruction.address)}`;
+        case 'gep':
+            return `%${instruction.result.name} = gep ${printValue(instruction.base)}, ${printValue(instruction.index)}, ${instruction.stride}`;
+        case 'binary':
+            return `%${instruction.result.name} = ${instruction.operator} ${printValue(instruction.left)}, ${printValue(instruction.right)}`;
+        case 'unary':
+            return `%${instruction.result.name} = ${instruction.operator} ${printValue(instruction.value)}`;
+        case 'compare': {
+            const op = instruction.operandType === 'i32' ? 'icmp' : 'fcmp';
+            return `%${instruction.result.name} = ${op} ${instruction.predicate} ${printValue(instruction.left)}, ${printValue(instruction.right)}`;
+        }
+        case 'copy':
+            return `%${instruction.result.name} = copy ${printValue(instruction.value)}`;
+        case 'call': {
+            const call = `call ${instruction.returnType} @${instruction.callee}(${instruction.args.map(printValue).join(', ')})`;
+            return instruction.result ? `%${instruction.result.name} = ${call}` : call;
+        }
+        case 'phi': {
+            const incoming = instruction.incoming.map(({ value, block }) => `[${printValue(value)}, ${block}]`);
+            return `%${instruction.result.name} = phi ${instruction.result.type} ${incoming.join(', ')}`;
+        }
+    }
+}
+
+export function printTerminator(terminator: Terminator): string {
+    switch (terminator.op) {
+        case 'br':
+            return `br ${printValue(terminator.condition)}, ${terminator.trueTarget}, ${terminator.falseTarget}`;
+        case 'jmp':
+            return `jmp ${terminator.target}`;
+        case 'ret':
+            return terminator.value ? `ret ${printValue(terminator.value)}` : 'ret';
+    }
+}
+
+/** 浮点常量总是带有小数点或指数，以便与整数常量区分 */
+export function printValue(value: Value): string {
+    switch (value.kind) {
+        case 'temp':
+            return `%${value.name}`;
+        case 'global':
+            return `@${value.name}`;
+        case 'const':
+            if (value.type === 'i32') {
+                return String(value.value);
+            }
+            if (!Number.isFinite(value.value)) {
+                return Number.isNaN(value.value) ? 'nan' : value.value > 0 ? 'inf' : '-inf';
+            }
+            if (Object.is(value.value, -0)) {
+                return '-0.0';
+            }
+            return /[.e]/.test(String(value.value)) ? String(value.value) : `${value.value}.0`;
+    }
+}
@@ -0,0 +1,243 @@
+import { CompileError, convertConst, foldBinary, type ConstValue } from '../semantic.js';
+import { blockMap } from './cfg.js';
+import {
+    constant, instructionOperands, mapOperands, type BasicBlock, type BinaryOperator, type ComparePredicate, type Constant,
+    type Instruction, type IrFunction, type ScalarIrType, type Terminator, type UnaryInstruction, type Value
+} from './ir.js';
+
+/** 格值：没有记录表示还未确定（可能是任何常量），常量，或者不是常量 */
+type Lattice = Constant | 'overdefined';
+
+const OPERATORS: Record<BinaryOperator, string> = {
+    add: '+', sub: '-', mul: '*', sdiv: '/', srem: '%', fadd: '+', fsub: '-', fmul: '*', fdiv: '/',
+};
+
+const PREDICATES: Record<ComparePredicate, string> = {
+    eq: '==', ne: '!=', lt: '<', le: '<=', gt: '>', ge: '>=',
+};
+
+/**
+ * 稀疏条件常量传播（Wegman 和 Zadeck）：同时求临时值的常量格值和可执行的控制流边，
+ * 只沿可执行的边传播，所以只在死分支上赋值的变量仍然可以是常量。
+ * 随后把常量代入使用处，条件恒定的跳转改为无条件跳转，删去不可执行的基本块。
+ * 被多次赋值的临时值（退出 SSA 之后的 copy）和形参、load、call 的结果都不是常量。
+ * 返回 IR 是否有变化。
+ */
+export function sccp(func: IrFunction): boolean {
+    const blocks = blockMap(func);
+    const values = new Map<string, Lattice>(func.params.map(param => [param.name, 'overdefined']));
+    const definitionCounts = new Map<string, number>();
+    const uses = new Map<string, Array<{ instruction: Instruction | Terminator, block: BasicBlock }>>();
+    for (const block of func.blocks) {
+        for (const instruction of [...block.instructions, block.terminator]) {
+            if ('result' in instruction && instruction.result) {
+                const name = instruction.result.name;
+                definitionCounts.set(name, (definitionCounts.get(name) ?? 0) + 1);
+            }
+            for (const operand of instructionOperands(instruction)) {
+                if (operand.kind === 'temp') {
+                    uses.set(operand.name, [...uses.get(operand.name) ?? [], { instruction, block }]);
+                }
+            }
+        }
+    }
+    for (const [name, count] of definitionCounts) {
+        if (count > 1) {
+            values.set(name, 'overdefined');
+        }
+    }
+
+    const executableBlocks = new Set<string>();
+    const executableEdges = new Set<string>();
+    const edgeKey = (from: string, to: string) => `${from}->${to}`;
+    const flowWorklist: Array<[string, string]> = [];
+    const valueWorklist: string[] = [];
+
+    const valueOf = (value: Value): Lattice | undefined => {
+        switch (value.kind) {
+            case 'const': return value;
+            case 'global': return 'overdefined';
+            case 'temp': return values.get(value.name);
+        }
+    };
+    const update = (name: string, value: Lattice | undefined) => {
+        const old = values.get(name);
+        // 格值只能下降：未确定 → 常量 → 非常量
+        const next = meet(old, value);
+        if (next !== undefined && (old === undefined || old !== 'overdefined' && next === 'overdefined')) {
+            values.set(name, next);
+            valueWorklist.push(name);
+        }
+    };
+    const markEdge = (from: string, to: string) => {
+        if (!executableEdges.has(edgeKey(from, to))) {
+            executableEdges.add(edgeKey(from, to));
+            flowWorklist.push([from, to]);
+        }
+    };
+    const visit = (instruction: Instruction | Terminator, block: BasicBlock) => {
+        switch (instruction.op) {
+            case 'br': {
+                const condition = valueOf(instruction.condition);
+                if (condition === 'overdefined') {
+                    markEdge(block.label, instruction.trueTarget);
+                    markEdge(block.label, instruction.falseTarget);
+                } else if (condition) {
+                    markEdge(block.label, condition.value !== 0 ? instruction.trueTarget : instruction.falseTarget);
+                }
+                return;
+            }
+            case 'jmp':
+                markEdge(block.label, instruction.target);
+                return;
+            case 'phi': {
+                let result: Lattice | undefined;
+                for (const incoming of instruction.incoming) {
+                    if (executableEdges.has(edgeKey(incoming.block, block.label))) {
+                        result = meet(result, valueOf(incoming.value));
+                    }
+                }
+                update(instruction.result.name, result);
+                return;
+            }
+            case 'copy':
+                update(instruction.result.name, valueOf(instruction.value));
+                return;
+            case 'binary':
+            case 'compare':
+            case 'unary': {
+                const operands = instructionOperands(instruction).map(valueOf);
+                if (operands.includes('overdefined')) {
+                    update(instruction.result.name, 'overdefined');
+                } else if (!operands.includes(undefined)) {
+                    update(instruction.result.name, fold(instruction, operands as Constant[]));
+                }
+                return;
+            }
+            case 'ret':
+            case 'store':
+                return;
+            case 'call':
+                if (instruction.result) {
+                    update(instruction.result.name, 'overdefined');
+                }
+                return;
+            default:
+                update(instruction.result.name, 'overdefined');
+        }
+    };
+
+    const entry = func.blocks[0];
+    executableBlocks.add(entry.label);
+    [...entry.instructions, entry.terminator].forEach(instruction => visit(instruction, entry));
+    while (flowWorklist.length > 0 || valueWorklist.length > 0) {
+        while (flowWorklist.length > 0) {
+            const [, to] = flowWorklist.pop()!;
+            const block = blocks.get(to)!;
+            if (executableBlocks.has(to)) {
+                // 新的可执行边只影响 phi
+                block.instructions.filter(instruction => instruction.op === 'phi').forEach(instruction => visit(instruction, block));
+            } else {
+                executableBlocks.add(to);
+                [...block.instructions, block.terminator].forEach(instruction => visit(instruction, block));
+            }
+        }
+        while (valueWorklist.length > 0) {
+            for (const use of uses.get(valueWorklist.pop()!) ?? []) {
+                if (executableBlocks.has(use.block.label)) {
+                    visit(use.instruction, use.block);
+                }
+            }
+        }
+    }
+
+    // 改写：代入常量，删去结果为常量的指令和不可执行的部分
+    let changed = false;
+    const replace = (value: Value): Value => {
+        const lattice = value.kind === 'temp' ? values.get(value.name) : undefined;
+        if (lattice && lattice !== 'overdefined') {
+            changed = true;
+            return lattice;
+        }
+        return value;
+    };
+    const reachable = func.blocks.filter(block => executableBlocks.has(block.label));
+    changed ||= reachable.length !== func.blocks.length;
+    func.blocks = reachable;
+    for (const block of func.blocks) {
+        block.instructions = block.instructions.filter(instruction => {
+            if ('result' in instruction && instruction.result) {
+                const lattice = values.get(instruction.result.name);
+                if (lattice && lattice !== 'overdefined') {
+                    changed = true;
+                    return false;
+                }
+            }
+            if (instruction.op === 'phi') {
+                const incoming = instruction.incoming.filter(incoming => executableEdges.has(edgeKey(incoming.block, block.label)));
+                changed ||= incoming.length !== instruction.incoming.length;
+                instruction.incoming = incoming;
+            }
+            return true;
+        });
+        for (const instruction of [...block.instructions, block.terminator]) {
+            mapOperands(instruction, replace);
+        }
+        const terminator = block.terminator;
+        if (terminator.op === 'br' && terminator.condition.kind === 'const') {
+            block.terminator = { op: 'jmp', target: terminator.condition.value !== 0 ? terminator.trueTarget : terminator.falseTarget };
+            changed = true;
+        }
+    }
+    return changed;
+}
+
+function meet(a: Lattice | undefined, b: Lattice | undefined): Lattice | undefined {
+    if (a === undefined) {
+        return b;
+    }
+    if (b === undefined) {
+        return a;
+    }
+    return a !== 'overdefined' && b !== 'overdefined' && sameConstant(a, b) ? a : 'overdefined';
+}
+
+function sameConstant(a: Constant, b: Constant): boolean {
+    return a.type === b.type && Object.is(a.value, b.value);
+}
+
+/** 按 SysY 语义计算常量运算，运行时才会出错的运算（如除以零）不折叠 */
+function fold(instruction: Instruction, operands: Constant[]): Lattice {
+    const constValue = (value: Constant): ConstValue => ({ type: value.type === 'i32' ? 'int' : 'float', value: value.value });
+    try {
+        switch (instruction.op) {
+            case 'binary': {
+                const result = foldBinary(OPERATORS[instruction.operator], constValue(operands[0]), constValue(operands[1]));
+                return constant(irType(result), result.value);
+            }
+            case 'compare':
+                return constant('i32', foldBinary(PREDICATES[instruction.predicate], constValue(operands[0]), constValue(operands[1])).value);
+            case 'unary':
+                return foldUnary(instruction.operator, operands[0]);
+        }
+    } catch (error) {
+        if (error instanceof CompileError) {
+            return 'overdefined';
+        }
+        throw error;
+    }
+    return 'overdefined';
+}
+
+function foldUnary(operator: UnaryInstruction['operator'], value: Constant): Constant {
+    switch (operator) {
+        case 'neg': return constant('i32', -value.value);
+        case 'fneg': return constant('f32', -value.value);
+        case 'itof': return constant('f32', value.value);
+        case 'ftoi': return constant('i32', convertConst({ type: 'float', value: value.value }, 'int'));
+    }
+}
+
+function irType(value: ConstValue): ScalarIrType {
+    return value.type === 'int' ? 'i32' : 'f32';
+}
@@ -0,0 +1,681 @@
+import type {
+    BlockItem, Cond, ConstDef, ConstInitVal, Decl, Exp, FuncDef, Model, Stmt, VarDef, VariableLVal, ConstantLVal
+} from '../language/generated/ast.js';
+import {
+    isBinExpr, isConstDef, isFuncRParams, isStmtExp, isStmtLval, isStmtbreak, isStmtcontinue, isStmtelif,
+    isStmtreturn, isStmtwhile
+} from '../language/generated/ast.js';
+import { SYLIB_FUNCTIONS, type FunctionSignature, type ScalarType } from './runtime.js';
+import {
+    CompileError, Scopes, arraySize, convertConst, evaluateConstExp, flattenInitializer, parseNumber,
+    scalarInitializer, type ConstValue, type VariableSymbol
+} from './semantic.js';
+
+/**
+ * 把通过验证的 SysY 编译单元翻译为文本形式的 LLVM IR（使用不透明指针 ptr）。
+ * 局部变量一律分配在入口块的 alloca 中，由 LLVM 的 mem2reg 负责提升。
+ */
+export function generateLlvm(model: Model, sourceName = 'module'): string {
+    return new LlvmGenerator().generate(model, sourceName);
+}
+
+type LlvmType = 'i32' | 'float' | 'i1' | 'ptr';
+
+/** 一个 LLVM 值：类型和它的文本表示（寄存器名或常量） */
+interface LlvmValue {
+    type: LlvmType;
+    repr: string;
+}
+
+/** 变量在 LLVM 中的位置 */
+interface LlvmVariable extends VariableSymbol {
+    /** 变量地址（@全局、%alloca 或数组形参）；标量常量直接折叠，没有地址 */
+    address?: string;
+}
+
+interface LlvmFunction extends FunctionSignature {
+    symbol: string;
+    passLineNumber?: boolean;
+}
+
+interface LoopLabels {
+    continueLabel: string;
+    breakLabel: string;
+}
+
+function llvmType(type: ScalarType | 'void'): string {
+    return type === 'int' ? 'i32' : type === 'float' ? 'float' : 'void';
+}
+
+/** LLVM 要求 float 常量写成与其等值的 double 的十六进制位模式 */
+function floatConstant(value: number): string {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, Math.fround(value));
+    const hex = view.getBigUint64(0).toString(16).toUpperCase().padStart(16, '0');
+    return `0x${hex}`;
+}
+
+function scalarConstant(type: ScalarType, value: number): string {
+    return type === 'int' ? String(value | 0) : floatConstant(value);
+}
+
+/** 多维数组的 LLVM 类型，例如 [2 x [3 x i32]] */
+function arrayType(type: ScalarType, dims: number[]): string {
+    return dims.reduceRight((inner, dim) => `[${dim} x ${inner}]`, llvmType(type));
+}
+
+/** 由行优先展开的值构造 LLVM 常量初值，全零的子数组用 zeroinitializer */
+function constantInitializer(type: ScalarType, dims: number[], values: number[]): string {
+    if (dims.length === 0) {
+        return scalarConstant(type, values[0]);
+    }
+    if (values.every(v => v === 0 && !Object.is(v, -0))) {
+        return 'zeroinitializer';
+    }
+    const stride = arraySize(dims.slice(1));
+    const elementType = arrayType(type, dims.slice(1));
+    const elements: string[] = [];
+    for (let i = 0; i < dims[0]; i++) {
+        elements.push(`${elementType} ${constantInitializer(type, dims.slice(1), values.slice(i * stride, (i + 1) * stride))}`);
+    }
+    return `[${elements.join(', ')}]`;
+}
+
+class LlvmGenerator {
+    private readonly scopes = new Scopes<LlvmVariable>();
+    private readonly functions = new Map<string, LlvmFunction>();
+    private readonly usedRuntime = new Set<string>();
+    private readonly globalLines: string[] = [];
+    private usesMemset = false;
+
+    // 当前函数的状态
+    private currentFunction: FuncDef | undefined;
+    private allocas: string[] = [];
+    private body: string[] = [];
+    private terminated = false;
+    private tempCounter = 0;
+    private labelCounter = 0;
+    private localNames = new Set<string>();
+    private loops: LoopLabels[] = [];
+
+    generate(model: Model, sourceName: string): string {
+        for (const func of model.functions) {
+            this.functions.set(func.name, {
+                symbol: func.name,
+                returnType: func.functype,
+                params: func.funcFparam.map(p => ({ type: p.btype, rank: p.array ? p.extraExp.length + 1 : 0 })),
+            });
+        }
+        for (const [name, runtime] of Object.entries(SYLIB_FUNCTIONS)) {
+            if (!this.functions.has(name)) {
+                this.functions.set(name, runtime);
+            }
+        }
+
+        const declarations = [...model.declarations].sort((a, b) => (a.$cstNode?.offset ?? 0) - (b.$cstNode?.offset ?? 0));
+        for (const decl of declarations) {
+            this.generateGlobalDecl(decl);
+        }
+
+        const functionTexts = model.functions.map(func => this.generateFunction(func));
+
+        const lines = [`; ModuleID = '${sourceName}'`, `source_filename = "${sourceName}"`, ''];
+        if (this.globalLines.length > 0) {
+            lines.push(...this.globalLines, '');
+        }
+        lines.push(functionTexts.join('\n'));
+        const externals = [...this.usedRuntime].map(name => {
+            const runtime = SYLIB_FUNCTIONS[name];
+            const params = runtime.params.map(p => p.rank > 0 ? 'ptr' : llvmType(p.type));
+            if (runtime.passLineNumber) {
+                params.unshift('i32');
+            }
+            return `declare ${llvmType(runtime.returnType)} @${runtime.symbol}(${params.join(', ')})`;
+        });
+        if (this.usesMemset) {
+            externals.push('declare void @llvm.memset.p0.i32(ptr, i8, i32, i1)');
+        }
+        if (externals.length > 0) {
+            lines.push(...externals, '');
+        }
+        return lines.join('\n');
+    }
+
+    // ---------------------------------------------------------------- 声明
+
+    private generateGlobalDecl(decl: Decl): void {
+        for (const def of decl.defs as Array<VarDef | ConstDef>) {
+            const symbol = this.createSymbol(def, decl);
+            const values = this.constantValues(def, symbol);
+            if (symbol.isConst) {
+                symbol.constValues = values;
+            }
+            if (!symbol.isConst || symbol.dims.length > 0) {
+                symbol.address = `@${def.name}`;
+                const type = symbol.dims.length > 0 ? arrayType(symbol.type, symbol.dims) : llvmType(symbol.type);
+                const keyword = symbol.isConst ? 'constant' : 'global';
+                this.globalLines.push(`${symbol.address} = dso_local ${keyword} ${type} ${constantInitializer(symbol.type, symbol.dims, values)}`);
+            }
+            this.scopes.declare(def.name, symbol);
+        }
+    }
+
+    private generateLocalDecl(decl: Decl): void {
+        for (const def of decl.defs as Array<VarDef | ConstDef>) {
+            const symbol = this.createSymbol(def, decl);
+            if (symbol.isConst) {
+                symbol.constValues = this.constantValues(def, symbol);
+                if (symbol.dims.length > 0) {
+                    // 局部常量数组的值在编译期已知，放进私有全局常量即可
+                    symbol.address = `@__const.${this.currentFunction!.name}.${this.uniqueLocal(def.name)}`;
+                    this.globalLines.push(`${symbol.address} = private unnamed_addr constant ${arrayType(symbol.type, symbol.dims)} ${constantInitializer(symbol.type, symbol.dims, symbol.constValues)}`);
+                }
+                this.scopes.declare(def.name, symbol);
+                continue;
+            }
+
+            const address = `%${this.uniqueLocal(def.name)}`;
+            const type = symbol.dims.length > 0 ? arrayType(symbol.type, symbol.dims) : llvmType(symbol.type);
+            this.allocas.push(`${address} = alloca ${type}`);
+            symbol.address = address;
+
+            // 初值在登记名字之前计算
+            const init = (def as VarDef).Init[0];
+            if (init && symbol.dims.length === 0) {
+                const exp = scalarInitializer(init);
+                if (exp) {
+                    const value = this.convert(this.generateExp(exp), symbol.type);
+                    this.emit(`store ${value.type} ${value.repr}, ptr ${address}`);
+                }
+            } else if (init) {
+                const flat = flattenInitializer(init, symbol.dims);
+                const values = flat.map(exp => exp ? this.convert(this.generateExp(exp), symbol.type) : undefined);
+                this.usesMemset = true;
+                this.emit(`call void @llvm.memset.p0.i32(ptr ${address}, i8 0, i32 ${arraySize(symbol.dims) * 4}, i1 false)`);
+                values.forEach((value, offset) => {
+                    if (!value || value.repr === '0' || value.repr === floatConstant(0)) {
+                        return;
+                    }
+                    const indices = this.offsetToIndices(offset, symbol.dims).map(i => `i32 ${i}`);
+                    const element = this.temp();
+                    this.emit(`${element} = getelementptr inbounds ${type}, ptr ${address}, i32 0, ${indices.join(', ')}`);
+                    this.emit(`store ${value.type} ${value.repr}, ptr ${element}`);
+                });
+            }
+            this.scopes.declare(def.name, symbol);
+        }
+    }
+
+    private createSymbol(def: VarDef | ConstDef, decl: Decl): LlvmVariable {
+        const dims = def.index.map(dim => {
+            const size = convertConst(this.evaluate(dim), 'int');
+            if (size <= 0) {
+                throw new CompileError(`数组 '${def.name}' 的长度必须为正数。`);
+            }
+            return size;
+        });
+        return {
+            name: def.name,
+            type: decl.btype,
+            dims,
+            isConst: isConstDef(def),
+            isParam: false,
+            isGlobal: this.scopes.isGlobal,
+        };
+    }
+
+    /** 计算全局变量或常量的初值（必须是编译期常量） */
+    private constantValues(def: VarDef | ConstDef, symbol: LlvmVariable): number[] {
+        const init = isConstDef(def) ? def as ConstInitVal : (def as VarDef).Init[0];
+        const size = arraySize(symbol.dims);
+        if (!init) {
+            return new Array<number>(size).fill(0);
+        }
+        const exps = symbol.dims.length > 0 ? flattenInitializer(init, symbol.dims) : [scalarInitializer(init)];
+        return exps.map(exp => exp ? convertConst(this.evaluate(exp), symbol.type) : 0);
+    }
+
+    private evaluate(exp: Exp): ConstValue {
+        return evaluateConstExp(exp, name => this.scopes.lookup(name));
+    }
+
+    private offsetToIndices(offset: number, dims: number[]): number[] {
+        const indices: number[] = [];
+        for (let i = dims.length - 1; i >= 0; i--) {
+            indices.unshift(offset % dims[i]);
+            offset = Math.floor(offset / dims[i]);
+        }
+        return indices;
+    }
+
+    // ---------------------------------------------------------------- 函数
+
+    private generateFunction(func: FuncDef): string {
+        this.currentFunction = func;
+        this.allocas = [];
+        this.body = [];
+        this.terminated = false;
+        this.tempCounter = 0;
+        this.labelCounter = 0;
+        // 临时值写作 %.N，标签都带有 '.'，它们不会与变量名冲突；只有入口块需要预留
+        this.localNames = new Set(['entry', ...func.funcFparam.map(p => p.name)]);
+        this.loops = [];
+
+        this.scopes.push();
+        const params = func.funcFparam.map(param => {
+            const rank = param.array ? param.extraExp.length + 1 : 0;
+            const symbol: LlvmVariable = {
+                name: param.name,
+                type: param.btype,
+                dims: param.array ? [0, ...param.extraExp.map(e => convertConst(this.evaluate(e), 'int'))] : [],
+                isConst: false,
+                isParam: true,
+                isGlobal: false,
+            };
+            if (rank > 0) {
+                symbol.address = `%${param.name}`;
+                this.scopes.declare(param.name, symbol);
+                return `ptr noundef %${param.name}`;
+            }
+            // 标量形参可以被赋值，先存入栈上
+            const address = `%${this.uniqueLocal(`${param.name}.addr`)}`;
+            this.allocas.push(`${address} = alloca ${llvmType(param.btype)}`);
+            this.body.push(`  store ${llvmType(param.btype)} %${param.name}, ptr ${address}`);
+            symbol.address = address;
+            this.scopes.declare(param.name, symbol);
+            return `${llvmType(param.btype)} noundef %${param.name}`;
+        });
+
+        this.generateBlockItems(func.block.blockItems);
+        if (!this.terminated) {
+            // 函数末尾没有 return：void 函数正常返回，其他函数返回 0
+            this.terminate(func.functype === 'void' ? 'ret void' : `ret ${llvmType(func.functype)} ${scalarConstant(func.functype, 0)}`);
+        }
+        this.scopes.pop();
+
+        const lines = [
+            `define dso_local ${llvmType(func.functype)} @${func.name}(${params.join(', ')}) {`,
+            'entry:',
+            ...this.allocas.map(line => `  ${line}`),
+            ...this.body,
+            '}',
+            '',
+        ];
+        this.currentFunction = undefined;
+        return lines.join('\n');
+    }
+
+    private generateBlockItems(items: BlockItem[]): void {
+        this.scopes.push();
+        for (const item of items) {
+            if (item.blockDecl) {
+                this.generateLocalDecl(item.blockDecl);
+            } else if (item.blockStmt) {
+                this.generateStmt(item.blockStmt);
+            }
+        }
+        this.scopes.pop();
+    }
+
+    private generateStmt(stmt: Stmt): void {
+        if (isStmtLval(stmt)) {
+            const target = this.lvalAddress(stmt.lval as VariableLVal);
+            const value = this.convert(this.generateExp(stmt.expr1), target.symbol.type);
+            this.emit(`store ${value.type} ${value.repr}, ptr ${target.address}`);
+        } else if (isStmtExp(stmt)) {
+            if (stmt.expr2) {
+                this.generateExp(stmt.expr2);
+            }
+        } else if (isStmtelif(stmt)) {
+            const thenLabel = this.label('if.then');
+            const endLabel = this.label('if.end');
+            const elseLabel = stmt.elsestmt ? this.label('if.else') : endLabel;
+            this.generateCond(stmt.condition, thenLabel, elseLabel);
+            this.startBlock(thenLabel);
+            this.generateNested(stmt.ifstmt);
+            if (stmt.elsestmt) {
+                this.branch(endLabel);
+                this.startBlock(elseLabel);
+                this.generateNested(stmt.elsestmt);
+            }
+            this.startBlock(endLabel);
+        } else if (isStmtwhile(stmt)) {
+            const condLabel = this.label('while.cond');
+            const bodyLabel = this.label('while.body');
+            const endLabel = this.label('while.end');
+            this.startBlock(condLabel);
+            this.generateCond(stmt.condition, bodyLabel, endLabel);
+            this.startBlock(bodyLabel);
+            this.loops.push({ continueLabel: condLabel, breakLabel: endLabel });
+            this.generateNested(stmt.whilestmt);
+            this.loops.pop();
+            this.branch(condLabel);
+            this.startBlock(endLabel);
+        } else if (isStmtbreak(stmt) || isStmtcontinue(stmt)) {
+            const loop = this.loops[this.loops.length - 1];
+            if (!loop) {
+                throw new CompileError(`'${isStmtbreak(stmt) ? 'break' : 'continue'}' 语句只能在循环中使用。`);
+            }
+            this.branch(isStmtbreak(stmt) ? loop.breakLabel : loop.continueLabel);
+        } else if (isStmtreturn(stmt)) {
+            const returnType = this.currentFunction!.functype;
+            if (returnType === 'void') {
+                if (stmt.tobereturn) {
+                    this.generateExp(stmt.tobereturn);
+                }
+                this.terminate('ret void');
+            } else {
+                const value = stmt.tobereturn
+                    ? this.convert(this.generateExp(stmt.tobereturn), returnType)
+                    : { type: llvmType(returnType) as LlvmType, repr: scalarConstant(returnType, 0) };
+                this.terminate(`ret ${value.type} ${value.repr}`);
+            }
+        } else {
+            this.generateBlockItems(stmt.blockItems);
+        }
+    }
+
+    /** if/while 的语句体单独成一个作用域 */
+    private generateNested(stmt: Stmt): void {
+        this.scopes.push();
+        this.generateStmt(stmt);
+        this.scopes.pop();
+    }
+
+    /** 条件跳转，|| 和 && 按短路求值展开 */
+    private generateCond(cond: Cond, trueLabel: string, falseLabel: string): void {
+        if (isBinExpr(cond) && cond.left && (cond.operator === '||' || cond.operator === '&&')) {
+            const rightLabel = this.label(cond.operator === '||' ? 'lor.rhs' : 'land.rhs');
+            if (cond.operator === '||') {
+                this.generateCond(cond.left, trueLabel, rightLabel);
+            } else {
+                this.generateCond(cond.left, rightLabel, falseLabel);
+            }
+            this.startBlock(rightLabel);
+            this.generateCond(cond.right, trueLabel, falseLabel);
+            return;
+        }
+        if (isBinExpr(cond) && !cond.left && cond.operator === '!') {
+            this.generateCond(cond.right, falseLabel, trueLabel);
+            return;
+        }
+        const value = this.toBool(this.generateExp(cond as Exp));
+        this.terminate(`br i1 ${value.repr}, label %${trueLabel}, label %${falseLabel}`);
+    }
+
+    // ---------------------------------------------------------------- 表达式
+
+    private generateExp(exp: Exp): LlvmValue {
+        switch (exp.$type) {
+            case 'NumberLiteral': {
+                const constant = parseNumber(exp.value);
+                return { type: constant.type === 'int' ? 'i32' : 'float', repr: scalarConstant(constant.type, constant.value) };
+            }
+            case 'VariableLVal':
+            case 'ConstantLVal':
+                return this.generateLValValue(exp);
+            case 'FunctionCall':
+            case 'FuncRParams':
+                return this.generateCall(exp.funcname.$refText, isFuncRParams(exp) ? exp.funcRparams : [], exp);
+            case 'BinExpr':
+                if (!exp.left) {
+                    return this.generateUnary(exp.operator, exp.right);
+                }
+                if (exp.operator === '&&' || exp.operator === '||') {
+                    return this.generateLogicalValue(exp);
+                }
+                return this.generateBinary(exp.operator, this.generateExp(exp.left), this.generateExp(exp.right));
+        }
+    }
+
+    private generateLValValue(lval: VariableLVal | ConstantLVal): LlvmValue {
+        const symbol = this.lookup(lval.value.$refText);
+        // 常量在下标也是常量时直接折叠
+        if (symbol.constValues && (symbol.dims.length === 0 || lval.index.length === symbol.dims.length)) {
+            try {
+                const constant = this.evaluate(lval);
+                return { type: symbol.type === 'int' ? 'i32' : 'float', repr: scalarConstant(symbol.type, constant.value) };
+            } catch (error) {
+                if (!(error instanceof CompileError) || symbol.dims.length === 0) {
+                    throw error;
+                }
+            }
+        }
+        const { address } = this.lvalAddress(lval);
+        if (lval.index.length < symbol.dims.length) {
+            // 部分下标得到子数组的地址，用于传参
+            return { type: 'ptr', repr: address };
+        }
+        const result = this.temp();
+        const type = llvmType(symbol.type) as LlvmType;
+        this.emit(`${result} = load ${type}, ptr ${address}`);
+        return { type, repr: result };
+    }
+
+    /** 计算左值的地址 */
+    private lvalAddress(lval: VariableLVal | ConstantLVal): { address: string, symbol: LlvmVariable } {
+        const symbol = this.lookup(lval.value.$refText);
+        if (!symbol.address) {
+            throw new CompileError(`不能给常量 '${symbol.name}' 赋值。`);
+        }
+        if (lval.index.length === 0) {
+            return { address: symbol.address, symbol };
+        }
+        if (lval.index.length > symbol.dims.length) {
+            throw new CompileError(`'${symbol.name}' 的下标个数超过了它的维数。`);
+        }
+        const indices = lval.index.map(index => {
+            const value = this.convert(this.generateExp(index), 'int');
+            return `i32 ${value.repr}`;
+        });
+        const result = this.temp();
+        if (symbol.isParam) {
+            // 数组形参是指向第一维元素的指针
+            const elementType = arrayType(symbol.type, symbol.dims.slice(1));
+            this.emit(`${result} = getelementptr inbounds ${elementType}, ptr ${symbol.address}, ${indices.join(', ')}`);
+        } else {
+            this.emit(`${result} = getelementptr inbounds ${arrayType(symbol.type, symbol.dims)}, ptr ${symbol.address}, i32 0, ${indices.join(', ')}`);
+        }
+        return { address: result, symbol };
+    }
+
+    private generateCall(name: string, args: Exp[], node: Exp): LlvmValue {
+        const func = this.functions.get(name);
+        if (!func) {
+            throw new CompileError(`调用了未定义的函数 '${name}'。`);
+        }
+        if (args.length !== func.params.length) {
+            throw new CompileError(`函数 '${name}' 需要 ${func.params.length} 个参数，实际传递了 ${args.length} 个。`);
+        }
+        if (SYLIB_FUNCTIONS[name] === func) {
+            this.usedRuntime.add(name);
+        }
+        const argValues = args.map((arg, i) => {
+            const param = func.params[i];
+            const value = this.generateExp(arg);
+            if (param.rank > 0) {
+                if (value.type !== 'ptr') {
+                    throw new CompileError(`函数 '${name}' 的第 ${i + 1} 个参数需要数组。`);
+                }
+                return `ptr ${value.repr}`;
+            }
+            const converted = this.convert(value, param.type);
+            return `${converted.type} ${converted.repr}`;
+        });
+        if (func.passLineNumber) {
+            argValues.unshift(`i32 ${(node.$cstNode?.range.start.line ?? 0) + 1}`);
+        }
+        const call = `call ${llvmType(func.returnType)} @${func.symbol}(${argValues.join(', ')})`;
+        if (func.returnType === 'void') {
+            this.emit(call);
+            return { type: 'i32', repr: '0' };
+        }
+        const result = this.temp();
+        this.emit(`${result} = ${call}`);
+        return { type: llvmType(func.returnType) as LlvmType, repr: result };
+    }
+
+    private generateUnary(operator: string, operand: Exp): LlvmValue {
+        const value = this.generateExp(operand);
+        if (operator === '!') {
+            const bool = this.toBool(value);
+            const result = this.temp();
+            this.emit(`${result} = xor i1 ${bool.repr}, true`);
+            return { type: 'i1', repr: result };
+        }
+        if (operator === '-') {
+            const result = this.temp();
+            if (value.type === 'float') {
+                this.emit(`${result} = fneg float ${value.repr}`);
+                return { type: 'float', repr: result };
+            }
+            const int = this.convert(value, 'int');
+            this.emit(`${result} = sub i32 0, ${int.repr}`);
+            return { type: 'i32', repr: result };
+        }
+        return value.type === 'i1' ? this.convert(value, 'int') : value;
+    }
+
+    private generateBinary(operator: string, left: LlvmValue, right: LlvmValue): LlvmValue {
+        const type: ScalarType = left.type === 'float' || right.type === 'float' ? 'float' : 'int';
+        const l = this.convert(left, type);
+        const r = this.convert(right, type);
+        const result = this.temp();
+        const comparisons: Record<string, [string, string]> = {
+            '<': ['icmp slt', 'fcmp olt'],
+            '>': ['icmp sgt', 'fcmp ogt'],
+            '<=': ['icmp sle', 'fcmp ole'],
+            '>=': ['icmp sge', 'fcmp oge'],
+            '==': ['icmp eq', 'fcmp oeq'],
+            '!=': ['icmp ne', 'fcmp une'],
+        };
+        if (operator in comparisons) {
+            const instruction = comparisons[operator][type === 'int' ? 0 : 1];
+            this.emit(`${result} = ${instruction} ${l.type} ${l.repr}, ${r.repr}`);
+            return { type: 'i1', repr: result };
+        }
+        const arithmetic: Record<string, [string, string]> = {
+            '+': ['add', 'fadd'],
+            '-': ['sub', 'fsub'],
+            '*': ['mul', 'fmul'],
+            '/': ['sdiv', 'fdiv'],
+            '%': ['srem', 'frem'],
+        };
+        const instruction = arithmetic[operator][type === 'int' ? 0 : 1];
+        this.emit(`${result} = ${instruction} ${l.type} ${l.repr}, ${r.repr}`);
+        return { type: l.type, repr: result };
+    }
+
+    /** 逻辑运算作为值使用时，借助条件跳转和 phi 得到 0 或 1 */
+    private generateLogicalValue(cond: Cond): LlvmValue {
+        const trueLabel = this.label('logic.true');
+        const falseLabel = this.label('logic.false');
+        const endLabel = this.label('logic.end');
+        this.generateCond(cond, trueLabel, falseLabel);
+        this.startBlock(trueLabel);
+        this.branch(endLabel);
+        this.startBlock(falseLabel);
+        this.branch(endLabel);
+        this.startBlock(endLabel);
+        const result = this.temp();
+        this.emit(`${result} = phi i1 [ true, %${trueLabel} ], [ false, %${falseLabel} ]`);
+        return { type: 'i1', repr: result };
+    }
+
+    // ---------------------------------------------------------------- 类型转换
+
+    private convert(value: LlvmValue, type: ScalarType): LlvmValue {
+        const target: LlvmType = type === 'int' ? 'i32' : 'float';
+        if (value.type === target) {
+            return value;
+        }
+        if (value.type === 'ptr') {
+            throw new CompileError('数组不能用作数值。');
+        }
+        if (value.type === 'i32' && /^-?\d+$/.test(value.repr)) {
+            // 整数常量直接转换
+            return { type: 'float', repr: floatConstant(Number(value.repr)) };
+        }
+        let current = value;
+        if (current.type === 'i1') {
+            const extended = this.temp();
+            this.emit(`${extended} = zext i1 ${current.repr} to i32`);
+            current = { type: 'i32', repr: extended };
+            if (target === 'i32') {
+                return current;
+            }
+        }
+        const result = this.temp();
+        this.emit(target === 'float'
+            ? `${result} = sitofp i32 ${current.repr} to float`
+            : `${result} = fptosi float ${current.repr} to i32`);
+        return { type: target, repr: result };
+    }
+
+    private toBool(value: LlvmValue): LlvmValue {
+        if (value.type === 'i1') {
+            return value;
+        }
+        if (value.type === 'ptr') {
+            throw new CompileError('数组不能用作条件。');
+        }
+        const result = this.temp();
+        this.emit(value.type === 'float'
+            ? `${result} = fcmp une float ${value.repr}, ${floatConstant(0)}`
+            : `${result} = icmp ne i32 ${value.repr}, 0`);
+        return { type: 'i1', repr: result };
+    }
+
+    // ---------------------------------------------------------------- 指令输出
+
+    private lookup(name: string): LlvmVariable {
+        const symbol = this.scopes.lookup(name);
+        if (!symbol) {
+            throw new CompileError(`使用了未定义的变量 '${name}'。`);
+        }
+        return symbol;
+    }
+
+    private temp(): string {
+        return `%.${this.tempCounter++}`;
+    }
+
+    private label(hint: string): string {
+        return `${hint}.${this.labelCounter++}`;
+    }
+
+    private uniqueLocal(name: string): string {
+        let unique = name;
+        for (let i = 1; this.localNames.has(unique); i++) {
+            unique = `${name}.${i}`;
+        }
+        this.localNames.add(unique);
+        return unique;
+    }
+
+    private emit(line: string): void {
+        if (this.terminated) {
+            // return/break 之后的代码不可达，放进一个新的基本块
+            this.body.push(`${this.label('after.jump')}:`);
+            this.terminated = false;
+        }
+        this.body.push(`  ${line}`);
+    }
+
+    private terminate(line: string): void {
+        this.emit(line);
+        this.terminated = true;
+    }
+
+    private branch(label: string): void {
+        if (!this.terminated) {
+            this.terminate(`br label %${label}`);
+        }
+    }
+
+    private startBlock(label: string): void {
+        this.branch(label);
+        this.body.push(`${label}:`);
+        this.terminated = false;
+    }
+}
@@ -0,0 +1,24 @@
+import type { IrFunction } from '../ir/ir.js';
+import { colorGraph } from './graph-coloring.js';
+import { linearScan } from './linear-scan.js';
+import type { Allocation, TargetRegisters } from './registers.js';
+
+/**
+ * 与目标无关的寄存器分配：把退出 SSA 之后的临时值（虚拟寄存器）分配到目标提供的物理寄存器，
+ * 放不下的溢出到栈槽。目标另外保留几个不参与分配的临时寄存器，用来读写溢出的值，
+ * 所以溢出之后不需要改写代码重新分配。
+ */
+
+export type RegisterAllocator = 'linear' | 'graph';
+
+export const REGISTER_ALLOCATORS: readonly RegisterAllocator[] = ['linear', 'graph'];
+
+/**
+ * 为函数中的临时值分配位置。ignore 中的临时值不分配（例如 alloca 的结果，目标在使用处重新计算地址）。
+ * 跨越调用仍然活跃的临时值只分配被调用者保存的寄存器。
+ */
+export function allocateRegisters(func: IrFunction, registers: TargetRegisters, allocator: RegisterAllocator,
+    ignore: ReadonlySet<string> = new Set()): Allocation {
+    return allocator === 'graph' ? colorGraph(func, registers, ignore) : linearScan(func, registers, ignore);
+}
+
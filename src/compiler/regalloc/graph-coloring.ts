@@ -0,0 +1,149 @@
+import type { IrFunction } from '../ir/ir.js';
+import { InterferenceGraph, type Move } from './interference.js';
+import { analyzeLiveness } from './liveness.js';
+import { usedCalleeSaved, type Allocation, type Location, type RegisterClass, type RegisterSet, type TargetRegisters } from './registers.js';
+
+/**
+ * Chaitin-Briggs 图着色分配：
+ * 1. 按活跃变量建冲突图；
+ * 2. 保守合并（Briggs 准则）：copy 两端不冲突，并且合并后度数不小于 K 的邻居少于 K 个时合并为一个节点；
+ * 3. 简化：反复移走度数小于 K 的节点压栈，没有这样的节点时按溢出代价 / 度数选最小的节点乐观地压栈；
+ * 4. 选择：按出栈顺序着色，邻居占满所有颜色的节点真正溢出到栈槽。
+ * 跨越调用的节点只能用被调用者保存的寄存器，它的 K 就是这些寄存器的个数。
+ */
+export function colorGraph(func: IrFunction, registers: TargetRegisters, ignore: ReadonlySet<string>): Allocation {
+    const graph = new InterferenceGraph(func, analyzeLiveness(func), ignore);
+    const locations = new Map<string, Location>();
+    let spillSlots = 0;
+    for (const registerClass of ['int', 'float'] as const) {
+        const coloring = new GraphColoring(graph, registerClass, registers[registerClass]);
+        const slots = new Map<string, number>();
+        for (const [name, nodeClass] of graph.nodes) {
+            if (nodeClass !== registerClass) {
+                continue;
+            }
+            const node = coloring.find(name);
+            const register = coloring.colors.get(node);
+            if (register !== undefined) {
+                locations.set(name, { register });
+            } else {
+                if (!slots.has(node)) {
+                    slots.set(node, spillSlots++);
+                }
+                locations.set(name, { spillSlot: slots.get(node)! });
+            }
+        }
+    }
+    return { locations, spillSlots, usedCalleeSaved: usedCalleeSaved(locations, registers) };
+}
+
+/** 一个寄存器类的着色过程，合并后的节点用并查集的代表元表示 */
+class GraphColoring {
+    /** 着色结果，没有颜色的代表元溢出 */
+    readonly colors = new Map<string, string>();
+    private readonly alias = new Map<string, string>();
+    private readonly adjacent = new Map<string, Set<string>>();
+    private readonly crossesCall = new Set<string>();
+    private readonly cost = new Map<string, number>();
+
+    constructor(graph: InterferenceGraph, registerClass: RegisterClass, private readonly registers: RegisterSet) {
+        for (const [name, nodeClass] of graph.nodes) {
+            if (nodeClass === registerClass) {
+                this.adjacent.set(name, new Set(graph.neighbors(name)));
+                this.cost.set(name, graph.spillCost.get(name)!);
+                if (graph.crossesCall.has(name)) {
+                    this.crossesCall.add(name);
+                }
+            }
+        }
+        this.coalesce(graph.moves.filter(move => this.adjacent.has(move.dest)));
+        this.select(this.simplify());
+    }
+
+    find(name: string): string {
+        let node = name;
+        while (this.alias.has(node)) {
+            node = this.alias.get(node)!;
+        }
+        return node;
+    }
+
+    /** 节点可用的颜色，按优先顺序：不跨越调用的节点先用调用者保存的寄存器，免得在序言中保存 */
+    private palette(node: string): string[] {
+        return this.crossesCall.has(node) ? this.registers.calleeSaved : [...this.registers.callerSaved, ...this.registers.calleeSaved];
+    }
+
+    private coalesce(moves: Move[]): void {
+        let changed = true;
+        while (changed) {
+            changed = false;
+            for (const move of moves) {
+                const a = this.find(move.dest);
+                const b = this.find(move.source);
+                if (a === b || this.adjacent.get(a)!.has(b)) {
+                    continue;
+                }
+                const crossesCall = this.crossesCall.has(a) || this.crossesCall.has(b);
+                const k = crossesCall ? this.registers.calleeSaved.length : this.palette(a).length;
+                const neighbors = new Set([...this.adjacent.get(a)!, ...this.adjacent.get(b)!]);
+                const significant = [...neighbors].filter(neighbor => this.adjacent.get(neighbor)!.size >= this.palette(neighbor).length);
+                if (significant.length >= k) {
+                    continue;
+                }
+                // 把 b 并入 a
+                this.alias.set(b, a);
+                for (const neighbor of this.adjacent.get(b)!) {
+                    this.adjacent.get(neighbor)!.delete(b);
+                    this.adjacent.get(neighbor)!.add(a);
+                    this.adjacent.get(a)!.add(neighbor);
+                }
+                this.adjacent.delete(b);
+                this.cost.set(a, this.cost.get(a)! + this.cost.get(b)!);
+                if (crossesCall) {
+                    this.crossesCall.add(a);
+                }
+                changed = true;
+            }
+        }
+    }
+
+    /** 返回着色的顺序（压栈顺序的逆序） */
+    private simplify(): string[] {
+        const degree = new Map([...this.adjacent].map(([node, neighbors]) => [node, neighbors.size]));
+        const remaining = new Set(this.adjacent.keys());
+        const low = [...remaining].filter(node => degree.get(node)! < this.palette(node).length);
+        const stack: string[] = [];
+        while (remaining.size > 0) {
+            let node = low.pop();
+            if (node !== undefined && !remaining.has(node)) {
+                continue;
+            }
+            if (node === undefined) {
+                // 没有度数小于 K 的节点：选代价最小的作为溢出候选，着色时仍可能分到颜色
+                node = [...remaining].reduce((best, candidate) =>
+                    this.cost.get(candidate)! / degree.get(candidate)! < this.cost.get(best)! / degree.get(best)! ? candidate : best);
+            }
+            remaining.delete(node);
+            stack.push(node);
+            for (const neighbor of this.adjacent.get(node)!) {
+                if (remaining.has(neighbor)) {
+                    degree.set(neighbor, degree.get(neighbor)! - 1);
+                    if (degree.get(neighbor) === this.palette(neighbor).length - 1) {
+                        low.push(neighbor);
+                    }
+                }
+            }
+        }
+        return stack.reverse();
+    }
+
+    private select(order: string[]): void {
+        for (const node of order) {
+            const taken = new Set([...this.adjacent.get(node)!].map(neighbor => this.colors.get(neighbor)));
+            const color = this.palette(node).find(register => !taken.has(register));
+            if (color !== undefined) {
+                this.colors.set(node, color);
+            }
+        }
+    }
+}
@@ -0,0 +1,85 @@
+import type { IrFunction, IrType } from '../ir/ir.js';
+import { LoopInfo } from '../ir/loops.js';
+import { registerClass, type RegisterClass } from './registers.js';
+import { definedTemp, usedTemps, walkBackward, type Liveness } from './liveness.js';
+
+/** 临时值之间的复制，两端分到同一个寄存器时复制可以删除 */
+export interface Move {
+    dest: string;
+    source: string;
+}
+
+/**
+ * 冲突图：节点是参与分配的临时值，同时活跃（一个在另一个定值处活跃）的两个同类临时值之间有边。
+ * copy 的目标和源不因为这次复制而冲突，这样它们才有机会合并。
+ * 只用于退出 SSA 之后的函数（不含 phi）。
+ */
+export class InterferenceGraph {
+    /** 参与分配的临时值和它的寄存器类 */
+    readonly nodes = new Map<string, RegisterClass>();
+    readonly moves: Move[] = [];
+    /** 在某个调用之后仍然活跃的临时值，调用会破坏调用者保存的寄存器 */
+    readonly crossesCall = new Set<string>();
+    /** 溢出代价：定值和使用的次数，每层循环乘以 10 */
+    readonly spillCost = new Map<string, number>();
+    private readonly edges = new Map<string, Set<string>>();
+
+    constructor(func: IrFunction, liveness: Liveness, ignore: ReadonlySet<string>) {
+        const addNode = (name: string, type: IrType) => {
+            if (!ignore.has(name) && !this.nodes.has(name)) {
+                this.nodes.set(name, registerClass(type));
+                this.edges.set(name, new Set());
+                this.spillCost.set(name, 0);
+            }
+        };
+        func.params.forEach(param => addNode(param.name, param.type));
+        for (const block of func.blocks) {
+            for (const instruction of [...block.instructions, block.terminator]) {
+                const def = definedTemp(instruction);
+                [...(def ? [def] : []), ...usedTemps(instruction)].forEach(value => addNode(value.name, value.type));
+            }
+        }
+
+        const loops = new LoopInfo(func);
+        for (const block of func.blocks) {
+            const weight = 10 ** loops.depth(block.label);
+            walkBackward(block, liveness.liveOut.get(block.label)!, (instruction, liveAfter) => {
+                const def = definedTemp(instruction);
+                for (const value of [...(def ? [def] : []), ...usedTemps(instruction)]) {
+                    if (this.nodes.has(value.name)) {
+                        this.spillCost.set(value.name, this.spillCost.get(value.name)! + weight);
+                    }
+                }
+                if (instruction.op === 'call') {
+                    liveAfter.forEach(name => name !== def?.name && this.nodes.has(name) && this.crossesCall.add(name));
+                }
+                if (!def || !this.nodes.has(def.name)) {
+                    return;
+                }
+                const source = instruction.op === 'copy' && instruction.value.kind === 'temp' ? instruction.value.name : undefined;
+                if (source !== undefined && this.nodes.has(source)) {
+                    this.moves.push({ dest: def.name, source });
+                }
+                liveAfter.forEach(name => name !== source && this.addEdge(def.name, name));
+            });
+        }
+        // 参数在入口处同时定值
+        const entry = [...new Set([...func.params.map(param => param.name), ...liveness.liveIn.get(func.blocks[0].label)!])];
+        entry.forEach((a, i) => entry.slice(i + 1).forEach(b => this.addEdge(a, b)));
+    }
+
+    interferes(a: string, b: string): boolean {
+        return this.edges.get(a)?.has(b) ?? false;
+    }
+
+    neighbors(name: string): ReadonlySet<string> {
+        return this.edges.get(name)!;
+    }
+
+    private addEdge(a: string, b: string): void {
+        if (a !== b && this.nodes.has(a) && this.nodes.has(b) && this.nodes.get(a) === this.nodes.get(b)) {
+            this.edges.get(a)!.add(b);
+            this.edges.get(b)!.add(a);
+        }
+    }
+}
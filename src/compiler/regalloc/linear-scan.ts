@@ -0,0 +1,109 @@
+import type { IrFunction, IrType } from '../ir/ir.js';
+import { analyzeLiveness, definedTemp, usedTemps } from './liveness.js';
+import { registerClass, usedCalleeSaved, type Allocation, type Location, type RegisterClass, type TargetRegisters } from './registers.js';
+
+/** 临时值的活跃区间：按块的排列顺序给指令编号后，从第一次活跃到最后一次活跃的范围 */
+export interface LiveInterval {
+    name: string;
+    registerClass: RegisterClass;
+    start: number;
+    end: number;
+    /** 区间内有调用 */
+    crossesCall: boolean;
+}
+
+/**
+ * 按块的排列顺序编号求活跃区间。指令从 2 开始每条占两个位置，在前一个位置读操作数，后一个位置写结果；
+ * 参数在位置 0 和 1 之间定值。块入口活跃的临时值从块的第一个位置开始，出口活跃的延伸到块的最后一个位置。
+ */
+export function liveIntervals(func: IrFunction, ignore: ReadonlySet<string>): LiveInterval[] {
+    const liveness = analyzeLiveness(func);
+    const types = new Map<string, IrType>(func.params.map(param => [param.name, param.type]));
+    for (const block of func.blocks) {
+        for (const instruction of [...block.instructions, block.terminator]) {
+            const def = definedTemp(instruction);
+            [...usedTemps(instruction), ...(def ? [def] : [])].forEach(value => types.set(value.name, value.type));
+        }
+    }
+    const intervals = new Map<string, LiveInterval>();
+    const extend = (name: string, position: number) => {
+        if (ignore.has(name)) {
+            return;
+        }
+        const interval = intervals.get(name);
+        if (interval) {
+            interval.start = Math.min(interval.start, position);
+            interval.end = Math.max(interval.end, position);
+        } else {
+            intervals.set(name, { name, registerClass: registerClass(types.get(name)!), start: position, end: position, crossesCall: false });
+        }
+    };
+    // 同时定值的参数不能共用寄存器，即使有的参数没有用到
+    func.params.forEach(param => {
+        extend(param.name, 0);
+        extend(param.name, 1);
+    });
+
+    const calls: number[] = [];
+    let position = 2;
+    for (const block of func.blocks) {
+        const first = position;
+        for (const instruction of [...block.instructions, block.terminator]) {
+            const def = definedTemp(instruction);
+            usedTemps(instruction).forEach(value => extend(value.name, position));
+            if (def) {
+                extend(def.name, position + 1);
+            }
+            if (instruction.op === 'call') {
+                calls.push(position);
+            }
+            position += 2;
+        }
+        const last = position - 1;
+        liveness.liveIn.get(block.label)!.forEach(name => extend(name, first));
+        liveness.liveOut.get(block.label)!.forEach(name => extend(name, last));
+    }
+    for (const interval of intervals.values()) {
+        interval.crossesCall = calls.some(call => interval.start < call && call < interval.end);
+    }
+    return [...intervals.values()].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Poletto-Sarkar 线性扫描：按区间起点扫描，区间结束就释放寄存器。
+ * 没有空闲寄存器时，在活跃区间（包括当前区间）中溢出结束得最晚的一个。
+ */
+export function linearScan(func: IrFunction, registers: TargetRegisters, ignore: ReadonlySet<string>): Allocation {
+    const locations = new Map<string, Location>();
+    const assigned = new Map<string, string>();
+    let spillSlots = 0;
+    const spill = (interval: LiveInterval) => {
+        assigned.delete(interval.name);
+        locations.set(interval.name, { spillSlot: spillSlots++ });
+    };
+    // 按结束位置排序的活跃区间
+    let active: LiveInterval[] = [];
+    for (const interval of liveIntervals(func, ignore)) {
+        active = active.filter(other => other.end >= interval.start);
+        const set = registers[interval.registerClass];
+        const allowed = interval.crossesCall ? set.calleeSaved : [...set.callerSaved, ...set.calleeSaved];
+        const busy = new Set(active.map(other => assigned.get(other.name)));
+        const free = allowed.find(register => !busy.has(register));
+        if (free !== undefined) {
+            assigned.set(interval.name, free);
+        } else {
+            const victim = active.filter(other => allowed.includes(assigned.get(other.name)!)).pop();
+            if (victim === undefined || victim.end <= interval.end) {
+                spill(interval);
+                continue;
+            }
+            assigned.set(interval.name, assigned.get(victim.name)!);
+            spill(victim);
+            active.splice(active.indexOf(victim), 1);
+        }
+        const index = active.findIndex(other => other.end > interval.end);
+        active.splice(index < 0 ? active.length : index, 0, interval);
+    }
+    assigned.forEach((register, name) => locations.set(name, { register }));
+    return { locations, spillSlots, usedCalleeSaved: usedCalleeSaved(locations, registers) };
+}
@@ -0,0 +1,96 @@
+import { blockMap, reversePostorder } from '../ir/cfg.js';
+import { instructionOperands, successors, type BasicBlock, type Instruction, type IrFunction, type PhiInstruction, type Temp, type Terminator } from '../ir/ir.js';
+
+/** 每个基本块入口和出口处活跃的临时值 */
+export interface Liveness {
+    liveIn: Map<string, Set<string>>;
+    liveOut: Map<string, Set<string>>;
+}
+
+/** 指令定值的临时值 */
+export function definedTemp(instruction: Instruction | Terminator): Temp | undefined {
+    return 'result' in instruction ? instruction.result : undefined;
+}
+
+/** 指令读取的临时值（phi 的操作数除外，它们在前驱的出口处读取） */
+export function usedTemps(instruction: Instruction | Terminator): Temp[] {
+    if (instruction.op === 'phi') {
+        return [];
+    }
+    return instructionOperands(instruction).filter((value): value is Temp => value.kind === 'temp');
+}
+
+/**
+ * 逆向数据流求活跃变量，迭代到不动点。phi 的定值算在所在块的入口，
+ * 它的操作数算在对应前驱的出口，所以 SSA 形式和退出 SSA 之后的函数都可以分析。
+ */
+export function analyzeLiveness(func: IrFunction): Liveness {
+    const blocks = blockMap(func);
+    const upwardExposed = new Map<string, Set<string>>();
+    const defined = new Map<string, Set<string>>();
+    for (const block of func.blocks) {
+        const uses = new Set<string>();
+        const defs = new Set<string>();
+        for (const instruction of [...block.instructions, block.terminator]) {
+            usedTemps(instruction).filter(value => !defs.has(value.name)).forEach(value => uses.add(value.name));
+            const def = definedTemp(instruction);
+            if (def) {
+                defs.add(def.name);
+            }
+        }
+        upwardExposed.set(block.label, uses);
+        defined.set(block.label, defs);
+    }
+
+    const liveIn = new Map(func.blocks.map(block => [block.label, new Set<string>()]));
+    const liveOut = new Map(func.blocks.map(block => [block.label, new Set<string>()]));
+    // 逆后序的反向接近后序，逆向问题按它迭代收敛得快
+    const order = [...reversePostorder(func)].reverse();
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const label of order) {
+            const block = blocks.get(label)!;
+            const out = new Set<string>();
+            for (const successor of successors(block.terminator)) {
+                const target = blocks.get(successor)!;
+                const phiDefs = new Set(phis(target).map(phi => phi.result.name));
+                liveIn.get(successor)!.forEach(name => phiDefs.has(name) || out.add(name));
+                for (const phi of phis(target)) {
+                    phi.incoming.forEach(({ value, block }) => block === label && value.kind === 'temp' && out.add(value.name));
+                }
+            }
+            const live = new Set(upwardExposed.get(label));
+            out.forEach(name => defined.get(label)!.has(name) || live.add(name));
+            phis(block).forEach(phi => live.add(phi.result.name));
+            if (out.size !== liveOut.get(label)!.size || live.size !== liveIn.get(label)!.size) {
+                liveOut.set(label, out);
+                liveIn.set(label, live);
+                changed = true;
+            }
+        }
+    }
+    return { liveIn, liveOut };
+}
+
+function phis(block: BasicBlock): PhiInstruction[] {
+    return block.instructions.filter((instruction): instruction is PhiInstruction => instruction.op === 'phi');
+}
+
+/**
+ * 从块的出口向前逐条访问指令，visit 收到指令和它之后活跃的临时值（visit 不能修改这个集合）。
+ * 返回块入口处活跃的临时值（不含 phi 的定值）。
+ */
+export function walkBackward(block: BasicBlock, liveOut: ReadonlySet<string>,
+    visit: (instruction: Instruction | Terminator, liveAfter: ReadonlySet<string>) => void): Set<string> {
+    const live = new Set(liveOut);
+    for (const instruction of [...block.instructions, block.terminator].reverse()) {
+        visit(instruction, live);
+        const def = definedTemp(instruction);
+        if (def) {
+            live.delete(def.name);
+        }
+        usedTemps(instruction).forEach(value => live.add(value.name));
+    }
+    return live;
+}
@@ -0,0 +1,35 @@
+import type { IrType } from '../ir/ir.js';
+
+/** 整数和地址放在通用寄存器中，浮点数放在浮点寄存器中 */
+export type RegisterClass = 'int' | 'float';
+
+/** 目标交给分配器使用的寄存器，按优先使用的顺序排列 */
+export interface RegisterSet {
+    /** 调用者保存的寄存器，调用函数后内容丢失 */
+    callerSaved: string[];
+    /** 被调用者保存的寄存器，使用了就要在序言中保存 */
+    calleeSaved: string[];
+}
+
+export type TargetRegisters = Record<RegisterClass, RegisterSet>;
+
+/** 临时值的位置：寄存器或者第几个溢出槽 */
+export type Location = { register: string } | { spillSlot: number };
+
+export interface Allocation {
+    locations: Map<string, Location>;
+    /** 溢出槽的个数 */
+    spillSlots: number;
+    /** 用到的被调用者保存的寄存器 */
+    usedCalleeSaved: string[];
+}
+
+export function registerClass(type: IrType): RegisterClass {
+    return type === 'f32' ? 'float' : 'int';
+}
+
+/** 按分配结果统计用到的被调用者保存的寄存器 */
+export function usedCalleeSaved(locations: Map<string, Location>, registers: TargetRegisters): string[] {
+    const used = new Set([...locations.values()].flatMap(location => 'register' in location ? [location.register] : []));
+    return [...registers.int.calleeSaved, ...registers.float.calleeSaved].filter(register => used.has(register));
+}
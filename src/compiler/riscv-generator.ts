@@ -0,0 +1,434 @@
+import type { Model } from '../language/generated/ast.js';
+import {
+    AssemblyGenerator, alignUp, type ArgumentLayout, type ArgumentLocation, type FrameInfo, type ValueKind
+} from './assembly-generator.js';
+import type { BinaryOperator, ComparePredicate, ScalarIrType, UnaryOperator } from './ir/ir.js';
+import { IrAssemblyGenerator, type AssemblyOptions, type MemoryType, type RegisterFrameInfo, type SavedRegister } from './ir-assembly-generator.js';
+import type { TargetRegisters } from './regalloc/registers.js';
+import type { ScalarType } from './runtime.js';
+import { CompileError, floatBits, type ConstValue } from './semantic.js';
+
+/**
+ * 把通过验证的 SysY 编译单元翻译为 RV64GC 的 GNU 汇编（LP64D 调用约定），
+ * 可以直接与 sylib 链接。指定寄存器分配算法时经过 IR 生成，否则按栈式求值直接从 AST 生成。
+ */
+export function generateRiscv(model: Model, sourceName = 'module', options: AssemblyOptions = {}): string {
+    if (options.regalloc) {
+        return new RiscvIrGenerator(options.regalloc, options.optLevel, options).generate(model, sourceName);
+    }
+    return new RiscvGenerator().generate(model, sourceName);
+}
+
+const ARGUMENT_REGISTERS = 8;
+/** s0 以下保存 ra 和旧的 s0 */
+const SAVED_REGISTERS_SIZE = 16;
+
+/**
+ * 参与分配的寄存器。a0-a7、fa0-fa7 用于传参，t0-t2、ft0-ft2 是临时寄存器，
+ * t6 用于装入超出范围的偏移，s0 是帧指针，都不参与分配。
+ */
+const ALLOCATABLE_REGISTERS: TargetRegisters = {
+    int: {
+        callerSaved: ['t3', 't4', 't5'],
+        calleeSaved: ['s1', 's2', 's3', 's4', 's5', 's6', 's7', 's8', 's9', 's10', 's11'],
+    },
+    float: {
+        callerSaved: ['ft3', 'ft4', 'ft5', 'ft6', 'ft7', 'ft8', 'ft9', 'ft10', 'ft11'],
+        calleeSaved: ['fs0', 'fs1', 'fs2', 'fs3', 'fs4', 'fs5', 'fs6', 'fs7', 'fs8', 'fs9', 'fs10', 'fs11'],
+    },
+};
+
+function fitsImmediate(value: number): boolean {
+    return value >= -2048 && value < 2048;
+}
+
+/**
+ * 按 LP64D 约定分配实参位置：整数和地址用 a0-a7，浮点用 fa0-fa7，
+ * 浮点寄存器用完后借用剩余的整数寄存器，都用完后按顺序放在栈上，每个占 8 字节。
+ */
+function argumentLayout(kinds: ValueKind[]): ArgumentLayout {
+    let intCount = 0;
+    let floatCount = 0;
+    let stackSize = 0;
+    const locations = kinds.map((kind): ArgumentLocation => {
+        if (kind === 'float' && floatCount < ARGUMENT_REGISTERS) {
+            return { register: `fa${floatCount++}` };
+        }
+        if (intCount < ARGUMENT_REGISTERS) {
+            return { register: `a${intCount++}` };
+        }
+        const location = { stackOffset: stackSize };
+        stackSize += 8;
+        return location;
+    });
+    return { locations, stackSize };
+}
+
+/** 访存指令，偏移超出 12 位立即数时借助 t6 */
+function memoryLines(op: string, register: string, offset: number, base: string): string[] {
+    if (fitsImmediate(offset)) {
+        return [`${op} ${register}, ${offset}(${base})`];
+    }
+    return [`li t6, ${offset}`, `add t6, ${base}, t6`, `${op} ${register}, 0(t6)`];
+}
+
+function addImmediateLines(target: string, source: string, value: number): string[] {
+    return fitsImmediate(value) ? [`addi ${target}, ${source}, ${value}`] : [`li t6, ${value}`, `add ${target}, ${source}, t6`];
+}
+
+/**
+ * 加上序言和尾声：s0 以下保存 ra 和旧的 s0，s0 等于进入函数时的 sp；
+ * 用到的被调用者保存的寄存器保存在栈帧中给定的位置。
+ */
+function functionLines(name: string, body: string[], frame: FrameInfo, savedRegisters: SavedRegister[]): string[] {
+    const frameSize = alignUp(SAVED_REGISTERS_SIZE + frame.localSize + frame.outgoingSize, 16);
+    const lines = [
+        '\t.align\t1',
+        `\t.globl\t${name}`,
+        `\t.type\t${name}, @function`,
+        `${name}:`,
+        '\taddi sp, sp, -16',
+        '\tsd ra, 8(sp)',
+        '\tsd s0, 0(sp)',
+        '\taddi s0, sp, 16',
+    ];
+    const rest = frameSize - SAVED_REGISTERS_SIZE;
+    if (rest > 0) {
+        lines.push(...(fitsImmediate(-rest) ? [`\taddi sp, sp, -${rest}`] : [`\tli t0, ${rest}`, '\tsub sp, sp, t0']));
+    }
+    const saveLines = (load: boolean) => savedRegisters.flatMap(({ register, offset }) => {
+        const op = register.startsWith('f') ? load ? 'fld' : 'fsd' : load ? 'ld' : 'sd';
+        return memoryLines(op, register, offset, 's0').map(line => `\t${line}`);
+    });
+    lines.push(
+        ...saveLines(false),
+        ...body,
+        ...saveLines(true),
+        '\taddi sp, s0, -16',
+        '\tld ra, 8(sp)',
+        '\tld s0, 0(sp)',
+        '\taddi sp, sp, 16',
+        '\tret',
+        `\t.size\t${name}, .-${name}`,
+    );
+    return lines;
+}
+
+class RiscvGenerator extends AssemblyGenerator {
+    protected readonly pointerSize = 8;
+    protected readonly savedRegistersSize = SAVED_REGISTERS_SIZE;
+    protected readonly incomingArgumentsOffset = 0;
+    protected readonly registers = { accumulator: 't0', secondary: 't1', floatAccumulator: 'ft0', floatSecondary: 'ft1' };
+
+    protected fileHeader(sourceName: string): string[] {
+        return [`\t.file\t"${sourceName}"`, '\t.option nopic', '\t.text'];
+    }
+
+    protected symbolType(type: 'object' | 'function'): string {
+        return `@${type}`;
+    }
+
+    protected functionText(name: string, body: string[], frame: FrameInfo): string[] {
+        return functionLines(name, body, frame, []);
+    }
+
+    protected argumentLayout(kinds: ValueKind[]): ArgumentLayout {
+        return argumentLayout(kinds);
+    }
+
+    protected loadConstant(constant: ConstValue): void {
+        if (constant.type === 'int') {
+            this.emit(`li t0, ${constant.value}`);
+        } else {
+            this.emit(`li t0, ${floatBits(constant.value)}`);
+            this.emit('fmv.w.x ft0, t0');
+        }
+    }
+
+    protected loadSlot(kind: ValueKind, register: string, offset: number, base = 's0'): void {
+        const op = kind === 'ptr' ? 'ld' : kind === 'float' && register.startsWith('f') ? 'flw' : 'lw';
+        this.memory(op, register, offset, base);
+    }
+
+    protected storeSlot(kind: ValueKind, register: string, offset: number, base = 's0'): void {
+        const op = kind === 'ptr' ? 'sd' : kind === 'float' && register.startsWith('f') ? 'fsw' : 'sw';
+        this.memory(op, register, offset, base);
+    }
+
+    protected localAddress(register: string, offset: number): void {
+        this.addImmediate(register, 's0', offset);
+    }
+
+    protected globalAddress(label: string): void {
+        this.emit(`la t0, ${label}`);
+    }
+
+    protected indexAddress(stride: number): void {
+        if ((stride & (stride - 1)) === 0) {
+            this.emit(`slli t0, t0, ${Math.log2(stride)}`);
+        } else {
+            this.emit(`li t2, ${stride}`);
+            this.emit('mul t0, t0, t2');
+        }
+        this.emit('add t0, t1, t0');
+    }
+
+    protected loadIndirect(type: ScalarType): void {
+        this.emit(type === 'int' ? 'lw t0, 0(t0)' : 'flw ft0, 0(t0)');
+    }
+
+    protected storeIndirect(type: ScalarType): void {
+        this.emit(type === 'int' ? 'sw t1, 0(t0)' : 'fsw ft1, 0(t0)');
+    }
+
+    protected intBinary(operator: string): void {
+        switch (operator) {
+            case '+': this.emit('addw t0, t1, t0'); break;
+            case '-': this.emit('subw t0, t1, t0'); break;
+            case '*': this.emit('mulw t0, t1, t0'); break;
+            case '/': this.emit('divw t0, t1, t0'); break;
+            case '%': this.emit('remw t0, t1, t0'); break;
+            case '<': this.emit('slt t0, t1, t0'); break;
+            case '>': this.emit('slt t0, t0, t1'); break;
+            case '<=': this.emit('slt t0, t0, t1'); this.emit('xori t0, t0, 1'); break;
+            case '>=': this.emit('slt t0, t1, t0'); this.emit('xori t0, t0, 1'); break;
+            case '==': this.emit('sub t0, t1, t0'); this.emit('seqz t0, t0'); break;
+            case '!=': this.emit('sub t0, t1, t0'); this.emit('snez t0, t0'); break;
+            default: throw new CompileError(`未知运算符 '${operator}'。`);
+        }
+    }
+
+    protected floatBinary(operator: string): ValueKind {
+        switch (operator) {
+            case '+': this.emit('fadd.s ft0, ft1, ft0'); return 'float';
+            case '-': this.emit('fsub.s ft0, ft1, ft0'); return 'float';
+            case '*': this.emit('fmul.s ft0, ft1, ft0'); return 'float';
+            case '/': this.emit('fdiv.s ft0, ft1, ft0'); return 'float';
+            case '<': this.emit('flt.s t0, ft1, ft0'); return 'int';
+            case '>': this.emit('flt.s t0, ft0, ft1'); return 'int';
+            case '<=': this.emit('fle.s t0, ft1, ft0'); return 'int';
+            case '>=': this.emit('fle.s t0, ft0, ft1'); return 'int';
+            case '==': this.emit('feq.s t0, ft1, ft0'); return 'int';
+            case '!=': this.emit('feq.s t0, ft1, ft0'); this.emit('xori t0, t0, 1'); return 'int';
+        }
+        throw new CompileError(`浮点数不能进行 '${operator}' 运算。`);
+    }
+
+    protected negate(type: ScalarType): void {
+        this.emit(type === 'int' ? 'negw t0, t0' : 'fneg.s ft0, ft0');
+    }
+
+    protected logicalNot(type: ScalarType): void {
+        if (type === 'float') {
+            this.emit('fmv.w.x ft1, zero');
+            this.emit('feq.s t0, ft0, ft1');
+        } else {
+            this.emit('seqz t0, t0');
+        }
+    }
+
+    protected convertValue(from: ScalarType, to: ScalarType): void {
+        this.emit(to === 'float' ? 'fcvt.s.w ft0, t0' : 'fcvt.w.s t0, ft0, rtz');
+    }
+
+    protected convertSecondaryToFloat(): void {
+        this.emit('fcvt.s.w ft1, t1');
+    }
+
+    protected branch(type: ScalarType, trueLabel: string, falseLabel: string): void {
+        if (type === 'float') {
+            // 等于 0 时跳到假出口
+            this.emit('fmv.w.x ft1, zero');
+            this.emit('feq.s t0, ft0, ft1');
+            this.emit(`bnez t0, ${falseLabel}`);
+            this.emit(`j ${trueLabel}`);
+        } else {
+            this.emit(`bnez t0, ${trueLabel}`);
+            this.emit(`j ${falseLabel}`);
+        }
+    }
+
+    protected jump(label: string): void {
+        this.emit(`j ${label}`);
+    }
+
+    protected call(symbol: string, returnType: ScalarType | 'void'): void {
+        this.emit(`call ${symbol}`);
+        if (returnType === 'int') {
+            this.emit('mv t0, a0');
+        } else if (returnType === 'float') {
+            this.emit('fmv.s ft0, fa0');
+        }
+    }
+
+    protected setReturnValue(type: ScalarType, fromAccumulator: boolean): void {
+        if (type === 'int') {
+            this.emit(fromAccumulator ? 'mv a0, t0' : 'li a0, 0');
+        } else {
+            this.emit(fromAccumulator ? 'fmv.s fa0, ft0' : 'fmv.w.x fa0, zero');
+        }
+    }
+
+    protected clearMemory(offset: number, size: number): void {
+        this.addImmediate('a0', 's0', offset);
+        this.emit('li a1, 0');
+        this.emit(`li a2, ${size}`);
+        this.emit('call memset');
+    }
+
+    private memory(op: string, register: string, offset: number, base: string): void {
+        memoryLines(op, register, offset, base).forEach(line => this.emit(line));
+    }
+
+    private addImmediate(target: string, source: string, value: number): void {
+        addImmediateLines(target, source, value).forEach(line => this.emit(line));
+    }
+}
+
+class RiscvIrGenerator extends IrAssemblyGenerator {
+    protected readonly pointerSize = 8;
+    protected readonly savedRegistersSize = SAVED_REGISTERS_SIZE;
+    protected readonly incomingArgumentsOffset = 0;
+    protected readonly framePointer = 's0';
+    protected readonly stackPointer = 'sp';
+    protected readonly allocatable = ALLOCATABLE_REGISTERS;
+    protected readonly scratch = { int: ['t0', 't1', 't2'], float: ['ft0', 'ft1', 'ft2'] } as const;
+    protected readonly returnRegisters = { int: 'a0', float: 'fa0' };
+
+    protected fileHeader(sourceName: string): string[] {
+        return [`\t.file\t"${sourceName}"`, '\t.option nopic', '\t.text'];
+    }
+
+    protected symbolType(type: 'object' | 'function'): string {
+        return `@${type}`;
+    }
+
+    protected functionText(name: string, body: string[], frame: RegisterFrameInfo): string[] {
+        return functionLines(name, body, frame, frame.savedRegisters);
+    }
+
+    protected argumentLayout(kinds: ValueKind[]): ArgumentLayout {
+        return argumentLayout(kinds);
+    }
+
+    protected isFloatRegister(register: string): boolean {
+        return register.startsWith('f');
+    }
+
+    protected loadImmediate(register: string, value: number): void {
+        this.emit(`li ${register}, ${value}`);
+    }
+
+    protected loadFloatImmediate(register: string, value: number): void {
+        if (value === 0) {
+            this.emit(`fmv.w.x ${register}, zero`);
+        } else {
+            this.emit(`li t6, ${value}`);
+            this.emit(`fmv.w.x ${register}, t6`);
+        }
+    }
+
+    protected move(dest: string, source: string): void {
+        const op = this.isFloatRegister(dest)
+            ? this.isFloatRegister(source) ? 'fmv.s' : 'fmv.w.x'
+            : this.isFloatRegister(source) ? 'fmv.x.w' : 'mv';
+        this.emit(`${op} ${dest}, ${source}`);
+    }
+
+    protected loadMemory(type: MemoryType, register: string, offset: number, base: string): void {
+        const op = type === 'ptr' ? 'ld' : type === 'f32' && this.isFloatRegister(register) ? 'flw' : 'lw';
+        this.memory(op, register, offset, base);
+    }
+
+    protected storeMemory(type: MemoryType, register: string, offset: number, base: string): void {
+        const op = type === 'ptr' ? 'sd' : type === 'f32' && this.isFloatRegister(register) ? 'fsw' : 'sw';
+        this.memory(op, register, offset, base);
+    }
+
+    protected globalAddress(register: string, label: string): void {
+        this.emit(`la ${register}, ${label}`);
+    }
+
+    protected addImmediate(dest: string, source: string, value: number): void {
+        addImmediateLines(dest, source, value).forEach(line => this.emit(line));
+    }
+
+    protected indexAddress(dest: string, base: string, index: string, stride: number): void {
+        if ((stride & (stride - 1)) === 0) {
+            this.emit(`slli t2, ${index}, ${Math.log2(stride)}`);
+        } else {
+            this.emit(`li t2, ${stride}`);
+            this.emit(`mul t2, ${index}, t2`);
+        }
+        this.emit(`add ${dest}, ${base}, t2`);
+    }
+
+    protected binary(operator: BinaryOperator, dest: string, left: string, right: string): void {
+        const op = {
+            add: 'addw', sub: 'subw', mul: 'mulw', sdiv: 'divw', srem: 'remw',
+            fadd: 'fadd.s', fsub: 'fsub.s', fmul: 'fmul.s', fdiv: 'fdiv.s',
+        }[operator];
+        this.emit(`${op} ${dest}, ${left}, ${right}`);
+    }
+
+    protected unary(operator: UnaryOperator, dest: string, source: string): void {
+        switch (operator) {
+            case 'neg': this.emit(`negw ${dest}, ${source}`); return;
+            case 'fneg': this.emit(`fneg.s ${dest}, ${source}`); return;
+            case 'itof': this.emit(`fcvt.s.w ${dest}, ${source}`); return;
+            case 'ftoi': this.emit(`fcvt.w.s ${dest}, ${source}, rtz`); return;
+        }
+    }
+
+    protected compare(operandType: ScalarIrType, predicate: ComparePredicate, dest: string, left: string, right: string): void {
+        if (operandType === 'f32') {
+            switch (predicate) {
+                case 'lt': this.emit(`flt.s ${dest}, ${left}, ${right}`); return;
+                case 'gt': this.emit(`flt.s ${dest}, ${right}, ${left}`); return;
+                case 'le': this.emit(`fle.s ${dest}, ${left}, ${right}`); return;
+                case 'ge': this.emit(`fle.s ${dest}, ${right}, ${left}`); return;
+                case 'eq': this.emit(`feq.s ${dest}, ${left}, ${right}`); return;
+                case 'ne':
+                    this.emit(`feq.s ${dest}, ${left}, ${right}`);
+                    this.emit(`xori ${dest}, ${dest}, 1`);
+                    return;
+            }
+        }
+        switch (predicate) {
+            case 'lt': this.emit(`slt ${dest}, ${left}, ${right}`); return;
+            case 'gt': this.emit(`slt ${dest}, ${right}, ${left}`); return;
+            case 'le':
+                this.emit(`slt ${dest}, ${right}, ${left}`);
+                this.emit(`xori ${dest}, ${dest}, 1`);
+                return;
+            case 'ge':
+                this.emit(`slt ${dest}, ${left}, ${right}`);
+                this.emit(`xori ${dest}, ${dest}, 1`);
+                return;
+            case 'eq':
+                this.emit(`sub ${dest}, ${left}, ${right}`);
+                this.emit(`seqz ${dest}, ${dest}`);
+                return;
+            case 'ne':
+                this.emit(`sub ${dest}, ${left}, ${right}`);
+                this.emit(`snez ${dest}, ${dest}`);
+                return;
+        }
+    }
+
+    protected branchIf(register: string, whenZero: boolean, label: string): void {
+        this.emit(`${whenZero ? 'beqz' : 'bnez'} ${register}, ${label}`);
+    }
+
+    protected jump(label: string): void {
+        this.emit(`j ${label}`);
+    }
+
+    protected call(symbol: string): void {
+        this.emit(`call ${symbol}`);
+    }
+
+    private memory(op: string, register: string, offset: number, base: string): void {
+        memoryLines(op, register, offset, base).forEach(line => this.emit(line));
+    }
+}
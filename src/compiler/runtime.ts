@@ -0,0 +1,38 @@
+/**
+ * SysY 运行时库（sylib）的函数签名，各个后端共用
+ */
+
+export type ScalarType = 'int' | 'float';
+
+/** 形参：元素类型和数组维数（标量为 0） */
+export interface ParamSignature {
+    type: ScalarType;
+    rank: number;
+}
+
+export interface FunctionSignature {
+    returnType: ScalarType | 'void';
+    params: ParamSignature[];
+}
+
+export interface RuntimeFunction extends FunctionSignature {
+    /** 链接时的符号名。starttime/stoptime 在 sylib.h 中是宏，实际调用带行号参数的函数 */
+    symbol: string;
+    /** 是否在参数前追加调用处的行号 */
+    passLineNumber?: boolean;
+}
+
+export const SYLIB_FUNCTIONS: Record<string, RuntimeFunction> = {
+    getint: { symbol: 'getint', returnType: 'int', params: [] },
+    getch: { symbol: 'getch', returnType: 'int', params: [] },
+    getfloat: { symbol: 'getfloat', returnType: 'float', params: [] },
+    getarray: { symbol: 'getarray', returnType: 'int', params: [{ type: 'int', rank: 1 }] },
+    getfarray: { symbol: 'getfarray', returnType: 'int', params: [{ type: 'float', rank: 1 }] },
+    putint: { symbol: 'putint', returnType: 'void', params: [{ type: 'int', rank: 0 }] },
+    putch: { symbol: 'putch', returnType: 'void', params: [{ type: 'int', rank: 0 }] },
+    putfloat: { symbol: 'putfloat', returnType: 'void', params: [{ type: 'float', rank: 0 }] },
+    putarray: { symbol: 'putarray', returnType: 'void', params: [{ type: 'int', rank: 0 }, { type: 'int', rank: 1 }] },
+    putfarray: { symbol: 'putfarray', returnType: 'void', params: [{ type: 'int', rank: 0 }, { type: 'float', rank: 1 }] },
+    starttime: { symbol: '_sysy_starttime', returnType: 'void', params: [], passLineNumber: true },
+    stoptime: { symbol: '_sysy_stoptime', returnType: 'void', params: [], passLineNumber: true },
+};
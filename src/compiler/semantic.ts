@@ -0,0 +1,288 @@
+import type { ConstInitVal, ConstantLVal, Exp, InitVal, NumberLiteral, VariableLVal } from '../language/generated/ast.js';
+import { isBinExpr } from '../language/generated/ast.js';
+import type { ScalarType } from './runtime.js';
+
+/**
+ * 编译器前端公共部分：作用域、编译期常量求值和数组初值展开，
+ * 由各个后端在遍历 AST 时调用。
+ */
+
+/** 编译过程中发现的语义错误 */
+export class CompileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CompileError';
+    }
+}
+
+/** 编译期常量 */
+export interface ConstValue {
+    type: ScalarType;
+    value: number;
+}
+
+/** 变量、常量或形参 */
+export interface VariableSymbol {
+    name: string;
+    type: ScalarType;
+    /** 各维长度，标量为空数组；数组形参省略的第一维记为 0 */
+    dims: number[];
+    isConst: boolean;
+    isParam: boolean;
+    isGlobal: boolean;
+    /** 常量按行优先展开后的值 */
+    constValues?: number[];
+}
+
+/** 常量表达式中引用的常量，只用到类型、各维长度和展开后的值 */
+export type ConstSymbol = Pick<VariableSymbol, 'type' | 'dims' | 'constValues'>;
+
+/** 查找常量表达式中引用的名字，lval 是引用所在的节点 */
+export type ConstLookup = (name: string, lval: VariableLVal | ConstantLVal) => ConstSymbol | undefined;
+
+export type InitNode = InitVal | ConstInitVal;
+
+/**
+ * 块作用域栈，后声明的名字遮蔽外层同名名字
+ */
+export class Scopes<T> {
+    private readonly stack: Array<Map<string, T>> = [new Map()];
+
+    push(): void {
+        this.stack.push(new Map());
+    }
+
+    pop(): void {
+        this.stack.pop();
+    }
+
+    declare(name: string, value: T): void {
+        this.stack[this.stack.length - 1].set(name, value);
+    }
+
+    lookup(name: string): T | undefined {
+        for (let i = this.stack.length - 1; i >= 0; i--) {
+            const value = this.stack[i].get(name);
+            if (value !== undefined) {
+                return value;
+            }
+        }
+        return undefined;
+    }
+
+    get isGlobal(): boolean {
+        return this.stack.length === 1;
+    }
+}
+
+/**
+ * 解析数值字面量。整数按 32 位补码截断，浮点数舍入为单精度。
+ */
+export function parseNumber(text: string): ConstValue {
+    if (/^\d+\.\d+([eE][-+]?\d+)?$/.test(text)) {
+        return { type: 'float', value: Math.fround(parseFloat(text)) };
+    }
+    return { type: 'int', value: parseIntegerLiteral(text) | 0 };
+}
+
+/**
+ * 整数字面量未截断的数值，超出 int 范围时用于报告溢出
+ */
+export function parseIntegerLiteral(text: string): number {
+    return /^0[oO]/.test(text) ? parseInt(text.slice(2), 8)
+        : /^0[xX]/.test(text) ? parseInt(text.slice(2), 16)
+        : parseInt(text.replace(/^0[dD]/, ''), 10);
+}
+
+/**
+ * 八进制字面量中第一个无效的数字（8 或 9），合法时返回 undefined
+ */
+export function invalidOctalDigit(text: string): string | undefined {
+    return /^0[oO]/.test(text) ? text.slice(2).match(/[89]/)?.[0] : undefined;
+}
+
+/**
+ * 字面量是否紧跟在一元负号之后，-2147483648 中的 2147483648 不算超出 int 范围
+ */
+export function isNegatedLiteral(literal: NumberLiteral): boolean {
+    const parent = literal.$container;
+    return isBinExpr(parent) && !parent.left && parent.operator === '-';
+}
+
+/** 按隐式类型转换规则把常量转换为目标类型 */
+export function convertConst(constant: ConstValue, type: ScalarType): number {
+    if (type === 'int') {
+        return constant.type === 'float' ? Math.trunc(constant.value) | 0 : constant.value;
+    }
+    return Math.fround(constant.value);
+}
+
+/**
+ * 计算常量表达式。lookup 用于查找表达式中引用的名字，只有常量可以参与计算。
+ * 编译器按作用域栈查找名字，语言服务沿着链接好的引用查找。
+ * @throws CompileError 表达式不是编译期常量时
+ */
+export function evaluateConstExp(exp: Exp, lookup: ConstLookup): ConstValue {
+    switch (exp.$type) {
+        case 'NumberLiteral':
+            return parseNumber(exp.value);
+        case 'VariableLVal':
+        case 'ConstantLVal': {
+            const name = exp.value.$refText;
+            const symbol = lookup(name, exp);
+            if (!symbol?.constValues) {
+                throw new CompileError(`'${name}' 不是常量，不能用于常量表达式。`);
+            }
+            if (exp.index.length !== symbol.dims.length) {
+                throw new CompileError(`常量数组 '${name}' 的下标个数与维数不符。`);
+            }
+            let offset = 0;
+            exp.index.forEach((index, i) => {
+                const value = convertConst(evaluateConstExp(index, lookup), 'int');
+                if (value < 0 || value >= symbol.dims[i]) {
+                    throw new CompileError(`常量数组 '${name}' 的下标 ${value} 越界。`);
+                }
+                offset = offset * symbol.dims[i] + value;
+            });
+            return { type: symbol.type, value: symbol.constValues[offset] };
+        }
+        case 'FunctionCall':
+        case 'FuncRParams':
+            throw new CompileError(`常量表达式中不能调用函数 '${exp.funcname.$refText}'。`);
+        case 'BinExpr': {
+            const right = evaluateConstExp(exp.right, lookup);
+            if (!exp.left) {
+                switch (exp.operator) {
+                    case '-':
+                        return right.type === 'int' ? { type: 'int', value: -right.value | 0 } : { type: 'float', value: -right.value };
+                    case '!':
+                        return { type: 'int', value: right.value === 0 ? 1 : 0 };
+                    default:
+                        return right;
+                }
+            }
+            const left = evaluateConstExp(exp.left, lookup);
+            return foldBinary(exp.operator, left, right);
+        }
+    }
+}
+
+/** 按 SysY 语义计算二元运算 */
+export function foldBinary(operator: string, left: ConstValue, right: ConstValue): ConstValue {
+    const type: ScalarType = left.type === 'float' || right.type === 'float' ? 'float' : 'int';
+    const l = convertConst(left, type);
+    const r = convertConst(right, type);
+    const bool = (value: boolean): ConstValue => ({ type: 'int', value: value ? 1 : 0 });
+    switch (operator) {
+        case '<': return bool(l < r);
+        case '>': return bool(l > r);
+        case '<=': return bool(l <= r);
+        case '>=': return bool(l >= r);
+        case '==': return bool(l === r);
+        case '!=': return bool(l !== r);
+        case '&&': return bool(l !== 0 && r !== 0);
+        case '||': return bool(l !== 0 || r !== 0);
+    }
+    if (type === 'float') {
+        switch (operator) {
+            case '+': return { type, value: Math.fround(l + r) };
+            case '-': return { type, value: Math.fround(l - r) };
+            case '*': return { type, value: Math.fround(l * r) };
+            case '/': return { type, value: Math.fround(l / r) };
+        }
+        throw new CompileError(`浮点数不能进行 '${operator}' 运算。`);
+    }
+    switch (operator) {
+        case '+': return { type, value: (l + r) | 0 };
+        case '-': return { type, value: (l - r) | 0 };
+        case '*': return { type, value: Math.imul(l, r) };
+        case '/':
+        case '%':
+            if (r === 0) {
+                throw new CompileError('常量表达式中出现除以零。');
+            }
+            return { type, value: (operator === '/' ? l / r : l % r) | 0 };
+    }
+    throw new CompileError(`未知运算符 '${operator}'。`);
+}
+
+/** 数组元素总数 */
+export function arraySize(dims: number[]): number {
+    return dims.reduce((a, b) => a * b, 1);
+}
+
+/** 初值的单个表达式和花括号中的各项，两者恰有一个非空 */
+export function initParts(init: InitNode): [Exp[], InitNode[]] {
+    return 'singleCInit' in init ? [init.singleCInit, init.manyCInit] : [init.singleInit, init.manyInit];
+}
+
+/** 标量的初值表达式，允许多余的花括号 */
+export function scalarInitializer(init: InitNode): Exp | undefined {
+    const [single, many] = initParts(init);
+    if (single.length > 0) {
+        return single[0];
+    }
+    return many.length > 0 ? scalarInitializer(many[0]) : undefined;
+}
+
+/** 展开数组初值时遇到的不规范初值，由编辑器的校验报告 */
+export interface InitializerListener {
+    /** 超出所在数组或子数组大小的一项初值，depth 为子数组从第几维开始 */
+    excess?(item: InitNode, depth: number, list: InitNode[]): void;
+    /** 没有对齐到任何子数组、按单个元素处理的花括号初值 */
+    bracedScalar?(item: InitNode, index: number): void;
+}
+
+/**
+ * 按 SysY 的花括号省略规则把数组初值展开成行优先的列表，
+ * 没有给出初值的元素为 undefined，多余的初值被忽略。
+ */
+export function flattenInitializer(init: InitNode, dims: number[], listener: InitializerListener = {}): Array<Exp | undefined> {
+    const sizes = dims.map((_, k) => arraySize(dims.slice(k)));
+    sizes.push(1);
+    const flat = new Array<Exp | undefined>(sizes[0]).fill(undefined);
+    let pos = 0;
+
+    const walk = (list: InitNode[], depth: number): void => {
+        const start = pos;
+        for (const [i, item] of list.entries()) {
+            if (pos >= start + sizes[depth]) {
+                listener.excess?.(item, depth, list);
+                break;
+            }
+            const [single, many] = initParts(item);
+            if (single.length > 0) {
+                flat[pos++] = single[0];
+                continue;
+            }
+            // 花括号初始化当前位置能对齐的最大子数组
+            let k = depth + 1;
+            while (k < dims.length && (pos - start) % sizes[k] !== 0) {
+                k++;
+            }
+            if (k < dims.length) {
+                walk(many, k);
+            } else {
+                listener.bracedScalar?.(item, i);
+                flat[pos++] = scalarInitializer(item);
+            }
+        }
+        pos = start + sizes[depth];
+    };
+
+    const [single, many] = initParts(init);
+    if (single.length > 0) {
+        // 用单个表达式初始化数组并不合法，这里按初始化第一个元素处理
+        flat[0] = single[0];
+    } else {
+        walk(many, 0);
+    }
+    return flat;
+}
+
+/** 单精度浮点数的 IEEE 754 位模式 */
+export function floatBits(value: number): number {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value);
+    return view.getInt32(0);
+}
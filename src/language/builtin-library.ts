@@ -0,0 +1,38 @@
+import { AstNode, AstUtils, URI } from "langium";
+
+/**
+ * SysY 运行时库（sylib）的内置声明文档
+ * SysY 只有函数定义，这里用函数体为空的定义给出 sylib.h 中各个函数的签名，
+ * 由作用域提供器放在全局作用域的最外层，因此文件中的同名函数会遮蔽它们。
+ * putf 的第一个参数是格式字符串，文法中没有字符串字面量，因此没有列出。
+ */
+export const BUILTIN_LIBRARY_URI = "builtin:///sylib.sys";
+
+export const BUILTIN_LIBRARY = `// 输入
+int getint() { return 0; }
+int getch() { return 0; }
+float getfloat() { return 0.0; }
+int getarray(int a[]) { return 0; }
+int getfarray(float a[]) { return 0; }
+
+// 输出
+void putint(int a) {}
+void putch(int a) {}
+void putfloat(float a) {}
+void putarray(int n, int a[]) {}
+void putfarray(int n, float a[]) {}
+
+// 计时
+void starttime() {}
+void stoptime() {}
+`;
+
+/**
+ * 节点是否来自内置声明文档
+ */
+export function isBuiltinLibraryNode(node: AstNode): boolean {
+  return (
+    AstUtils.getDocument(node).uri.toString() ===
+    URI.parse(BUILTIN_LIBRARY_URI).toString()
+  );
+}
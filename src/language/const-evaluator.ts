@@ -0,0 +1,172 @@
+import { WorkspaceCache } from "langium";
+import type { ScalarType } from "../compiler/runtime.js";
+import {
+  CompileError,
+  ConstSymbol,
+  ConstValue,
+  arraySize,
+  convertConst,
+  evaluateConstExp,
+  flattenInitializer,
+  scalarInitializer,
+} from "../compiler/semantic.js";
+import {
+  ConstDef,
+  ConstInitVal,
+  ConstantLVal,
+  Exp,
+  VariableLVal,
+  isConstDef,
+} from "./generated/ast.js";
+import { HelloWorldServices } from "./hello-world-module.js";
+
+/** 求值时允许展开的常量数组元素个数上限 */
+const MAX_CONSTANT_ELEMENTS = 1 << 20;
+
+/**
+ * 编译期常量求值服务
+ * 沿着链接好的引用计算常量表达式、常量数组的初值和数组各维的长度，
+ * 求值本身与编译器共用 evaluateConstExp，这里只负责解析引用、缓存结果和检测循环引用。
+ */
+export class SysyConstEvaluator {
+  private readonly constantCache: WorkspaceCache<ConstDef, Required<ConstSymbol>>;
+  private readonly dimsCache: WorkspaceCache<ConstDef, number[]>;
+  private readonly evaluating = new Set<ConstDef>();
+
+  constructor(services: HelloWorldServices) {
+    this.constantCache = new WorkspaceCache(services.shared);
+    this.dimsCache = new WorkspaceCache(services.shared);
+  }
+
+  /**
+   * 计算常量表达式
+   * @returns 表达式的值，不是编译期常量时为 undefined
+   */
+  evaluate(exp: Exp): ConstValue | undefined {
+    return this.attempt(() => this.evaluateExp(exp));
+  }
+
+  /**
+   * 计算常量表达式并转换为整数，用于数组长度和下标
+   */
+  evaluateInt(exp: Exp): number | undefined {
+    const constant = this.evaluate(exp);
+    return constant && convertConst(constant, "int");
+  }
+
+  /**
+   * 计算数组各维的长度
+   * @returns 各维长度，任意一维不是编译期常量时为 undefined
+   */
+  evaluateDims(dims: Exp[]): number[] | undefined {
+    return this.attempt(() => this.evaluateDimsOrThrow(dims));
+  }
+
+  /**
+   * 常量按行优先展开后的值，没有给出初值的元素为 0
+   */
+  constantValues(def: ConstDef): ConstValue[] | undefined {
+    return this.attempt(() => {
+      const { type, constValues } = this.constantOrThrow(def);
+      return constValues.map((value) => ({ type, value }));
+    });
+  }
+
+  /**
+   * 说明表达式为什么不是编译期常量
+   * @returns 错误信息，表达式是编译期常量时为 undefined
+   */
+  explain(exp: Exp): string | undefined {
+    try {
+      this.evaluateExp(exp);
+      return undefined;
+    } catch (error) {
+      if (error instanceof CompileError) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  private attempt<T>(evaluate: () => T): T | undefined {
+    try {
+      return evaluate();
+    } catch (error) {
+      if (error instanceof CompileError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private evaluateExp(exp: Exp): ConstValue {
+    return evaluateConstExp(exp, (_name, lval) => this.resolve(lval));
+  }
+
+  /**
+   * 引用的常量，引用的不是常量时为 undefined
+   */
+  private resolve(lval: VariableLVal | ConstantLVal): ConstSymbol | undefined {
+    const ref = lval.value.ref;
+    return isConstDef(ref) ? this.constantOrThrow(ref) : undefined;
+  }
+
+  private evaluateDimsOrThrow(dims: Exp[]): number[] {
+    return dims.map((dim) => convertConst(this.evaluateExp(dim), "int"));
+  }
+
+  /**
+   * 常量数组各维的长度，长度表达式中引用常量自身时报错而不是无限递归
+   */
+  private constantDimsOrThrow(def: ConstDef): number[] {
+    return this.dimsCache.get(def, () =>
+      this.guard(def, () => {
+        const dims = this.evaluateDimsOrThrow(def.index);
+        if (dims.some((dim) => dim <= 0)) {
+          throw new CompileError(`常量数组 '${def.name}' 的长度必须为正数。`);
+        }
+        if (arraySize(dims) > MAX_CONSTANT_ELEMENTS) {
+          throw new CompileError(`常量数组 '${def.name}' 过大。`);
+        }
+        return dims;
+      })
+    );
+  }
+
+  /**
+   * 常量的类型、各维长度和展开后的值，初值中引用常量自身时报错
+   */
+  private constantOrThrow(def: ConstDef): Required<ConstSymbol> {
+    return this.constantCache.get(def, () => {
+      const dims = this.constantDimsOrThrow(def);
+      return this.guard(def, () => {
+        const type = (def.$container as { btype: ScalarType }).btype;
+        // ConstDef 的初值直接展开在定义节点上
+        const init = def as ConstInitVal;
+        const flat =
+          dims.length > 0
+            ? flattenInitializer(init, dims)
+            : [scalarInitializer(init)];
+        const constValues = flat.map((exp) =>
+          exp ? convertConst(this.evaluateExp(exp), type) : 0
+        );
+        return { type, dims, constValues };
+      });
+    });
+  }
+
+  /**
+   * 在计算常量 def 的过程中执行 compute，再次进入同一个常量说明定义引用了它自身
+   */
+  private guard<T>(def: ConstDef, compute: () => T): T {
+    if (this.evaluating.has(def)) {
+      throw new CompileError(`常量 '${def.name}' 的定义引用了它自身。`);
+    }
+    this.evaluating.add(def);
+    try {
+      return compute();
+    } finally {
+      this.evaluating.delete(def);
+    }
+  }
+}
@@ -0,0 +1,337 @@
+import { AstNode, AstUtils, ValidationAcceptor } from "langium";
+import { DiagnosticTag, Range } from "vscode-languageserver";
+import {
+  CfgNode,
+  ControlFlowGraph,
+  SysyControlFlowAnalyzer,
+} from "./control-flow.js";
+import {
+  ErrorCategory,
+  ErrorMessageProvider,
+} from "./error-message-provider.js";
+import {
+  Block,
+  BlockItem,
+  FuncDef,
+  Stmt,
+  Stmtelif,
+  Stmtwhile,
+  VarDef,
+  VariableLVal,
+  isDecl,
+  isStmtLval,
+  isStmtbreak,
+  isStmtcontinue,
+  isStmtelif,
+  isStmtreturn,
+  isStmtwhile,
+  isVarDef,
+  isVariableLVal,
+} from "./generated/ast.js";
+import { HelloWorldServices } from "./hello-world-module.js";
+import { ERROR_CODES } from "./quickfix-provider.js";
+
+/**
+ * 控制流检查器，基于函数的控制流图检查语句的执行顺序
+ */
+export class ControlFlowValidator {
+  private errorMessageProvider: ErrorMessageProvider;
+  private controlFlowAnalyzer: SysyControlFlowAnalyzer;
+
+  constructor(services: HelloWorldServices) {
+    this.errorMessageProvider = new ErrorMessageProvider();
+    this.controlFlowAnalyzer = services.evaluation.ControlFlowAnalyzer;
+  }
+
+  /**
+   * 检查永远不会执行的语句：跳转语句之后的语句，以及条件恒为假的 if 分支和 while 循环体
+   * 同一个语句块中连续的死代码只报告一次，不再深入检查其中嵌套的语句
+   */
+  checkUnreachableCode(func: FuncDef, accept: ValidationAcceptor): void {
+    const graph = this.controlFlowAnalyzer.getControlFlowGraph(func);
+    this.checkItems(graph, func.block.blockItems, accept);
+  }
+
+  /**
+   * 检查局部标量变量在赋值之前被读取
+   * 在控制流图上同时计算每个位置一定已赋值和可能已赋值的变量：
+   * 一定已赋值的集合在汇合处取交集，可能已赋值的集合取并集。
+   * 没有初值的定义本身会清除赋值状态，因此循环中的定义每次进入循环都重新算作未赋值。
+   */
+  checkUninitializedUse(func: FuncDef, accept: ValidationAcceptor): void {
+    const locals = new Set(
+      AstUtils.streamAllContents(func.block)
+        .filter(isVarDef)
+        .filter((def) => def.Init.length === 0 && def.index.length === 0)
+    );
+    if (locals.size === 0) {
+      return;
+    }
+    const graph = this.controlFlowAnalyzer.getControlFlowGraph(func);
+    const nodes = graph.nodes.filter((node) => graph.reachable.has(node));
+    const mustOut = new Map<CfgNode, Set<VarDef>>();
+    const mayOut = new Map<CfgNode, Set<VarDef>>();
+    for (const node of nodes) {
+      mustOut.set(node, node === graph.entry ? new Set() : new Set(locals));
+      mayOut.set(node, new Set());
+    }
+    const incoming = (node: CfgNode): [Set<VarDef>, Set<VarDef>] => {
+      const preds = node.predecessors.filter((pred) => graph.reachable.has(pred));
+      const must = new Set(
+        [...locals].filter((def) =>
+          preds.every((pred) => mustOut.get(pred)!.has(def))
+        )
+      );
+      const may = new Set(preds.flatMap((pred) => [...mayOut.get(pred)!]));
+      return [must, may];
+    };
+
+    // 一定已赋值的集合只会缩小，可能已赋值的集合只会扩大，比较大小即可判断是否收敛
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const node of nodes) {
+        if (node === graph.entry) {
+          continue;
+        }
+        const [must, may] = incoming(node);
+        this.applyAssignments(node, locals, must, may);
+        if (
+          must.size !== mustOut.get(node)!.size ||
+          may.size !== mayOut.get(node)!.size
+        ) {
+          mustOut.set(node, must);
+          mayOut.set(node, may);
+          changed = true;
+        }
+      }
+    }
+
+    for (const node of nodes) {
+      if (node === graph.entry) {
+        continue;
+      }
+      const [must, may] = incoming(node);
+      this.applyAssignments(node, locals, must, may, (lval, def) => {
+        const message = may.has(def)
+          ? `变量 '${def.name}' 在某些执行路径上没有赋值就被读取。`
+          : `变量 '${def.name}' 没有赋值就被读取。`;
+        accept(
+          "warning",
+          this.errorMessageProvider.getSafeEnhancedMessage(message),
+          {
+            node: lval,
+            property: "value",
+            code: ERROR_CODES.UNINITIALIZED_VARIABLE,
+            data: {
+              explanation: "局部变量没有初值，赋值之前读取到的值是不确定的",
+              suggestion: `在定义时初始化变量，例如：'${def.name} = 0'`,
+              category: ErrorCategory.VARIABLE,
+              variableName: def.name,
+              insertPosition: def.$cstNode?.range.end,
+            },
+          }
+        );
+      });
+    }
+  }
+
+  /**
+   * 按执行顺序把一个节点中的读取和赋值作用到赋值状态上
+   * @param onRead 读取了一个不一定已赋值的变量
+   */
+  private applyAssignments(
+    node: CfgNode,
+    locals: Set<VarDef>,
+    must: Set<VarDef>,
+    may: Set<VarDef>,
+    onRead?: (lval: VariableLVal, def: VarDef) => void
+  ): void {
+    const read = (scope: AstNode | undefined) => {
+      if (!scope) {
+        return;
+      }
+      AstUtils.streamAst(scope)
+        .filter(isVariableLVal)
+        .forEach((lval) => {
+          const def = lval.value.ref;
+          if (isVarDef(def) && locals.has(def) && !must.has(def)) {
+            onRead?.(lval, def);
+          }
+        });
+    };
+    const ast = node.node;
+    if (node.kind === "cond" && (isStmtelif(ast) || isStmtwhile(ast))) {
+      read(ast.condition);
+    } else if (isStmtLval(ast)) {
+      read(ast.expr1);
+      if (isVariableLVal(ast.lval)) {
+        ast.lval.index.forEach(read);
+        const def = ast.lval.value.ref;
+        if (isVarDef(def) && locals.has(def)) {
+          must.add(def);
+          may.add(def);
+        }
+      }
+    } else if (isDecl(ast)) {
+      for (const def of ast.defs) {
+        read(def);
+        if (isVarDef(def) && locals.has(def)) {
+          must.delete(def);
+          may.delete(def);
+        }
+      }
+    } else {
+      read(ast);
+    }
+  }
+
+  private checkItems(
+    graph: ControlFlowGraph,
+    items: BlockItem[],
+    accept: ValidationAcceptor
+  ): void {
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      if (this.isUnreachable(graph, item.blockDecl ?? item.blockStmt)) {
+        const previous = items[i - 1]?.blockStmt;
+        const keyword = isStmtreturn(previous)
+          ? "return"
+          : isStmtbreak(previous)
+            ? "break"
+            : isStmtcontinue(previous)
+              ? "continue"
+              : undefined;
+        const message = keyword
+          ? `'${keyword}' 之后的语句永远不会执行。`
+          : "前面的语句在任何情况下都不会继续向下执行，这里的语句永远不会执行。";
+        const first = item.$cstNode;
+        const last = items[items.length - 1].$cstNode;
+        if (first && last) {
+          const range = { start: first.range.start, end: last.range.end };
+          this.reportUnreachable(message, item, range, range, "", accept);
+        }
+        return;
+      }
+      if (item.blockStmt) {
+        this.checkStmt(graph, item.blockStmt, accept);
+      }
+    }
+  }
+
+  private checkStmt(
+    graph: ControlFlowGraph,
+    stmt: Stmt,
+    accept: ValidationAcceptor
+  ): void {
+    if (isStmtelif(stmt)) {
+      this.checkBranch(graph, stmt, stmt.ifstmt, true, accept);
+      if (stmt.elsestmt) {
+        this.checkBranch(graph, stmt, stmt.elsestmt, false, accept);
+      }
+    } else if (isStmtwhile(stmt)) {
+      this.checkBranch(graph, stmt, stmt.whilestmt, true, accept);
+    } else if (stmt.$type === "Block") {
+      this.checkItems(graph, stmt.blockItems, accept);
+    }
+  }
+
+  /**
+   * 检查条件语句的一个分支，条件为常量时控制流图中没有通向另一个分支的边
+   * @param branch 分支在条件为真还是为假时执行
+   */
+  private checkBranch(
+    graph: ControlFlowGraph,
+    stmt: Stmtelif | Stmtwhile,
+    body: Stmt,
+    branch: boolean,
+    accept: ValidationAcceptor
+  ): void {
+    const cond = graph.nodeOf(stmt);
+    if (!cond || cond.successors.some((edge) => edge.branch === branch)) {
+      this.checkStmt(graph, body, accept);
+      return;
+    }
+    if (!stmt.$cstNode || !body.$cstNode) {
+      return;
+    }
+    const condition = stmt.condition.$cstNode?.text.replace(/\s+/g, " ");
+    const target = isStmtwhile(stmt)
+      ? "while 循环体"
+      : branch
+        ? "if 分支"
+        : "else 分支";
+    const message = `条件 '${condition}' 恒为${branch ? "假" : "真"}，${target}永远不会执行。`;
+    // 删除死分支时保留另一个分支，没有另一个分支时删除整条语句
+    const other = isStmtelif(stmt)
+      ? branch
+        ? stmt.elsestmt
+        : stmt.ifstmt
+      : undefined;
+    this.reportUnreachable(
+      message,
+      body,
+      body.$cstNode.range,
+      stmt.$cstNode.range,
+      other?.$cstNode?.text ?? "",
+      accept
+    );
+    if (other) {
+      this.checkStmt(graph, other, accept);
+    }
+  }
+
+  /**
+   * 语句块中的一项是否不可达
+   * 复合语句看它第一个执行的节点，没有任何语句的空语句块不算死代码
+   */
+  private isUnreachable(
+    graph: ControlFlowGraph,
+    node: AstNode | undefined
+  ): boolean {
+    if (!node) {
+      return false;
+    }
+    const cfgNode = graph.nodeOf(node);
+    if (cfgNode) {
+      return !graph.reachable.has(cfgNode);
+    }
+    if (node.$type === "Block") {
+      const first = (node as Block).blockItems[0];
+      return this.isUnreachable(graph, first?.blockDecl ?? first?.blockStmt);
+    }
+    return false;
+  }
+
+  /**
+   * @param range 死代码的范围
+   * @param removeRange 快速修复时被替换的范围，死分支需要替换整条条件语句
+   * @param replacement 替换后的文本
+   */
+  private reportUnreachable(
+    message: string,
+    node: AstNode,
+    range: Range,
+    removeRange: Range,
+    replacement: string,
+    accept: ValidationAcceptor
+  ): void {
+    accept(
+      "warning",
+      this.errorMessageProvider.getSafeEnhancedMessage(message),
+      {
+        node,
+        range,
+        code: ERROR_CODES.UNREACHABLE_CODE,
+        tags: [DiagnosticTag.Unnecessary],
+        data: {
+          explanation: "程序执行时不会到达这些语句，它们对结果没有任何影响",
+          suggestion: "删除这些语句，或检查前面的跳转语句和条件是否写错",
+          category: ErrorCategory.CONTROL,
+          removeRange,
+          replacement,
+        },
+      }
+    );
+  }
+}
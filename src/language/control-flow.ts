@@ -0,0 +1,237 @@
+import { AstNode, WorkspaceCache } from "langium";
+import { SysyConstEvaluator } from "./const-evaluator.js";
+import {
+  BlockItem,
+  Exp,
+  FuncDef,
+  Stmt,
+  Stmtelif,
+  Stmtwhile,
+  isStmtbreak,
+  isStmtcontinue,
+  isStmtelif,
+  isStmtreturn,
+  isStmtwhile,
+} from "./generated/ast.js";
+import { HelloWorldServices } from "./hello-world-module.js";
+
+/**
+ * 控制流图中的节点
+ * 每条语句和每个局部声明对应一个节点，if 和 while 的节点表示对条件求值。
+ * entry 为函数入口，exit 为 return 的去向，end 表示执行到函数体末尾。
+ */
+export interface CfgNode {
+  kind: "entry" | "exit" | "end" | "stmt" | "cond";
+  /** 对应的语句或声明，entry、exit 和 end 没有 */
+  node?: AstNode;
+  successors: CfgEdge[];
+  predecessors: CfgNode[];
+}
+
+/** 控制流边，branch 为条件节点的真假分支 */
+export interface CfgEdge {
+  target: CfgNode;
+  branch?: boolean;
+}
+
+export interface ControlFlowGraph {
+  entry: CfgNode;
+  exit: CfgNode;
+  end: CfgNode;
+  nodes: CfgNode[];
+  /** 从 entry 出发能够到达的节点 */
+  reachable: Set<CfgNode>;
+  /** 语句或声明对应的节点 */
+  nodeOf(node: AstNode): CfgNode | undefined;
+}
+
+/** 尚未连接到后继的出边 */
+interface PendingEdge {
+  from: CfgNode;
+  branch?: boolean;
+}
+
+interface LoopTargets {
+  header: CfgNode;
+  breaks: PendingEdge[];
+}
+
+/**
+ * 控制流分析服务
+ * 为函数体构造语句级的控制流图。条件是编译期常量时只保留会被执行的分支，
+ * 因此 while (1) 之后的语句和 if (0) 的分支不可达。
+ */
+export class SysyControlFlowAnalyzer {
+  private readonly constEvaluator: SysyConstEvaluator;
+  private readonly graphCache: WorkspaceCache<FuncDef, ControlFlowGraph>;
+
+  constructor(services: HelloWorldServices) {
+    this.constEvaluator = services.evaluation.ConstEvaluator;
+    this.graphCache = new WorkspaceCache(services.shared);
+  }
+
+  /**
+   * 函数的控制流图
+   */
+  getControlFlowGraph(func: FuncDef): ControlFlowGraph {
+    return this.graphCache.get(func, () => new CfgBuilder(this.constEvaluator).build(func));
+  }
+
+  /**
+   * 从 entry 到 target 的一条最短路径，不可达时为 undefined
+   * @returns 路径上依次经过的边，第一条边从 entry 出发
+   */
+  findPath(graph: ControlFlowGraph, target: CfgNode): Array<{ from: CfgNode } & CfgEdge> | undefined {
+    const parents = new Map<CfgNode, { from: CfgNode } & CfgEdge>();
+    const queue = [graph.entry];
+    const visited = new Set<CfgNode>(queue);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === target) {
+        const path: Array<{ from: CfgNode } & CfgEdge> = [];
+        for (let edge = parents.get(current); edge; edge = parents.get(edge.from)) {
+          path.unshift(edge);
+        }
+        return path;
+      }
+      for (const edge of current.successors) {
+        if (!visited.has(edge.target)) {
+          visited.add(edge.target);
+          parents.set(edge.target, { from: current, ...edge });
+          queue.push(edge.target);
+        }
+      }
+    }
+    return undefined;
+  }
+}
+
+class CfgBuilder {
+  private readonly nodes: CfgNode[] = [];
+  private readonly nodeMap = new Map<AstNode, CfgNode>();
+  private readonly loops: LoopTargets[] = [];
+  private readonly entry = this.createNode("entry");
+  private readonly exit = this.createNode("exit");
+  private readonly end = this.createNode("end");
+
+  constructor(private readonly constEvaluator: SysyConstEvaluator) {}
+
+  build(func: FuncDef): ControlFlowGraph {
+    const fallthrough = this.buildItems(func.block.blockItems, [{ from: this.entry }]);
+    this.connect(fallthrough, this.end);
+
+    const reachable = new Set<CfgNode>([this.entry]);
+    const worklist = [this.entry];
+    while (worklist.length > 0) {
+      for (const edge of worklist.pop()!.successors) {
+        if (!reachable.has(edge.target)) {
+          reachable.add(edge.target);
+          worklist.push(edge.target);
+        }
+      }
+    }
+    return {
+      entry: this.entry,
+      exit: this.exit,
+      end: this.end,
+      nodes: this.nodes,
+      reachable,
+      nodeOf: (node) => this.nodeMap.get(node),
+    };
+  }
+
+  private buildItems(items: BlockItem[], preds: PendingEdge[]): PendingEdge[] {
+    for (const item of items) {
+      if (item.blockDecl) {
+        preds = this.simple(item.blockDecl, preds);
+      } else if (item.blockStmt) {
+        preds = this.buildStmt(item.blockStmt, preds);
+      }
+    }
+    return preds;
+  }
+
+  /**
+   * 构造一条语句的子图
+   * @param preds 流入这条语句的边
+   * @returns 执行完这条语句后继续向下执行的边
+   */
+  private buildStmt(stmt: Stmt, preds: PendingEdge[]): PendingEdge[] {
+    // Block 的 $type 包含了它的子类型，因此用类型守卫而不是 switch 区分
+    if (isStmtelif(stmt)) {
+      const cond = this.condition(stmt, preds);
+      const thenOut = this.buildStmt(stmt.ifstmt, this.branch(cond, stmt.condition, true));
+      const elseIn = this.branch(cond, stmt.condition, false);
+      const elseOut = stmt.elsestmt ? this.buildStmt(stmt.elsestmt, elseIn) : elseIn;
+      return [...thenOut, ...elseOut];
+    }
+    if (isStmtwhile(stmt)) {
+      const cond = this.condition(stmt, preds);
+      const loop: LoopTargets = { header: cond, breaks: [] };
+      this.loops.push(loop);
+      const bodyOut = this.buildStmt(stmt.whilestmt, this.branch(cond, stmt.condition, true));
+      this.loops.pop();
+      this.connect(bodyOut, cond);
+      return [...this.branch(cond, stmt.condition, false), ...loop.breaks];
+    }
+    if (isStmtreturn(stmt)) {
+      this.connect(this.simple(stmt, preds), this.exit);
+      return [];
+    }
+    if (isStmtbreak(stmt)) {
+      this.loops[this.loops.length - 1]?.breaks.push(...this.simple(stmt, preds));
+      return [];
+    }
+    if (isStmtcontinue(stmt)) {
+      const loop = this.loops[this.loops.length - 1];
+      const out = this.simple(stmt, preds);
+      if (loop) {
+        this.connect(out, loop.header);
+      }
+      return [];
+    }
+    if (stmt.$type === "Block") {
+      return this.buildItems(stmt.blockItems, preds);
+    }
+    return this.simple(stmt, preds);
+  }
+
+  private simple(node: AstNode, preds: PendingEdge[]): PendingEdge[] {
+    const cfgNode = this.createNode("stmt", node);
+    this.connect(preds, cfgNode);
+    return [{ from: cfgNode }];
+  }
+
+  private condition(stmt: Stmtelif | Stmtwhile, preds: PendingEdge[]): CfgNode {
+    const cfgNode = this.createNode("cond", stmt);
+    this.connect(preds, cfgNode);
+    return cfgNode;
+  }
+
+  /**
+   * 条件节点的一个分支，条件恒为另一个值时这个分支不会被执行
+   */
+  private branch(cond: CfgNode, condition: Exp, value: boolean): PendingEdge[] {
+    const constant = this.constEvaluator.evaluate(condition);
+    if (constant && (constant.value !== 0) !== value) {
+      return [];
+    }
+    return [{ from: cond, branch: value }];
+  }
+
+  private connect(preds: PendingEdge[], target: CfgNode): void {
+    for (const pred of preds) {
+      pred.from.successors.push({ target, branch: pred.branch });
+      target.predecessors.push(pred.from);
+    }
+  }
+
+  private createNode(kind: CfgNode["kind"], node?: AstNode): CfgNode {
+    const cfgNode: CfgNode = { kind, node, successors: [], predecessors: [] };
+    this.nodes.push(cfgNode);
+    if (node) {
+      this.nodeMap.set(node, cfgNode);
+    }
+    return cfgNode;
+  }
+}
@@ -1,24 +1,136 @@
-import { ValidationAcceptor } from "langium";
+import { AstNode, AstUtils, GrammarUtils, ValidationAcceptor } from "langium";
+import { DiagnosticTag, Range, TextEdit } from "vscode-languageserver";
+import {
+  InitNode,
+  arraySize,
+  flattenInitializer,
+  initParts,
+} from "../compiler/semantic.js";
+import { isBuiltinLibraryNode } from "./builtin-library.js";
+import { SysyConstEvaluator } from "./const-evaluator.js";
 import {
     ErrorCategory,
     ErrorMessageProvider,
 } from "./error-message-provider.js";
 import {
+    Block,
+    CompUnit,
+    ConstDef,
+    ConstantLVal,
+    ConstInitVal,
     Decl,
+    Exp,
+    FuncDef,
+    FuncFParam,
     VarDef,
+    StmtLval,
     VariableLVal,
+    isBlockItem,
+    isCompUnit,
     isConstDef,
+    isConstantLVal,
+    isFuncDef,
     isFuncFParam,
+    isFuncRParams,
+    isFunctionCall,
+    isStmtLval,
     isVarDef,
+    isVariableLVal,
 } from "./generated/ast.js";
 import { HelloWorldServices } from "./hello-world-module.js";
 import { ERROR_CODES } from "./quickfix-provider.js";
+import { SysyTypeInferrer } from "./type-inferrer.js";
+
+/**
+ * 删除一个变量或常量定义的范围：声明中只有它时删除整条声明，否则连同相邻的逗号一起删除
+ * 初值中调用了函数时删除会丢掉调用的副作用，返回 null
+ */
+function defRemovalRange(def: VarDef | ConstDef): Range | null {
+  const decl = def.$container as Decl;
+  const defs = decl.defs as Array<VarDef | ConstDef>;
+  const i = defs.indexOf(def);
+  const hasCall = AstUtils.streamAllContents(def).some(
+    (node) => isFunctionCall(node) || isFuncRParams(node)
+  );
+  if (hasCall || !decl.$cstNode || !def.$cstNode) {
+    return null;
+  }
+  if (defs.length === 1) {
+    return decl.$cstNode.range;
+  }
+  const next = defs[i + 1]?.$cstNode;
+  if (next) {
+    return { start: def.$cstNode.range.start, end: next.range.start };
+  }
+  const previous = defs[i - 1].$cstNode;
+  return previous
+    ? { start: previous.range.end, end: def.$cstNode.range.end }
+    : null;
+}
+
+/**
+ * 去掉常量声明中 'const ' 的范围
+ */
+function constKeywordRange(def: ConstDef): Range | undefined {
+  const decl = def.$container as Decl;
+  const keyword = GrammarUtils.findNodeForKeyword(decl.$cstNode, "const");
+  const btype = GrammarUtils.findNodeForProperty(decl.$cstNode, "btype");
+  return keyword && btype
+    ? { start: keyword.range.start, end: btype.range.start }
+    : undefined;
+}
+
+/**
+ * 把给常量赋值的语句改为定义一个新变量，并让同一语句块中之后对常量的使用改为使用新变量
+ * 赋值语句不直接位于语句块中时（如 if 的分支）不能改为定义，返回 undefined
+ */
+function introduceVariableEdits(
+  stmt: StmtLval,
+  def: ConstDef
+): TextEdit[] | undefined {
+  const item = stmt.$container;
+  if (!isBlockItem(item) || !stmt.$cstNode || !stmt.expr1.$cstNode) {
+    return undefined;
+  }
+  const compUnit = AstUtils.getContainerOfType(stmt, isCompUnit);
+  const names = new Set(
+    AstUtils.streamAllContents(compUnit!)
+      .filter((node) => isVarDef(node) || isConstDef(node) || isFuncFParam(node))
+      .map((node) => (node as VarDef | ConstDef | FuncFParam).name)
+  );
+  let name = `${def.name}_var`;
+  for (let i = 2; names.has(name); i++) {
+    name = `${def.name}_var${i}`;
+  }
+
+  const btype = (def.$container as { btype: string }).btype;
+  const edits = [
+    TextEdit.replace(
+      stmt.$cstNode.range,
+      `${btype} ${name} = ${stmt.expr1.$cstNode.text};`
+    ),
+  ];
+  const items = (item.$container as Block).blockItems;
+  for (const later of items.slice(items.indexOf(item) + 1)) {
+    AstUtils.streamAllContents(later)
+      .filter((node) => isVariableLVal(node) || isConstantLVal(node))
+      .forEach((node) => {
+        const ref = (node as VariableLVal | ConstantLVal).value;
+        if (ref.ref === def && ref.$refNode) {
+          edits.push(TextEdit.replace(ref.$refNode.range, name));
+        }
+      });
+  }
+  return edits;
+}
 
 /**
  * 声明检查器，实现变量声明和使用的验证
  */
 export class DeclValidator {
   private errorMessageProvider: ErrorMessageProvider;
+  private constEvaluator: SysyConstEvaluator;
+  private typeInferrer: SysyTypeInferrer;
 
   /**
    * 构造函数
@@ -26,6 +138,8 @@ export class DeclValidator {
    */
   constructor(private readonly _services: HelloWorldServices) {
     this.errorMessageProvider = new ErrorMessageProvider();
+    this.constEvaluator = _services.evaluation.ConstEvaluator;
+    this.typeInferrer = _services.evaluation.TypeInferrer;
   }
 
   /**
@@ -59,36 +173,129 @@ export class DeclValidator {
   }
 
   /**
-   * 数组越界悬浮提示
-   * @param arr 数组定义节点
+   * 检查数组初值的形状
+   * 按 SysY 的花括号省略规则逐层展开初值，花括号初始化当前位置能对齐的最大子数组，
+   * 元素过多时报告错误；标量或无法对齐到子数组的初值带有多余的花括号时只给出警告，
+   * 编译器会把它当作单个元素的初值。
+   * @param def 变量或常量定义节点
    * @param accept 验证接收器
    */
-  hoverTipsArray(arr: VarDef, accept: ValidationAcceptor): void {
-    if (arr.index[0]) {
-      //是一个数组才能取值
-      const length = (arr.index[0] as { value: string }).value; // 获取数组长度
-      const lengthInt = parseInt(length, 10); // 将字符串解析为整数，第二个参数 10 表示使用十进制解析
-      if (arr.Init[0].manyInit.length > lengthInt) {
-        const message = `数组 ${arr.name} 的初始化元素数量超过了数组大小。`;
-        accept(
-          "error",
-          this.errorMessageProvider.getSafeEnhancedMessage(message),
-          {
-            node: arr,
-            property: "Init",
-            code: ERROR_CODES.ARRAY_SIZE_OVERFLOW,
-            data: {
-              explanation: "数组元素数量超过了声明的大小",
-              suggestion: "增大数组大小或减少初始化元素的数量",
-              category: ErrorCategory.ARRAY,
-              arrayName: arr.name,
-              declaredSize: lengthInt,
-              actualSize: arr.Init[0].manyInit.length,
-            },
-          }
+  checkInitializerShape(
+    def: VarDef | ConstDef,
+    accept: ValidationAcceptor
+  ): void {
+    // 嵌套的常量初值 ConstInitVal 也是 ConstDef 的子类型，只检查声明中的定义
+    if (def.$containerProperty !== "defs") {
+      return;
+    }
+    // ConstDef 的初值直接展开在定义节点上
+    const init = isVarDef(def) ? def.Init[0] : (def as ConstInitVal);
+    if (!init) {
+      return;
+    }
+    const [single] = initParts(init);
+    if (def.index.length === 0) {
+      if (single.length === 0) {
+        this.reportInitializer(
+          "warning",
+          `${isVarDef(def) ? "变量" : "常量"} ${def.name} 不是数组，初值的花括号是多余的。`,
+          init,
+          def,
+          accept
         );
       }
+      return;
     }
+    const dims = this.constEvaluator.evaluateDims(def.index);
+    if (!dims || dims.some((dim) => dim <= 0)) {
+      return;
+    }
+    if (single.length > 0) {
+      this.reportInitializer(
+        "error",
+        `数组 ${def.name} 的初值必须写在花括号中。`,
+        init,
+        def,
+        accept
+      );
+      return;
+    }
+
+    const btype = (def.$container as { btype: string }).btype;
+    // 与编译器共用同一套展开规则，编辑器和编译器接受的程序保持一致
+    flattenInitializer(init, dims, {
+      excess: (item, depth, list) =>
+        this.reportExcessInitializer(def, item, depth, dims, list.length, btype, accept),
+      bracedScalar: (item, index) =>
+        this.reportInitializer(
+          "warning",
+          `数组 ${def.name} 的第 ${index + 1} 项初值 '${item.$cstNode?.text}' 没有对齐到任何子数组，会被当作单个元素的初值，花括号是多余的。`,
+          item,
+          def,
+          accept
+        ),
+    });
+  }
+
+  /**
+   * 报告超出数组或子数组大小的初值
+   */
+  private reportExcessInitializer(
+    def: VarDef | ConstDef,
+    item: InitNode,
+    depth: number,
+    dims: number[],
+    count: number,
+    btype: string,
+    accept: ValidationAcceptor
+  ): void {
+    const subType = btype + dims.slice(depth).map((dim) => `[${dim}]`).join("");
+    const message =
+      depth === 0
+        ? `数组 ${def.name} 的初始化元素数量超过了数组大小。`
+        : `数组 ${def.name} 的子数组初值中元素过多，${subType} 只能容纳 ${arraySize(dims.slice(depth))} 个元素。`;
+    accept(
+      "error",
+      this.errorMessageProvider.getSafeEnhancedMessage(message),
+      {
+        node: item,
+        code: ERROR_CODES.ARRAY_SIZE_OVERFLOW,
+        data: {
+          explanation: "初值的元素数量超过了数组或子数组的大小",
+          suggestion: "增大数组大小或减少初始化元素的数量",
+          category: ErrorCategory.ARRAY,
+          arrayName: def.name,
+          declaredSize: depth === 0 ? dims[0] : arraySize(dims.slice(depth)),
+          actualSize: count,
+        },
+      }
+    );
+  }
+
+  /**
+   * 报告形状不合法的初值
+   */
+  private reportInitializer(
+    severity: "error" | "warning",
+    message: string,
+    node: InitNode,
+    def: VarDef | ConstDef,
+    accept: ValidationAcceptor
+  ): void {
+    accept(
+      severity,
+      this.errorMessageProvider.getSafeEnhancedMessage(message),
+      {
+        node,
+        code: ERROR_CODES.INVALID_INITIALIZER,
+        data: {
+          explanation: "数组初值中的每对花括号都要对应一个子数组，标量的初值是单个表达式",
+          suggestion: "按数组的维数调整花括号的嵌套",
+          category: ErrorCategory.ARRAY,
+          arrayName: def.name,
+        },
+      }
+    );
   }
 
   /**
@@ -119,6 +326,148 @@ export class DeclValidator {
     }
   }
 
+  /**
+   * 检查赋值语句不能给常量赋值
+   */
+  checkConstAssignment(stmt: StmtLval, accept: ValidationAcceptor): void {
+    const lval = stmt.lval;
+    if (!isVariableLVal(lval) || !isConstDef(lval.value.ref)) {
+      return;
+    }
+    const def = lval.value.ref;
+    const message = `不能给常量 '${def.name}' 赋值。`;
+    accept(
+      "error",
+      this.errorMessageProvider.getSafeEnhancedMessage(message),
+      {
+        node: lval,
+        property: "value",
+        code: ERROR_CODES.ASSIGN_TO_CONST,
+        data: {
+          explanation: "用 const 定义的常量在定义之后不能再修改",
+          suggestion: `去掉 '${def.name}' 定义中的 const，或把新的值保存到另一个变量中`,
+          category: ErrorCategory.VARIABLE,
+          variableName: def.name,
+          removeConstRange: constKeywordRange(def),
+          newVariableEdits: introduceVariableEdits(stmt, def),
+        },
+      }
+    );
+  }
+
+  /**
+   * 检查常量的初值和数组各维的长度都是常量表达式：不能使用变量，也不能调用函数
+   */
+  checkConstantExpressions(
+    node: VarDef | ConstDef | FuncFParam,
+    accept: ValidationAcceptor
+  ): void {
+    // 嵌套的常量初值 ConstInitVal 也是 ConstDef 的子类型，由所在的 ConstDef 一起检查
+    if (isConstDef(node) && node.$containerProperty !== "defs") {
+      return;
+    }
+    const constExps: Array<[Exp | ConstDef, string]> = isFuncFParam(node)
+      ? node.extraExp.map((exp) => [exp, `形参 '${node.name}' 的数组长度`])
+      : node.index.map((exp) => [exp, `数组 '${node.name}' 的长度`]);
+    if (isConstDef(node)) {
+      // 初值展开在定义节点上，数组长度已经在上面单独检查
+      constExps.push([node, `常量 '${node.name}' 的初值`]);
+    }
+
+    for (const [root, usage] of constExps) {
+      const iterator = AstUtils.streamAst(root).iterator();
+      for (const exp of iterator) {
+        if (root === node && node.index.includes(exp as Exp)) {
+          iterator.prune();
+          continue;
+        }
+        const isCall = isFunctionCall(exp) || isFuncRParams(exp);
+        const isVariable =
+          (isVariableLVal(exp) || isConstantLVal(exp)) &&
+          exp.value.ref !== undefined &&
+          !isConstDef(exp.value.ref);
+        if (!isCall && !isVariable) {
+          continue;
+        }
+        iterator.prune();
+        const reason = this.constEvaluator.explain(exp as Exp);
+        if (!reason) {
+          continue;
+        }
+        accept(
+          "error",
+          this.errorMessageProvider.getSafeEnhancedMessage(
+            `${usage}必须是常量表达式：${reason}`
+          ),
+          {
+            node: exp,
+            code: ERROR_CODES.NON_CONSTANT_EXPRESSION,
+            data: {
+              explanation: "常量的初值和数组的长度在编译时计算，只能由数字和常量组成",
+              suggestion: isConstDef(node)
+                ? `去掉 '${node.name}' 定义中的 const，或改用常量计算`
+                : "改用数字或 const 常量",
+              category: ErrorCategory.VARIABLE,
+              variableName: node.name,
+              removeConstRange:
+                root === node ? constKeywordRange(node) : undefined,
+            },
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * 检查值为常量的数组下标没有超出定义的各维长度
+   * 数组形参省略的第一维和长度不是常量的维只检查下标不为负数；下标个数过多由 TypeValidator 报告
+   */
+  checkIndexBounds(
+    lval: VariableLVal | ConstantLVal,
+    accept: ValidationAcceptor
+  ): void {
+    const ref = lval.value.ref;
+    if (!ref || lval.index.length === 0) {
+      return;
+    }
+    const dims = this.typeInferrer.declaredType(ref).dims;
+    lval.index.slice(0, dims.length).forEach((index, i) => {
+      const constant = this.constEvaluator.evaluate(index);
+      if (!constant || constant.type !== "int") {
+        return;
+      }
+      const dim = dims[i];
+      let message: string;
+      if (constant.value < 0) {
+        message = `数组下标越界：'${ref.name}' 的第 ${i + 1} 个下标为 ${constant.value}，不能为负数。`;
+      } else if (dim !== undefined && constant.value >= dim) {
+        message = `数组下标越界：'${ref.name}' 的第 ${i + 1} 维长度为 ${dim}，下标 ${constant.value} 超出了范围 [0, ${dim - 1}]。`;
+      } else {
+        return;
+      }
+      accept(
+        "error",
+        this.errorMessageProvider.getSafeEnhancedMessage(message),
+        {
+          node: index,
+          code: ERROR_CODES.ARRAY_INDEX_OUT_OF_BOUNDS,
+          data: {
+            explanation: "数组下标必须在 0 到该维长度减 1 之间",
+            suggestion:
+              dim !== undefined
+                ? `使用 0 到 ${dim - 1} 之间的下标，或增大数组的长度`
+                : "使用不小于 0 的下标",
+            category: ErrorCategory.ARRAY,
+            arrayName: ref.name,
+            dimension: i,
+            index: constant.value,
+            dimensionSize: dim,
+          },
+        }
+      );
+    });
+  }
+
   /**
    * 检查未定义的变量
    * @param lval 左值节点
@@ -145,4 +494,129 @@ export class DeclValidator {
       );
     }
   }
+
+  /**
+   * 检查未使用的变量、常量、形参和函数
+   * 每个源文件是一个完整的程序，因此只统计同一文件中的引用；
+   * 作为赋值语句左边的引用只算写入，只被写入的变量单独报告。
+   * main 和运行时库函数由外部调用，不检查。
+   */
+  checkUnusedSymbols(compUnit: CompUnit, accept: ValidationAcceptor): void {
+    const reads = new Map<AstNode, number>();
+    const writes = new Map<AstNode, number>();
+    const count = (counts: Map<AstNode, number>, node: AstNode) =>
+      counts.set(node, (counts.get(node) ?? 0) + 1);
+
+    for (const node of AstUtils.streamAllContents(compUnit)) {
+      if (isVariableLVal(node) || isConstantLVal(node)) {
+        const ref = node.value.ref;
+        if (ref) {
+          // 通过数组形参写入的元素对调用者可见，算作使用
+          const isWrite =
+            isStmtLval(node.$container) &&
+            node.$container.lval === node &&
+            !(isFuncFParam(ref) && ref.array);
+          count(isWrite ? writes : reads, ref);
+        }
+      } else if (isFunctionCall(node) || isFuncRParams(node)) {
+        // 递归调用不算使用
+        const ref = node.funcname.ref;
+        if (ref && AstUtils.getContainerOfType(node, isFuncDef) !== ref) {
+          count(reads, ref);
+        }
+      }
+    }
+
+    for (const node of AstUtils.streamAllContents(compUnit)) {
+      // 嵌套的常量初值 ConstInitVal 也是 ConstDef 的子类型，只看声明中的定义
+      const isDef =
+        ((isVarDef(node) || isConstDef(node)) &&
+          node.$containerProperty === "defs") ||
+        isFuncFParam(node);
+      if (!isDef || reads.has(node)) {
+        continue;
+      }
+      const symbol = node as VarDef | ConstDef | FuncFParam;
+      const kind = isVarDef(symbol)
+        ? "变量"
+        : isFuncFParam(symbol)
+          ? "参数"
+          : "常量";
+      if (writes.has(symbol)) {
+        this.reportUnused(
+          `${kind} '${symbol.name}' 只被赋值，从未被读取。`,
+          symbol,
+          kind,
+          null,
+          ERROR_CODES.UNREAD_VARIABLE,
+          accept
+        );
+      } else {
+        this.reportUnused(
+          `未使用的${kind} '${symbol.name}'。`,
+          symbol,
+          kind,
+          isFuncFParam(symbol) ? null : defRemovalRange(symbol),
+          ERROR_CODES.UNUSED_VARIABLE,
+          accept
+        );
+      }
+    }
+
+    for (const func of compUnit.functions) {
+      if (
+        func.name !== "main" &&
+        !reads.has(func) &&
+        !isBuiltinLibraryNode(func)
+      ) {
+        this.reportUnused(
+          `未使用的函数 '${func.name}'。`,
+          func,
+          "函数",
+          func.$cstNode?.range ?? null,
+          ERROR_CODES.UNUSED_VARIABLE,
+          accept
+        );
+      }
+    }
+  }
+
+  /**
+   * @param removeRange 删除这个符号的范围，为 null 时不提供删除的快速修复
+   */
+  private reportUnused(
+    message: string,
+    symbol: VarDef | ConstDef | FuncFParam | FuncDef,
+    kind: string,
+    removeRange: Range | null,
+    code: string,
+    accept: ValidationAcceptor
+  ): void {
+    accept(
+      "warning",
+      this.errorMessageProvider.getSafeEnhancedMessage(message),
+      {
+        node: symbol,
+        property: "name",
+        code,
+        tags: [DiagnosticTag.Unnecessary],
+        data: {
+          explanation:
+            code === ERROR_CODES.UNREAD_VARIABLE
+              ? "赋给变量的值之后从未被读取，这些赋值对程序结果没有影响"
+              : `${kind}定义后从未被使用`,
+          suggestion:
+            code === ERROR_CODES.UNREAD_VARIABLE
+              ? "删除这个变量和对它的赋值，或检查是否遗漏了对它的使用"
+              : `删除未使用的${kind}，或检查是否写错了名字`,
+          category: isFuncDef(symbol)
+            ? ErrorCategory.FUNCTION
+            : ErrorCategory.VARIABLE,
+          variableName: symbol.name,
+          symbolKind: kind,
+          removeRange,
+        },
+      }
+    );
+  }
 }
@@ -1,4 +1,6 @@
-import { ValidationAcceptor } from "langium";
+import { AstUtils, GrammarUtils, ValidationAcceptor } from "langium";
+import { Position } from "vscode-languageserver";
+import { CfgEdge, CfgNode, SysyControlFlowAnalyzer } from "./control-flow.js";
 import {
     ErrorCategory,
     ErrorMessageProvider,
@@ -8,19 +10,76 @@ import {
     FuncDef,
     FuncRParams,
     FunctionCall,
-    Stmtreturn
+    Stmtreturn,
+    isFuncRParams,
+    isStmtExp,
+    isStmtbreak,
+    isStmtelif,
+    isStmtreturn,
+    isStmtwhile,
 } from "./generated/ast.js";
 import { HelloWorldServices } from "./hello-world-module.js";
 import { ERROR_CODES } from "./quickfix-provider.js";
 
+/**
+ * 描述控制流路径上的一步，只描述条件分支和 break
+ */
+function describeEdge(edge: { from: CfgNode } & CfgEdge): string | undefined {
+  const node = edge.from.node;
+  if (isStmtelif(node) || isStmtwhile(node)) {
+    const keyword = isStmtelif(node) ? "if" : "while";
+    const condition = node.condition.$cstNode?.text.replace(/\s+/g, " ");
+    if (isStmtwhile(node) && edge.branch) {
+      return `进入 while (${condition}) 循环`;
+    }
+    return `${keyword} (${condition}) 的条件${edge.branch ? "成立" : "不成立"}`;
+  }
+  if (isStmtbreak(node) && node.$cstNode) {
+    return `第 ${node.$cstNode.range.start.line + 1} 行的 break 跳出循环`;
+  }
+  return undefined;
+}
+
+/**
+ * 补充 return 语句的位置：函数体最后一项之后，函数体为空时紧跟在 '{' 之后
+ * 执行到函数末尾的路径一定经过这里，因此在这里返回可以覆盖所有缺少 return 的路径
+ */
+function returnInsertion(
+  func: FuncDef
+): { insertPosition: Position; indentation: string } | undefined {
+  const items = func.block.blockItems;
+  const last = items[items.length - 1]?.$cstNode;
+  const block = func.block.$cstNode;
+  if (!block) {
+    return undefined;
+  }
+  const lines = block.root.fullText.split("\n");
+  if (last) {
+    return {
+      insertPosition: last.range.end,
+      indentation: lines[last.range.start.line].match(/^\s*/)?.[0] ?? "",
+    };
+  }
+  const funcIndent = lines[block.range.start.line].match(/^\s*/)?.[0] ?? "";
+  return {
+    insertPosition: {
+      line: block.range.start.line,
+      character: block.range.start.character + 1,
+    },
+    indentation: funcIndent + "    ",
+  };
+}
+
 /**
  * 函数检查器，实现函数定义和使用的验证
  */
 export class FuncValidator {
   private errorMessageProvider: ErrorMessageProvider;
+  private controlFlowAnalyzer: SysyControlFlowAnalyzer;
 
   constructor(services: HelloWorldServices) {
     this.errorMessageProvider = new ErrorMessageProvider();
+    this.controlFlowAnalyzer = services.evaluation.ControlFlowAnalyzer;
   }
 
   /**
@@ -96,6 +155,83 @@ export class FuncValidator {
     }
   }
 
+  /**
+   * 检查程序入口：必须定义 int main()，且没有参数
+   * 重复定义的 main 由 checkUniqueFuncName 报告
+   */
+  checkMainFunction(compUnit: CompUnit, accept: ValidationAcceptor): void {
+    const main = compUnit.functions.find((func) => func.name === "main");
+    if (!main) {
+      const end = compUnit.$cstNode?.range.end ?? { line: 0, character: 0 };
+      const message = "程序缺少 main 函数，需要定义 'int main()' 作为程序入口。";
+      accept(
+        "error",
+        this.errorMessageProvider.getSafeEnhancedMessage(message),
+        {
+          node: compUnit,
+          range: { start: end, end },
+          code: ERROR_CODES.MISSING_MAIN,
+          data: {
+            explanation: "SysY 程序从 main 函数开始执行，没有 main 函数的程序无法运行",
+            suggestion: "在文件末尾添加 'int main() { return 0; }'",
+            category: ErrorCategory.FUNCTION,
+            functionName: "main",
+            insertPosition: end,
+          },
+        }
+      );
+      return;
+    }
+
+    if (main.functype !== "int") {
+      const message = `main 函数的返回类型必须是 int，而不是 ${main.functype}。`;
+      accept(
+        "error",
+        this.errorMessageProvider.getSafeEnhancedMessage(message),
+        {
+          node: main,
+          property: "functype",
+          code: ERROR_CODES.MAIN_RETURN_TYPE,
+          data: {
+            explanation: "main 函数的返回值是程序的退出码，必须是 int",
+            suggestion: `把 '${main.functype} main' 改为 'int main'`,
+            category: ErrorCategory.FUNCTION,
+            functionName: "main",
+            returnType: main.functype,
+            functypeRange: GrammarUtils.findNodeForProperty(
+              main.$cstNode,
+              "functype"
+            )?.range,
+          },
+        }
+      );
+    }
+
+    const params = main.funcFparam;
+    const first = params[0]?.$cstNode;
+    const last = params[params.length - 1]?.$cstNode;
+    if (first && last) {
+      const range = { start: first.range.start, end: last.range.end };
+      const message = `main 函数不能有参数，这里定义了 ${params.length} 个参数。`;
+      accept(
+        "error",
+        this.errorMessageProvider.getSafeEnhancedMessage(message),
+        {
+          node: main,
+          range,
+          code: ERROR_CODES.MAIN_PARAMETERS,
+          data: {
+            explanation: "SysY 的 main 函数不接收参数，输入通过 getint 等运行时库函数读取",
+            suggestion: "删除 main 函数的参数，改用 getint、getarray 等函数读取输入",
+            category: ErrorCategory.FUNCTION,
+            functionName: "main",
+            parametersRange: range,
+          },
+        }
+      );
+    }
+  }
+
   /**
    * 检查非循环块中的break/continue语句
    */
@@ -191,38 +327,33 @@ export class FuncValidator {
    * 检查函数参数不匹配
    */
   checkFunctionParameterMismatch(
-    func: FuncRParams,
+    func: FunctionCall,
     accept: ValidationAcceptor
   ): void {
-    let declaredParams = func.funcname.ref?.funcFparam;
-    let declaredParamArray: String[] = [];
-    let callParamArray = func.funcRparams;
-
-    // 收集声明的参数
-    declaredParams?.forEach((param) => {
-      declaredParamArray.push(param.$cstNode?.text!);
-    });
+    // 没有实参的调用是 FunctionCall
+    const declaredCount = func.funcname.ref?.funcFparam.length ?? 0;
+    const actualCount = isFuncRParams(func) ? func.funcRparams.length : 0;
 
-    // 检查参数个数是否匹配
-    if (declaredParamArray.length !== callParamArray.length) {
-      const message = `参数个数不匹配。预期 ${declaredParamArray.length} 个参数，但实际调用时传递了 ${callParamArray.length} 个参数。`;
+    // 检查参数个数是否匹配，有实参时标记第一个实参，否则标记整个调用
+    if (declaredCount !== actualCount) {
+      const target = isFuncRParams(func) ? func.funcRparams[0] : func;
+      const message = `参数个数不匹配。预期 ${declaredCount} 个参数，但实际调用时传递了 ${actualCount} 个参数。`;
       accept(
         "error",
         this.errorMessageProvider.getSafeEnhancedMessage(message),
         {
-          node: func,
-          property: "funcRparams",
+          node: target,
           code: ERROR_CODES.PARAMETER_MISMATCH,
           data: {
             explanation: "函数调用时参数数量必须与函数定义匹配",
             suggestion:
-              callParamArray.length > declaredParamArray.length
+              actualCount > declaredCount
                 ? "减少参数数量"
                 : "增加缺少的参数",
             category: ErrorCategory.FUNCTION,
             functionName: func.funcname.$refText,
-            expectedCount: declaredParamArray.length,
-            actualCount: callParamArray.length,
+            expectedCount: declaredCount,
+            actualCount: actualCount,
           },
         }
       );
@@ -231,36 +362,83 @@ export class FuncValidator {
 
   /**
    * 检查函数返回类型
+   * 有返回值的函数不能沿任何一条控制流路径执行到函数体末尾，return 的返回值要与函数类型一致
    */
   checkFunctionReturnType(func: FuncDef, accept: ValidationAcceptor): void {
-    // 函数返回值
     const returnType = func.functype;
-    const block = func.block;
-    let hasReturn = false;
-    let actuallReturnType = null;
+    AstUtils.streamAllContents(func.block)
+      .filter(isStmtreturn)
+      .forEach((returnStmt) =>
+        this.checkReturnValue(func, returnStmt, accept)
+      );
 
-    // 检查函数体中的所有语句
-    block.blockItems?.forEach((blockItem) => {
-      if (blockItem.blockStmt?.$type === "Stmtreturn") {
-        const returnStmt = blockItem.blockStmt as Stmtreturn;
-        actuallReturnType = returnStmt.tobereturn;
-        hasReturn = true;
+    if (returnType !== "void") {
+      this.checkAllPathsReturn(func, accept);
+    }
+  }
+
+  /**
+   * 检查有返回值的函数的每条路径都以 return 结束
+   */
+  private checkAllPathsReturn(func: FuncDef, accept: ValidationAcceptor): void {
+    const graph = this.controlFlowAnalyzer.getControlFlowGraph(func);
+    const path = this.controlFlowAnalyzer.findPath(graph, graph.end);
+    if (!path) {
+      return;
+    }
+
+    const returnType = func.functype;
+    const decisions = path
+      .map((edge) => describeEdge(edge))
+      .filter((text): text is string => text !== undefined);
+    const when =
+      decisions.length > 0 ? `当 ${decisions.join("，")}时，` : "";
+    const message = `有返回值: ${returnType} 的函数缺少 return 语句：${when}执行到函数末尾没有返回值。`;
+    const insertion = returnInsertion(func);
+    accept(
+      "error",
+      this.errorMessageProvider.getSafeEnhancedMessage(message),
+      {
+        node: func,
+        property: "functype",
+        code: ERROR_CODES.MISSING_RETURN,
+        data: {
+          explanation: "有返回值的函数在每条执行路径上都必须以return语句结束",
+          suggestion: insertion
+            ? `在第 ${insertion.insertPosition.line + 1} 行添加 'return <${returnType}类型的值>;' 语句`
+            : `添加 'return <${returnType}类型的值>;' 语句`,
+          category: ErrorCategory.FUNCTION,
+          returnType: returnType,
+          functionName: func.name,
+          ...insertion,
+        },
       }
-    });
+    );
+  }
 
-    // 检查有返回值的函数，若没有 return 语句则报错
-    if (!hasReturn && returnType !== "void") {
-      const message = `有返回值: ${returnType} 的函数缺少 return 语句。`;
-      return accept(
+  /**
+   * 检查 return 语句的返回值与函数类型一致
+   */
+  private checkReturnValue(
+    func: FuncDef,
+    returnStmt: Stmtreturn,
+    accept: ValidationAcceptor
+  ): void {
+    const returnType = func.functype;
+
+    // 检查有返回值的函数，若 return为空 则报错
+    if (returnType !== "void" && returnStmt.tobereturn === undefined) {
+      const message = `有返回值: ${returnType} 的函数不应返回为空。`;
+      accept(
         "error",
         this.errorMessageProvider.getSafeEnhancedMessage(message),
         {
-          node: func,
-          property: "functype",
-          code: ERROR_CODES.MISSING_RETURN,
+          node: returnStmt,
+          property: undefined,
+          code: ERROR_CODES.EMPTY_RETURN,
           data: {
-            explanation: "有返回值的函数必须包含return语句",
-            suggestion: `添加 'return <${returnType}类型的值>;' 语句`,
+            explanation: "有返回值的函数必须在return语句中提供一个值",
+            suggestion: `将 'return;' 改为 'return <${returnType}类型的值>;'`,
             category: ErrorCategory.FUNCTION,
             returnType: returnType,
             functionName: func.name,
@@ -269,49 +447,24 @@ export class FuncValidator {
       );
     }
 
-    // 检查有返回值的函数，若 return为空 则报错
-    if (hasReturn && returnType !== "void") {
-      if (actuallReturnType === undefined) {
-        const message = `有返回值: ${returnType} 的函数不应返回为空。`;
-        return accept(
-          "error",
-          this.errorMessageProvider.getSafeEnhancedMessage(message),
-          {
-            node: block,
-            property: undefined,
-            code: ERROR_CODES.EMPTY_RETURN,
-            data: {
-              explanation: "有返回值的函数必须在return语句中提供一个值",
-              suggestion: `将 'return;' 改为 'return <${returnType}类型的值>;'`,
-              category: ErrorCategory.FUNCTION,
-              returnType: returnType,
-              functionName: func.name,
-            },
-          }
-        );
-      }
-    }
-
     // 检查void函数不应返回值
-    if (hasReturn && returnType === "void") {
-      if (actuallReturnType !== undefined) {
-        const message = `void 函数不应存在非空返回值。`;
-        accept(
-          "error",
-          this.errorMessageProvider.getSafeEnhancedMessage(message),
-          {
-            node: block,
-            property: undefined,
-            code: ERROR_CODES.VOID_RETURN_VALUE,
-            data: {
-              explanation: "void类型的函数不应该有返回值",
-              suggestion: "移除return语句中的表达式或使用'return;'",
-              category: ErrorCategory.FUNCTION,
-              functionName: func.name,
-            },
-          }
-        );
-      }
+    if (returnType === "void" && returnStmt.tobereturn !== undefined) {
+      const message = `void 函数不应存在非空返回值。`;
+      accept(
+        "error",
+        this.errorMessageProvider.getSafeEnhancedMessage(message),
+        {
+          node: returnStmt,
+          property: undefined,
+          code: ERROR_CODES.VOID_RETURN_VALUE,
+          data: {
+            explanation: "void类型的函数不应该有返回值",
+            suggestion: "移除return语句中的表达式或使用'return;'",
+            category: ErrorCategory.FUNCTION,
+            functionName: func.name,
+          },
+        }
+      );
     }
   }
 
@@ -319,9 +472,13 @@ export class FuncValidator {
    * 检查变量定义类型是否符合返回类型
    */
   checkDefTypeMatchFuncReturnType(
-    funcFparam: FuncRParams,
+    funcFparam: FunctionCall,
     accept: ValidationAcceptor
   ): void {
+    // 单独作为语句的调用不使用返回值，如 putint(x);
+    if (isStmtExp(funcFparam.$container)) {
+      return;
+    }
     // 所调用的函数的返回类型
     let tarReturnType = funcFparam.funcname.ref?.functype;
     if (tarReturnType === "void") {
@@ -7,6 +7,9 @@ import {
     LangiumSharedServices,
     PartialLangiumServices,
 } from "langium/lsp";
+import { SysyConstEvaluator } from "./const-evaluator.js";
+import { SysyControlFlowAnalyzer } from "./control-flow.js";
+import { ControlFlowValidator } from "./control-flow-validator.js";
 import { DeclValidator } from "./decl-validator.js";
 import { ErrorMessageProvider } from "./error-message-provider.js";
 import { SysyFormattingService } from "./formatting-provider.js";
@@ -23,15 +26,26 @@ import { SysyHoverProvider } from "./hover-provider.js";
 import { SysyQuickFixProvider } from "./quickfix-provider.js";
 import { SysyRefactorProvider } from "./refactor-provider.js";
 import { SysyRenameProvider } from "./rename-provider.js";
+import { SysyScopeComputation } from "./scope-computation.js";
+import { SysyScopeProvider } from "./scope-provider.js";
+import { SysyTypeInferrer } from "./type-inferrer.js";
+import { TypeValidator } from "./type-validator.js";
 
 /**
  * Declaration of custom services - add your own service classes here.
  */
 export type HelloWorldAddedServices = {
+  evaluation: {
+    ConstEvaluator: SysyConstEvaluator;
+    TypeInferrer: SysyTypeInferrer;
+    ControlFlowAnalyzer: SysyControlFlowAnalyzer;
+  };
   validation: {
     HelloWorldValidator: HelloWorldValidator;
     DeclValidator: DeclValidator;
     FuncValidator: FuncValidator;
+    TypeValidator: TypeValidator;
+    ControlFlowValidator: ControlFlowValidator;
     ErrorMessageProvider: ErrorMessageProvider;
   };
   lsp: {
@@ -58,12 +72,30 @@ export const HelloWorldModule: Module<
   HelloWorldServices,
   PartialLangiumServices & HelloWorldAddedServices
 > = {
+  references: {
+    ScopeComputation: (services: HelloWorldServices) =>
+      new SysyScopeComputation(services),
+    ScopeProvider: (services: HelloWorldServices) =>
+      new SysyScopeProvider(services),
+  },
+  evaluation: {
+    ConstEvaluator: (services: HelloWorldServices) =>
+      new SysyConstEvaluator(services),
+    TypeInferrer: (services: HelloWorldServices) =>
+      new SysyTypeInferrer(services),
+    ControlFlowAnalyzer: (services: HelloWorldServices) =>
+      new SysyControlFlowAnalyzer(services),
+  },
   validation: {
     HelloWorldValidator: () => new HelloWorldValidator(),
     DeclValidator: (services: HelloWorldServices) =>
       new DeclValidator(services),
     FuncValidator: (services: HelloWorldServices) =>
       new FuncValidator(services),
+    TypeValidator: (services: HelloWorldServices) =>
+      new TypeValidator(services),
+    ControlFlowValidator: (services: HelloWorldServices) =>
+      new ControlFlowValidator(services),
     ErrorMessageProvider: () => new ErrorMessageProvider(),
   },
   lsp: {
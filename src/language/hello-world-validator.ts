@@ -12,34 +12,73 @@ export function registerValidationChecks(services: HelloWorldServices) {
   const declValidator = services.validation.DeclValidator;
   // Func文法相关的检查器
   const funcValidator = services.validation.FuncValidator;
+  // 表达式类型检查器
+  const typeValidator = services.validation.TypeValidator;
+  // 基于控制流图的检查器
+  const controlFlowValidator = services.validation.ControlFlowValidator;
 
   // 绑定检查方法到验证器实例
   const checks: ValidationChecks<HelloWorldAstType> = {
     // 变量定义唯一性检查
     Decl: declValidator.checkUniqueDef.bind(declValidator),
-    // 数组越界悬浮提示
-    VarDef: declValidator.hoverTipsArray.bind(declValidator),
+    // 数组初值的形状检查以及数组长度必须是常量表达式的检查
+    VarDef: [
+      declValidator.checkInitializerShape.bind(declValidator),
+      declValidator.checkConstantExpressions.bind(declValidator),
+    ],
+    FuncFParam: declValidator.checkConstantExpressions.bind(declValidator),
     // 左值悬停提示以及声明检查
     VariableLVal: [
       declValidator.hoverTipsLval.bind(declValidator),
       declValidator.checkVariableDeclared.bind(declValidator),
+      typeValidator.checkIndexing.bind(typeValidator),
+      declValidator.checkIndexBounds.bind(declValidator),
+    ],
+    ConstantLVal: [
+      typeValidator.checkIndexing.bind(typeValidator),
+      declValidator.checkIndexBounds.bind(declValidator),
     ],
 
-    // 函数参数悬浮提示、声明检查
-    // 函数参数数量匹配检查
-    // 函数返回值为空的赋值检查
+    // 函数参数悬浮提示、实参类型检查
     FuncRParams: [
       funcValidator.hoverTipsFunc.bind(funcValidator),
+      typeValidator.checkArgumentTypes.bind(typeValidator),
+    ],
+    // 函数声明检查、参数数量匹配检查以及函数返回值为空的赋值检查
+    // FuncRParams 是 FunctionCall 的子类型，注册在 FunctionCall 上的检查对有实参的调用同样生效
+    FunctionCall: [
+      funcValidator.checkFunctionDeclared.bind(funcValidator),
       funcValidator.checkFunctionParameterMismatch.bind(funcValidator),
       funcValidator.checkDefTypeMatchFuncReturnType.bind(funcValidator),
     ],
-    FunctionCall: funcValidator.checkFunctionDeclared.bind(funcValidator),
-    // 函数定义唯一性检查
-    CompUnit: [funcValidator.checkUniqueFuncName.bind(funcValidator)],
-    // break、continue合法性检测以及函数是否存在返回值的检查
+    // 运算、赋值、返回值、条件和初值的类型检查
+    BinExpr: typeValidator.checkBinaryOperands.bind(typeValidator),
+    NumberLiteral: typeValidator.checkNumberLiteral.bind(typeValidator),
+    StmtLval: [
+      typeValidator.checkAssignment.bind(typeValidator),
+      declValidator.checkConstAssignment.bind(declValidator),
+    ],
+    Stmtreturn: typeValidator.checkScalarUse.bind(typeValidator),
+    Stmtelif: typeValidator.checkScalarUse.bind(typeValidator),
+    Stmtwhile: typeValidator.checkScalarUse.bind(typeValidator),
+    InitVal: typeValidator.checkScalarUse.bind(typeValidator),
+    ConstDef: [
+      declValidator.checkInitializerShape.bind(declValidator),
+      declValidator.checkConstantExpressions.bind(declValidator),
+      typeValidator.checkScalarUse.bind(typeValidator),
+    ],
+    // 函数定义唯一性检查、程序入口检查以及未使用符号的检查
+    CompUnit: [
+      funcValidator.checkUniqueFuncName.bind(funcValidator),
+      funcValidator.checkMainFunction.bind(funcValidator),
+      declValidator.checkUnusedSymbols.bind(declValidator),
+    ],
+    // break、continue合法性检测、函数是否存在返回值、不可达代码以及变量未赋值就使用的检查
     FuncDef: [
       funcValidator.checkBreakContinueInNonLoopBlocks.bind(funcValidator),
       funcValidator.checkFunctionReturnType.bind(funcValidator),
+      controlFlowValidator.checkUnreachableCode.bind(controlFlowValidator),
+      controlFlowValidator.checkUninitializedUse.bind(controlFlowValidator),
     ],
   };
 
@@ -8,16 +8,29 @@ import {
   TextDocumentPositionParams,
 } from "vscode-languageserver";
 import {
+  ConstDef,
+  Exp,
   FuncDef,
   FuncFParam,
+  NumberLiteral,
   VariableLVal,
   VarDef,
-  isConstExp,
+  isConstDef,
   isFuncDef,
   isFuncFParam,
+  isFuncRParams,
+  isFunctionCall,
+  isNumberLiteral,
   isVariableLVal,
   isVarDef,
 } from "./generated/ast.js";
+import {
+  invalidOctalDigit,
+  isNegatedLiteral,
+  parseIntegerLiteral,
+  parseNumber,
+} from "../compiler/semantic.js";
+import { isBuiltinLibraryNode } from "./builtin-library.js";
 import { HelloWorldServices } from "./hello-world-module.js";
 
 /**
@@ -181,6 +194,16 @@ export class SysyHoverProvider {
       return this.buildFunctionHoverContent(node);
     }
 
+    // 函数调用悬浮提示，包括运行时库函数
+    if ((isFunctionCall(node) || isFuncRParams(node)) && node.funcname.ref) {
+      return this.buildFunctionHoverContent(node.funcname.ref);
+    }
+
+    // 常量定义悬浮提示
+    if (isConstDef(node)) {
+      return this.buildConstDefHoverContent(node);
+    }
+
     // 变量定义悬浮提示
     if (isVarDef(node)) {
       return this.buildVarDefHoverContent(node);
@@ -191,6 +214,11 @@ export class SysyHoverProvider {
       return this.buildFuncParamHoverContent(node);
     }
 
+    // 数值字面量悬浮提示
+    if (isNumberLiteral(node)) {
+      return this.buildNumberLiteralHoverContent(node);
+    }
+
     return undefined;
   }
 
@@ -205,6 +233,11 @@ export class SysyHoverProvider {
       return undefined;
     }
 
+    // 常量引用显示常量的值
+    if (isConstDef(ref)) {
+      return this.buildConstDefHoverContent(ref);
+    }
+
     let content = "";
     let detail = "";
 
@@ -257,15 +290,7 @@ export class SysyHoverProvider {
       // 添加数组信息（如果有）
       if (ref.index && ref.index.length > 0) {
         detail += "[]";
-        content += "\n\n这是一个数组变量";
-        if (ref.index.length === 1) {
-          const size = ref.index[0];
-          if (size && isConstExp(size) && size.$cstNode) {
-            content += `，大小为 ${size.$cstNode.text}`;
-          }
-        } else if (ref.index.length > 1) {
-          content += `，维度为 ${ref.index.length}`;
-        }
+        content += `\n\n这是一个数组变量，${this.describeDims(ref.index)}`;
       }
 
       // 添加初始化信息（如果有）
@@ -304,7 +329,8 @@ export class SysyHoverProvider {
 
     // 构建悬浮内容
     const detail = `(函数) ${node.name}(${params}): ${returnType}`;
-    let content = `函数定义\n\n返回类型: ${returnType}\n\n参数列表:\n`;
+    const kind = isBuiltinLibraryNode(node) ? "运行时库函数（sylib）" : "函数定义";
+    let content = `${kind}\n\n返回类型: ${returnType}\n\n参数列表:\n`;
 
     // 添加参数详情
     if (node.funcFparam.length > 0) {
@@ -383,12 +409,7 @@ export class SysyHoverProvider {
     // 添加数组信息
     if (node.index && node.index.length > 0) {
       detail += "[]";
-      content += "\n\n这是一个数组变量";
-      if (node.index.length === 1) {
-        content += `，维度为 1`;
-      } else if (node.index.length > 1) {
-        content += `，维度为 ${node.index.length}`;
-      }
+      content += `\n\n这是一个数组变量，${this.describeDims(node.index)}`;
     }
 
     // 添加初始化信息
@@ -402,6 +423,84 @@ export class SysyHoverProvider {
     };
   }
 
+  /**
+   * 构建常量定义的悬浮提示，显示编译期求出的值
+   */
+  private buildConstDefHoverContent(node: ConstDef): MarkupContent {
+    const constType = (node.$container as { btype: string }).btype;
+    let detail = `(常量) ${node.name}: ${constType}`;
+    let content = `常量定义\n\n类型: ${constType}`;
+
+    if (node.index.length > 0) {
+      detail += "[]";
+      content += `\n\n这是一个常量数组，${this.describeDims(node.index)}`;
+    } else {
+      const values = this.getDocumentServices().evaluation.ConstEvaluator.constantValues(node);
+      if (values) {
+        const text = this.formatValue(constType, values[0].value);
+        detail += ` = ${text}`;
+        content += `\n\n值: ${text}`;
+      }
+    }
+
+    return {
+      kind: MarkupKind.Markdown,
+      value: `**${detail}**\n\n${content}`,
+    };
+  }
+
+  /**
+   * 构建数值字面量的悬浮提示，显示解析得到的值
+   * 超出 int 范围的整数显示字面量本身的值，并说明按 32 位截断后实际使用的值；
+   * 含有无效数字的八进制字面量没有确定的值，只说明错误原因
+   */
+  private buildNumberLiteralHoverContent(node: NumberLiteral): MarkupContent {
+    const digit = invalidOctalDigit(node.value);
+    if (digit) {
+      return {
+        kind: MarkupKind.Markdown,
+        value: `**(字面量) ${node.value}: int**\n\n数值字面量\n\n类型: int\n\n八进制字面量中含有无效的数字 '${digit}'，没有确定的值`,
+      };
+    }
+
+    const constant = parseNumber(node.value);
+    const value =
+      constant.type === "int" ? parseIntegerLiteral(node.value) : constant.value;
+    const text = this.formatValue(constant.type, value);
+    let content = `数值字面量\n\n类型: ${constant.type}\n\n值: ${text}`;
+
+    if (constant.type === "float" && !isFinite(value)) {
+      content += "\n\n超出了 float 的表示范围";
+    } else if (value === 2147483648 && isNegatedLiteral(node)) {
+      content += "\n\n与前面的负号一起表示 int 的最小值 -2147483648";
+    } else if (value !== constant.value) {
+      content += `\n\n超出了 int 的表示范围，截断为 ${constant.value}`;
+    }
+
+    return {
+      kind: MarkupKind.Markdown,
+      value: `**(字面量) ${node.value}: ${constant.type} = ${text}**\n\n${content}`,
+    };
+  }
+
+  /**
+   * 数值的文字表示，float 按单精度的有效位数显示
+   */
+  private formatValue(type: string, value: number): string {
+    return type === "float" ? `${parseFloat(value.toPrecision(7))}` : `${value}`;
+  }
+
+  /**
+   * 描述数组各维的长度，长度不是编译期常量时只给出维数
+   */
+  private describeDims(index: Exp[]): string {
+    const dims = this.getDocumentServices().evaluation.ConstEvaluator.evaluateDims(index);
+    if (dims) {
+      return `大小为 ${dims.map((dim) => `[${dim}]`).join("")}`;
+    }
+    return `维度为 ${index.length}`;
+  }
+
   /**
    * 构建函数参数的悬浮提示
    */
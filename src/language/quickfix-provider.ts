@@ -33,6 +33,18 @@ export const ERROR_CODES = {
   MISSING_SEMICOLON: "missing-semicolon",
   UNMATCHED_BRACKETS: "unmatched-brackets",
   UNUSED_VARIABLE: "unused-variable",
+  INVALID_INITIALIZER: "invalid-initializer",
+  UNREACHABLE_CODE: "unreachable-code",
+  UNREAD_VARIABLE: "unread-variable",
+  UNINITIALIZED_VARIABLE: "uninitialized-variable",
+  ARRAY_INDEX_OUT_OF_BOUNDS: "array-index-out-of-bounds",
+  ASSIGN_TO_CONST: "assign-to-const",
+  NON_CONSTANT_EXPRESSION: "non-constant-expression",
+  MISSING_MAIN: "missing-main",
+  MAIN_RETURN_TYPE: "main-return-type",
+  MAIN_PARAMETERS: "main-parameters",
+  NUMBER_OUT_OF_RANGE: "number-out-of-range",
+  INVALID_NUMBER_LITERAL: "invalid-number-literal",
 };
 
 // QuickFix 类型，用于根据修复类型提供不同的操作选项
@@ -164,6 +176,7 @@ function getQuickFixType(errorCode: string): QuickFixType {
       return QuickFixType.RENAME;
 
     case ERROR_CODES.ARRAY_SIZE_OVERFLOW:
+    case ERROR_CODES.ARRAY_INDEX_OUT_OF_BOUNDS:
       return QuickFixType.CHANGE;
 
     case ERROR_CODES.PARAMETER_MISMATCH:
@@ -174,8 +187,15 @@ function getQuickFixType(errorCode: string): QuickFixType {
 
     case ERROR_CODES.MISSING_RETURN:
     case ERROR_CODES.EMPTY_RETURN:
+    case ERROR_CODES.MISSING_MAIN:
       return QuickFixType.ADD;
 
+    case ERROR_CODES.MAIN_RETURN_TYPE:
+      return QuickFixType.CHANGE;
+
+    case ERROR_CODES.MAIN_PARAMETERS:
+      return QuickFixType.REMOVE;
+
     case ERROR_CODES.VOID_RETURN_VALUE:
       return QuickFixType.REMOVE;
 
@@ -183,6 +203,13 @@ function getQuickFixType(errorCode: string): QuickFixType {
       return QuickFixType.CHANGE;
 
     case ERROR_CODES.TYPE_MISMATCH:
+    case ERROR_CODES.NUMBER_OUT_OF_RANGE:
+    case ERROR_CODES.INVALID_NUMBER_LITERAL:
+      return QuickFixType.CHANGE;
+
+    case ERROR_CODES.UNINITIALIZED_VARIABLE:
+    case ERROR_CODES.ASSIGN_TO_CONST:
+    case ERROR_CODES.NON_CONSTANT_EXPRESSION:
       return QuickFixType.CHANGE;
 
     // 新增错误类型修复类型
@@ -193,6 +220,8 @@ function getQuickFixType(errorCode: string): QuickFixType {
       return QuickFixType.FIX_SYNTAX;
 
     case ERROR_CODES.UNUSED_VARIABLE:
+    case ERROR_CODES.UNREAD_VARIABLE:
+    case ERROR_CODES.UNREACHABLE_CODE:
       return QuickFixType.REMOVE;
 
     default:
@@ -391,6 +420,34 @@ export class SysyQuickFixProvider {
       ERROR_CODES.UNUSED_VARIABLE,
       this.createUnusedVariableFix.bind(this)
     );
+    this.registerCodeFix(
+      ERROR_CODES.UNREACHABLE_CODE,
+      this.createUnreachableCodeFix.bind(this)
+    );
+    this.registerCodeFix(
+      ERROR_CODES.UNINITIALIZED_VARIABLE,
+      this.createUninitializedVariableFix.bind(this)
+    );
+    this.registerCodeFix(
+      ERROR_CODES.ASSIGN_TO_CONST,
+      this.createRemoveConstFix.bind(this)
+    );
+    this.registerCodeFix(
+      ERROR_CODES.NON_CONSTANT_EXPRESSION,
+      this.createRemoveConstFix.bind(this)
+    );
+    this.registerCodeFix(
+      ERROR_CODES.MISSING_MAIN,
+      this.createMissingMainFix.bind(this)
+    );
+    this.registerCodeFix(
+      ERROR_CODES.MAIN_RETURN_TYPE,
+      this.createMainReturnTypeFix.bind(this)
+    );
+    this.registerCodeFix(
+      ERROR_CODES.MAIN_PARAMETERS,
+      this.createMainParametersFix.bind(this)
+    );
 
     // 基于消息内容的注册（作为备选）
     this.registerMessageFix(
@@ -619,6 +676,11 @@ export class SysyQuickFixProvider {
             this.createAppendReturnFix(diagnostic, document)
           );
           break;
+        case ERROR_CODES.ASSIGN_TO_CONST:
+          additionalActions.push(
+            this.createIntroduceVariableFix(diagnostic, document)
+          );
+          break;
       }
       return additionalActions;
     }
@@ -1011,7 +1073,9 @@ export class SysyQuickFixProvider {
     if (!callMatch) return undefined;
 
     const funcName = callMatch[1];
-    const params = callMatch[2].split(",").map((p) => p.trim());
+    const params = callMatch[2].trim()
+      ? callMatch[2].split(",").map((p) => p.trim())
+      : [];
 
     let newParams: string[];
     let title: string;
@@ -1125,6 +1189,27 @@ export class SysyQuickFixProvider {
   ): CodeAction | undefined {
     const match = diagnostic.message.match(/有返回值:\s*(\w+)\s*的函数缺少/);
     const returnType = match?.[1] || "int";
+    const defaultValue = returnType === "float" ? "0.0" : "0";
+
+    // 控制流分析给出了插入位置时，直接在该位置之后插入
+    const insertPosition: Position | undefined = diagnostic.data?.insertPosition;
+    if (insertPosition) {
+      return {
+        title: `在函数结尾添加 return ${defaultValue};`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        edit: {
+          changes: {
+            [document.uri.toString()]: [
+              TextEdit.insert(
+                insertPosition,
+                `\n${diagnostic.data.indentation ?? ""}return ${defaultValue};`
+              ),
+            ],
+          },
+        },
+      };
+    }
 
     // 查找函数的末尾大括号位置
     const text = document.textDocument.getText();
@@ -1396,6 +1481,26 @@ export class SysyQuickFixProvider {
     diagnostic: Diagnostic,
     document: LangiumDocument
   ): CodeAction | undefined {
+    // 由 DeclValidator 报告的诊断给出了准确的删除范围，范围为 null 时删除会改变程序的行为
+    if (diagnostic.data && "removeRange" in diagnostic.data) {
+      const removeRange: Range | null = diagnostic.data.removeRange;
+      if (!removeRange) {
+        return undefined;
+      }
+      return {
+        title: `删除未使用的${diagnostic.data.symbolKind} '${diagnostic.data.variableName}'`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        edit: {
+          changes: {
+            [document.uri.toString()]: [
+              TextEdit.del(this.expandToWholeLines(document, removeRange)),
+            ],
+          },
+        },
+      };
+    }
+
     try {
       const uri = document.uri;
       const params = extractContextParams(diagnostic, document);
@@ -1459,6 +1564,200 @@ export class SysyQuickFixProvider {
     }
   }
 
+  /**
+   * 要删除的内容独占若干行时，把范围扩展为这些整行，避免留下空行
+   */
+  private expandToWholeLines(document: LangiumDocument, range: Range): Range {
+    const textDocument = document.textDocument;
+    const before = textDocument.getText({
+      start: { line: range.start.line, character: 0 },
+      end: range.start,
+    });
+    const after = textDocument.getText({
+      start: range.end,
+      end: { line: range.end.line + 1, character: 0 },
+    });
+    if (before.trim() || after.trim()) {
+      return range;
+    }
+    return {
+      start: { line: range.start.line, character: 0 },
+      end: { line: range.end.line + 1, character: 0 },
+    };
+  }
+
+  /**
+   * 删除永远不会执行的语句
+   * 死分支会把整条条件语句替换为另一个分支
+   */
+  private createUnreachableCodeFix(
+    diagnostic: Diagnostic,
+    document: LangiumDocument
+  ): CodeAction | undefined {
+    const removeRange: Range | undefined = diagnostic.data?.removeRange;
+    if (!removeRange) {
+      return undefined;
+    }
+    const replacement: string = diagnostic.data.replacement ?? "";
+    const range = replacement
+      ? removeRange
+      : this.expandToWholeLines(document, removeRange);
+
+    return {
+      title: replacement ? "删除永远不会执行的分支" : "删除永远不会执行的语句",
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: {
+        changes: {
+          [document.uri.toString()]: [TextEdit.replace(range, replacement)],
+        },
+      },
+    };
+  }
+
+  /**
+   * 在变量的定义处初始化为 0
+   */
+  private createUninitializedVariableFix(
+    diagnostic: Diagnostic,
+    document: LangiumDocument
+  ): CodeAction | undefined {
+    const insertPosition: Position | undefined = diagnostic.data?.insertPosition;
+    if (!insertPosition) {
+      return undefined;
+    }
+    return {
+      title: `将变量 '${diagnostic.data.variableName}' 初始化为 0`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: {
+        changes: {
+          [document.uri.toString()]: [TextEdit.insert(insertPosition, " = 0")],
+        },
+      },
+    };
+  }
+
+  /**
+   * 去掉常量定义中的 const，把常量改为变量
+   */
+  private createRemoveConstFix(
+    diagnostic: Diagnostic,
+    document: LangiumDocument
+  ): CodeAction | undefined {
+    const removeConstRange: Range | undefined = diagnostic.data?.removeConstRange;
+    if (!removeConstRange) {
+      return undefined;
+    }
+    return {
+      title: `去掉 '${diagnostic.data.variableName}' 定义中的 const`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: {
+        changes: {
+          [document.uri.toString()]: [TextEdit.del(removeConstRange)],
+        },
+      },
+    };
+  }
+
+  /**
+   * 把给常量的赋值改为定义一个新变量，之后的使用改为使用新变量
+   */
+  private createIntroduceVariableFix(
+    diagnostic: Diagnostic,
+    document: LangiumDocument
+  ): CodeAction | undefined {
+    const edits: TextEdit[] | undefined = diagnostic.data?.newVariableEdits;
+    if (!edits) {
+      return undefined;
+    }
+    return {
+      title: `引入新变量代替常量 '${diagnostic.data.variableName}'`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: {
+        changes: {
+          [document.uri.toString()]: edits,
+        },
+      },
+    };
+  }
+
+  /**
+   * 在文件末尾生成 main 函数
+   */
+  private createMissingMainFix(
+    diagnostic: Diagnostic,
+    document: LangiumDocument
+  ): CodeAction | undefined {
+    const insertPosition: Position | undefined = diagnostic.data?.insertPosition;
+    if (!insertPosition) {
+      return undefined;
+    }
+    return {
+      title: "添加 main 函数",
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: {
+        changes: {
+          [document.uri.toString()]: [
+            TextEdit.insert(
+              insertPosition,
+              "\n\nint main() {\n    return 0;\n}\n"
+            ),
+          ],
+        },
+      },
+    };
+  }
+
+  /**
+   * 把 main 函数的返回类型改为 int
+   */
+  private createMainReturnTypeFix(
+    diagnostic: Diagnostic,
+    document: LangiumDocument
+  ): CodeAction | undefined {
+    const functypeRange: Range | undefined = diagnostic.data?.functypeRange;
+    if (!functypeRange) {
+      return undefined;
+    }
+    return {
+      title: "将 main 函数的返回类型改为 int",
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: {
+        changes: {
+          [document.uri.toString()]: [TextEdit.replace(functypeRange, "int")],
+        },
+      },
+    };
+  }
+
+  /**
+   * 删除 main 函数的参数
+   */
+  private createMainParametersFix(
+    diagnostic: Diagnostic,
+    document: LangiumDocument
+  ): CodeAction | undefined {
+    const parametersRange: Range | undefined = diagnostic.data?.parametersRange;
+    if (!parametersRange) {
+      return undefined;
+    }
+    return {
+      title: "删除 main 函数的参数",
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: {
+        changes: {
+          [document.uri.toString()]: [TextEdit.del(parametersRange)],
+        },
+      },
+    };
+  }
+
   /**
    * 为空的return语句添加返回值
    */
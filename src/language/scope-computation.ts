@@ -0,0 +1,40 @@
+import {
+  AstNode,
+  DefaultScopeComputation,
+  LangiumDocument,
+  PrecomputedScopes,
+} from "langium";
+import { isBlockItem, isConstDef, isVarDef } from "./generated/ast.js";
+
+/**
+ * SysY 作用域计算
+ * 默认实现会把变量登记到所属的 Decl 节点上，而 Decl 并不是任何引用的祖先节点，
+ * 导致局部变量和全局变量都无法被解析。这里把变量和常量提升到外层的语句块
+ * （Block）或编译单元（CompUnit）上。
+ */
+export class SysyScopeComputation extends DefaultScopeComputation {
+  protected override processNode(
+    node: AstNode,
+    document: LangiumDocument,
+    scopes: PrecomputedScopes
+  ): void {
+    if ((isVarDef(node) || isConstDef(node)) && node.$container) {
+      const name = this.nameProvider.getName(node);
+      if (name) {
+        // Decl 的容器是 BlockItem（局部）或 CompUnit（全局）
+        const declContainer = node.$container.$container;
+        const scopeNode = isBlockItem(declContainer)
+          ? declContainer.$container
+          : declContainer;
+        if (scopeNode) {
+          scopes.add(
+            scopeNode,
+            this.descriptions.createDescription(node, name, document)
+          );
+        }
+      }
+      return;
+    }
+    super.processNode(node, document, scopes);
+  }
+}
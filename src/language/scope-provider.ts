@@ -0,0 +1,122 @@
+import {
+  AstNode,
+  AstNodeDescription,
+  AstUtils,
+  DefaultScopeProvider,
+  LangiumDocumentFactory,
+  MapScope,
+  ReferenceInfo,
+  Scope,
+  Stream,
+  URI,
+  stream,
+} from "langium";
+import { BUILTIN_LIBRARY, BUILTIN_LIBRARY_URI } from "./builtin-library.js";
+import {
+  CompUnit,
+  isConstDef,
+  isConstantLVal,
+  isVarDef,
+  isVariableLVal,
+} from "./generated/ast.js";
+import { HelloWorldServices } from "./hello-world-module.js";
+
+/**
+ * SysY 作用域提供器
+ * 变量和常量按块作用域规则解析：由内向外依次是外层语句块中已经声明的名字、
+ * 函数形参和已经声明的全局变量，内层的声明遮蔽外层的同名声明。
+ * 在工作区的全局作用域之外再套一层运行时库的内置函数，
+ * 这样链接、补全、悬浮提示和参数检查都能看到 getint、putarray 等函数。
+ */
+export class SysyScopeProvider extends DefaultScopeProvider {
+  private readonly documentFactory: LangiumDocumentFactory;
+  private builtinDescriptions: AstNodeDescription[] | undefined;
+
+  constructor(services: HelloWorldServices) {
+    super(services);
+    this.documentFactory = services.shared.workspace.LangiumDocumentFactory;
+  }
+
+  override getScope(context: ReferenceInfo): Scope {
+    if (!isVariableLVal(context.container) && !isConstantLVal(context.container)) {
+      return super.getScope(context);
+    }
+    const scopes: Array<Stream<AstNodeDescription>> = [];
+    const referenceType = this.reflection.getReferenceType(context);
+    const precomputed = AstUtils.getDocument(context.container).precomputedScopes;
+    if (precomputed) {
+      let currentNode: AstNode | undefined = context.container;
+      do {
+        const allDescriptions = precomputed.get(currentNode);
+        if (allDescriptions.length > 0) {
+          scopes.push(
+            stream(allDescriptions).filter(
+              (desc) =>
+                this.reflection.isSubtype(desc.type, referenceType) &&
+                this.isDeclaredBefore(desc, context.container)
+            )
+          );
+        }
+        currentNode = currentNode.$container;
+      } while (currentNode);
+    }
+    let result = this.getGlobalScope(referenceType, context);
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      result = this.createScope(scopes[i], result);
+    }
+    return result;
+  }
+
+  /**
+   * 声明是否在引用处可见
+   * 与 C 相同，名字的作用域从它的声明符之后开始，
+   * 因此初值中可以引用正在定义的名字，而数组长度中不可以。
+   */
+  private isDeclaredBefore(desc: AstNodeDescription, reference: AstNode): boolean {
+    const def = desc.node;
+    if (!(isVarDef(def) || isConstDef(def)) || !def.$cstNode || !reference.$cstNode) {
+      // 形参在整个函数体中可见
+      return true;
+    }
+    for (let node: AstNode | undefined = reference; node; node = node.$container) {
+      if (node.$container === def) {
+        return !(def.index as AstNode[]).includes(node);
+      }
+    }
+    return def.$cstNode.end <= reference.$cstNode.offset;
+  }
+
+  protected override getGlobalScope(
+    referenceType: string,
+    _context: ReferenceInfo
+  ): Scope {
+    return this.globalScopeCache.get(
+      referenceType,
+      () =>
+        new MapScope(
+          this.indexManager.allElements(referenceType),
+          new MapScope(
+            this.getBuiltinDescriptions().filter((desc) =>
+              this.reflection.isSubtype(desc.type, referenceType)
+            )
+          )
+        )
+    );
+  }
+
+  /**
+   * 内置声明文档只解析一次，不加入工作区，因此不会被验证
+   */
+  private getBuiltinDescriptions(): AstNodeDescription[] {
+    if (!this.builtinDescriptions) {
+      const document = this.documentFactory.fromString<CompUnit>(
+        BUILTIN_LIBRARY,
+        URI.parse(BUILTIN_LIBRARY_URI)
+      );
+      this.builtinDescriptions = document.parseResult.value.functions.map(
+        (func) => this.descriptions.createDescription(func, func.name, document)
+      );
+    }
+    return this.builtinDescriptions;
+  }
+}
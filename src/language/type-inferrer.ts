@@ -0,0 +1,128 @@
+import { WorkspaceCache } from "langium";
+import { parseNumber } from "../compiler/semantic.js";
+import { SysyConstEvaluator } from "./const-evaluator.js";
+import {
+  AbstractVariable,
+  Exp,
+  isConstDef,
+  isFuncFParam,
+  isVarDef,
+} from "./generated/ast.js";
+import { HelloWorldServices } from "./hello-world-module.js";
+
+/**
+ * 表达式的类型
+ * base 为 error 表示类型无法确定（例如引用未解析），不再继续报告错误；
+ * dims 为数组剩余各维的长度，标量为空数组，
+ * 长度不是编译期常量或数组形参省略的第一维记为 undefined。
+ */
+export interface SysyType {
+  base: "int" | "float" | "void" | "error";
+  dims: Array<number | undefined>;
+}
+
+export const ERROR_TYPE: SysyType = { base: "error", dims: [] };
+
+/** 类型的文字表示，如 int、float[][3] */
+export function typeToString(type: SysyType): string {
+  return (
+    type.base +
+    type.dims.map((dim) => (dim === undefined ? "[]" : `[${dim}]`)).join("")
+  );
+}
+
+export function isArrayType(type: SysyType): boolean {
+  return type.dims.length > 0;
+}
+
+/**
+ * 表达式类型推导服务
+ * 为 Exp、BinExpr、函数调用和左值计算 int、float、void 或数组类型，
+ * 运算结果按 SysY 的隐式类型转换规则提升为 float。
+ */
+export class SysyTypeInferrer {
+  private readonly constEvaluator: SysyConstEvaluator;
+  private readonly typeCache: WorkspaceCache<Exp, SysyType>;
+
+  constructor(services: HelloWorldServices) {
+    this.constEvaluator = services.evaluation.ConstEvaluator;
+    this.typeCache = new WorkspaceCache(services.shared);
+  }
+
+  /**
+   * 推导表达式的类型
+   */
+  inferType(exp: Exp): SysyType {
+    return this.typeCache.get(exp, () => this.computeType(exp));
+  }
+
+  /**
+   * 变量、常量或形参声明的类型
+   */
+  declaredType(variable: AbstractVariable): SysyType {
+    if (isFuncFParam(variable)) {
+      const dims = variable.array
+        ? [undefined, ...variable.extraExp.map((exp) => this.constEvaluator.evaluateInt(exp))]
+        : [];
+      return { base: variable.btype, dims };
+    }
+    const base = (variable.$container as { btype: "int" | "float" }).btype;
+    return {
+      base,
+      dims: variable.index.map((exp) => this.constEvaluator.evaluateInt(exp)),
+    };
+  }
+
+  private computeType(exp: Exp): SysyType {
+    switch (exp.$type) {
+      case "NumberLiteral":
+        return { base: parseNumber(exp.value).type, dims: [] };
+      case "VariableLVal":
+      case "ConstantLVal": {
+        const ref = exp.value.ref;
+        if (!ref || !(isVarDef(ref) || isConstDef(ref) || isFuncFParam(ref))) {
+          return ERROR_TYPE;
+        }
+        const type = this.declaredType(ref);
+        if (exp.index.length > type.dims.length) {
+          return ERROR_TYPE;
+        }
+        return { base: type.base, dims: type.dims.slice(exp.index.length) };
+      }
+      case "FunctionCall":
+      case "FuncRParams": {
+        const func = exp.funcname.ref;
+        return func ? { base: func.functype, dims: [] } : ERROR_TYPE;
+      }
+      case "BinExpr": {
+        const right = this.inferType(exp.right);
+        if (!exp.left) {
+          if (!this.isScalar(right)) {
+            return ERROR_TYPE;
+          }
+          return exp.operator === "!" ? { base: "int", dims: [] } : right;
+        }
+        const left = this.inferType(exp.left);
+        if (!this.isScalar(left) || !this.isScalar(right)) {
+          return ERROR_TYPE;
+        }
+        if (["<", ">", "<=", ">=", "==", "!=", "&&", "||"].includes(exp.operator)) {
+          return { base: "int", dims: [] };
+        }
+        if (exp.operator === "%" && (left.base === "float" || right.base === "float")) {
+          return ERROR_TYPE;
+        }
+        return {
+          base: left.base === "float" || right.base === "float" ? "float" : "int",
+          dims: [],
+        };
+      }
+    }
+    return ERROR_TYPE;
+  }
+
+  /** 能够参与运算的 int 或 float 标量 */
+  private isScalar(type: SysyType): boolean {
+    return (type.base === "int" || type.base === "float") && type.dims.length === 0;
+  }
+}
@@ -0,0 +1,343 @@
+import { AstNode, ValidationAcceptor } from "langium";
+import {
+  invalidOctalDigit,
+  isNegatedLiteral,
+  parseIntegerLiteral,
+  parseNumber,
+} from "../compiler/semantic.js";
+import {
+  ErrorCategory,
+  ErrorMessageProvider,
+} from "./error-message-provider.js";
+import {
+  BinExpr,
+  ConstDef,
+  ConstInitVal,
+  ConstantLVal,
+  Exp,
+  FuncRParams,
+  InitVal,
+  NumberLiteral,
+  StmtLval,
+  Stmtelif,
+  Stmtreturn,
+  Stmtwhile,
+  VariableLVal,
+} from "./generated/ast.js";
+import { HelloWorldServices } from "./hello-world-module.js";
+import { ERROR_CODES } from "./quickfix-provider.js";
+import {
+  SysyType,
+  SysyTypeInferrer,
+  isArrayType,
+  typeToString,
+} from "./type-inferrer.js";
+
+/**
+ * 实参类型与形参类型不兼容的原因
+ * @returns 兼容时为 undefined；不兼容时为补充在错误信息后的说明，没有额外说明时为空字符串
+ */
+function argumentMismatch(
+  expected: SysyType,
+  actual: SysyType
+): string | undefined {
+  if (!isArrayType(expected)) {
+    return isArrayType(actual) ? "" : undefined;
+  }
+  if (!isArrayType(actual) || actual.base !== expected.base) {
+    return "";
+  }
+  if (actual.dims.length !== expected.dims.length) {
+    return `，数组的维数应为 ${expected.dims.length}，实际为 ${actual.dims.length}`;
+  }
+  // 第一维由调用者决定，形参中省略
+  for (let k = 1; k < expected.dims.length; k++) {
+    const want = expected.dims[k];
+    const got = actual.dims[k];
+    if (want !== undefined && got !== undefined && want !== got) {
+      return `，第 ${k + 1} 维的长度应为 ${want}，实际为 ${got}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 类型检查器，报告表达式中 int、float 与数组之间的类型不匹配
+ * void 返回值的使用由 FuncValidator 检查，这里不重复报告。
+ */
+export class TypeValidator {
+  private errorMessageProvider: ErrorMessageProvider;
+  private typeInferrer: SysyTypeInferrer;
+
+  constructor(services: HelloWorldServices) {
+    this.errorMessageProvider = new ErrorMessageProvider();
+    this.typeInferrer = services.evaluation.TypeInferrer;
+  }
+
+  /**
+   * 检查运算的操作数：数组不能参与运算，'%' 只能用于 int
+   */
+  checkBinaryOperands(expr: BinExpr, accept: ValidationAcceptor): void {
+    const operands = expr.left ? [expr.left, expr.right] : [expr.right];
+    for (const operand of operands) {
+      if (!this.checkScalar(operand, "参与运算", accept)) {
+        return;
+      }
+    }
+    if (expr.operator === "%") {
+      for (const operand of operands) {
+        const type = this.typeInferrer.inferType(operand);
+        if (type.base === "float") {
+          this.reportMismatch(
+            `类型不匹配：运算符 '%' 的操作数必须是 int 类型，实际为 float。`,
+            operand,
+            "int",
+            type,
+            accept
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * 检查下标访问：只有数组可以使用下标，下标个数不能超过数组的维数，下标必须是 int
+   */
+  checkIndexing(
+    lval: VariableLVal | ConstantLVal,
+    accept: ValidationAcceptor
+  ): void {
+    const ref = lval.value.ref;
+    if (ref && lval.index.length > 0) {
+      const declared = this.typeInferrer.declaredType(ref);
+      if (!isArrayType(declared)) {
+        this.reportMismatch(
+          `类型不匹配：'${ref.name}' 的类型为 ${typeToString(declared)}，不是数组，不能使用下标访问。`,
+          lval,
+          "数组",
+          declared,
+          accept
+        );
+      } else if (lval.index.length > declared.dims.length) {
+        this.reportMismatch(
+          `类型不匹配：'${ref.name}' 的类型为 ${typeToString(declared)}，最多只能使用 ${declared.dims.length} 个下标，实际使用了 ${lval.index.length} 个。`,
+          lval,
+          "数组",
+          declared,
+          accept
+        );
+      }
+    }
+    for (const index of lval.index) {
+      if (!this.checkScalar(index, "作为数组下标", accept)) {
+        continue;
+      }
+      const type = this.typeInferrer.inferType(index);
+      if (type.base === "float") {
+        this.reportMismatch(
+          `类型不匹配：数组下标必须是 int 类型，实际为 float。`,
+          index,
+          "int",
+          type,
+          accept
+        );
+      }
+    }
+  }
+
+  /**
+   * 检查实参：数组形参需要元素类型、维数和除第一维外各维长度都相同的数组，标量形参需要 int 或 float
+   * 部分下标的多维数组（如 a[1]）按剩余各维参与比较
+   */
+  checkArgumentTypes(call: FuncRParams, accept: ValidationAcceptor): void {
+    const params = call.funcname.ref?.funcFparam ?? [];
+    call.funcRparams.forEach((arg, i) => {
+      const param = params[i];
+      if (!param) {
+        return;
+      }
+      const expected = this.typeInferrer.declaredType(param);
+      const actual = this.typeInferrer.inferType(arg);
+      if (actual.base === "error" || actual.base === "void") {
+        return;
+      }
+      const reason = argumentMismatch(expected, actual);
+      if (reason !== undefined) {
+        this.reportMismatch(
+          `类型不匹配：函数 '${call.funcname.$refText}' 的第 ${i + 1} 个参数 '${param.name}' 的类型为 ${typeToString(expected)}，实际传入 ${typeToString(actual)}${reason}。`,
+          arg,
+          typeToString(expected),
+          actual,
+          accept
+        );
+      }
+    });
+  }
+
+  /**
+   * 检查数值字面量：八进制不能含有 8 和 9，整数不能超出 int 的范围，浮点数不能超出 float 的范围
+   * 2147483648 只能紧跟在负号之后，表示 int 的最小值
+   */
+  checkNumberLiteral(literal: NumberLiteral, accept: ValidationAcceptor): void {
+    const text = literal.value;
+    const digit = invalidOctalDigit(text);
+    if (digit) {
+      this.reportLiteral(
+        "error",
+        `八进制字面量 '${text}' 中含有无效的数字 '${digit}'，八进制只能使用 0 到 7。`,
+        literal,
+        ERROR_CODES.INVALID_NUMBER_LITERAL,
+        accept
+      );
+      return;
+    }
+    const constant = parseNumber(text);
+    if (constant.type === "float") {
+      if (!isFinite(constant.value)) {
+        this.reportLiteral(
+          "error",
+          `浮点数字面量 '${text}' 超出了 float 的表示范围。`,
+          literal,
+          ERROR_CODES.NUMBER_OUT_OF_RANGE,
+          accept
+        );
+      } else if (constant.value === 0 && parseFloat(text) !== 0) {
+        this.reportLiteral(
+          "warning",
+          `浮点数字面量 '${text}' 太小，会被舍入为 0。`,
+          literal,
+          ERROR_CODES.NUMBER_OUT_OF_RANGE,
+          accept
+        );
+      }
+      return;
+    }
+    const value = parseIntegerLiteral(text);
+    if (value > 2147483647 && !(value === 2147483648 && isNegatedLiteral(literal))) {
+      this.reportLiteral(
+        "error",
+        `整数字面量 '${text}' 超出了 int 的表示范围 [-2147483648, 2147483647]。`,
+        literal,
+        ERROR_CODES.NUMBER_OUT_OF_RANGE,
+        accept
+      );
+    }
+  }
+
+  /**
+   * 检查赋值语句：数组不能整体赋值
+   */
+  checkAssignment(stmt: StmtLval, accept: ValidationAcceptor): void {
+    const target = this.typeInferrer.inferType(stmt.lval);
+    if (isArrayType(target)) {
+      this.reportMismatch(
+        `类型不匹配：不能给类型为 ${typeToString(target)} 的数组 '${stmt.lval.$cstNode?.text}' 整体赋值。`,
+        stmt.lval,
+        target.base,
+        target,
+        accept
+      );
+      return;
+    }
+    this.checkScalar(stmt.expr1, "用于赋值", accept);
+  }
+
+  /**
+   * 检查返回值、条件和初值中的表达式都是标量
+   */
+  checkScalarUse(
+    node: Stmtreturn | Stmtelif | Stmtwhile | InitVal | ConstDef,
+    accept: ValidationAcceptor
+  ): void {
+    switch (node.$type) {
+      case "Stmtreturn":
+        if (node.tobereturn) {
+          this.checkScalar(node.tobereturn, "作为返回值", accept);
+        }
+        break;
+      case "Stmtelif":
+      case "Stmtwhile":
+        this.checkScalar(node.condition, "作为条件", accept);
+        break;
+      case "InitVal":
+        node.singleInit.forEach((exp) =>
+          this.checkScalar(exp, "作为初值", accept)
+        );
+        break;
+      default:
+        // ConstDef 的初值直接展开在定义节点上，嵌套的初值是 ConstInitVal
+        (node as ConstInitVal).singleCInit.forEach((exp) =>
+          this.checkScalar(exp, "作为初值", accept)
+        );
+    }
+  }
+
+  /**
+   * 数组不能作为标量使用
+   * @returns 表达式是否可以作为标量使用
+   */
+  private checkScalar(
+    exp: Exp,
+    usage: string,
+    accept: ValidationAcceptor
+  ): boolean {
+    const type = this.typeInferrer.inferType(exp);
+    if (isArrayType(type)) {
+      this.reportMismatch(
+        `类型不匹配：类型为 ${typeToString(type)} 的数组不能${usage}。`,
+        exp,
+        type.base,
+        type,
+        accept
+      );
+      return false;
+    }
+    return true;
+  }
+
+  private reportLiteral(
+    severity: "error" | "warning",
+    message: string,
+    literal: NumberLiteral,
+    code: string,
+    accept: ValidationAcceptor
+  ): void {
+    accept(
+      severity,
+      this.errorMessageProvider.getSafeEnhancedMessage(message),
+      {
+        node: literal,
+        code,
+        data: {
+          explanation: "int 为 32 位有符号整数，float 为单精度浮点数，字面量的值必须能够用对应的类型表示",
+          suggestion: "检查字面量的数字和进制前缀",
+          category: ErrorCategory.TYPE,
+        },
+      }
+    );
+  }
+
+  private reportMismatch(
+    message: string,
+    node: AstNode,
+    expectedType: string,
+    actual: SysyType,
+    accept: ValidationAcceptor
+  ): void {
+    accept(
+      "error",
+      this.errorMessageProvider.getSafeEnhancedMessage(message),
+      {
+        node,
+        code: ERROR_CODES.TYPE_MISMATCH,
+        data: {
+          explanation: "表达式的类型与使用它的位置要求的类型不一致",
+          suggestion: "检查变量的类型、数组的下标个数以及函数的参数类型",
+          category: ErrorCategory.TYPE,
+          expectedType,
+          actualType: typeToString(actual),
+        },
+      }
+    );
+  }
+}
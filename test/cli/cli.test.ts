@@ -0,0 +1,52 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { compileAction, type CompileOptions } from "../../src/cli/main.js";
+
+let directory: string;
+
+beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'sysy-cli-'));
+});
+
+afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+});
+
+describe('compile command', () => {
+
+    const program = `
+        int main() {
+            int a = 2 * 3;
+            putint(a + 1);
+            return 0;
+        }
+    `;
+
+    test('-S allocates registers by default', async () => {
+        const asm = await compile(program, { S: true });
+        expect(asm).toMatch(/\.Lmain\.entry:\n\tli t0, 2\n\tli t1, 3\n\tmulw t3, t0, t1\n/);
+    });
+
+    test('--regalloc none generates stack-based code straight from the AST', async () => {
+        const riscv = await compile(program, { S: true, regalloc: 'none' });
+        // 栈式求值：中间结果先存到栈上，再取回参与运算
+        expect(riscv).toMatch(/\tli t0, 2\n\tsd t0, -32\(s0\)\n\tli t0, 3\n\tld t1, -32\(s0\)\n\tmulw t0, t1, t0\n/);
+        expect(riscv).not.toContain('.Lmain.entry:');
+        const arm = await compile(program, { S: true, target: 'armv7', regalloc: 'none' });
+        expect(arm).toContain('\tbl putint\n');
+        expect(arm).not.toContain('.Lmain.entry:');
+    });
+
+});
+
+/** 把程序写入临时文件，用 compile 命令编译，返回生成的文件内容 */
+async function compile(code: string, opts: CompileOptions): Promise<string> {
+    const name = `program-${Math.random().toString(36).slice(2)}`;
+    const source = path.join(directory, `${name}.sys`);
+    const output = path.join(directory, `${name}.s`);
+    await fs.writeFile(source, code);
+    await compileAction(source, { ...opts, output });
+    return fs.readFile(output, 'utf-8');
+}
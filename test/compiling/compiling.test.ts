@@ -0,0 +1,323 @@
+import { EmptyFileSystem, type LangiumDocument } from "langium";
+import { parseHelper } from "langium/test";
+import { beforeAll, describe, expect, test } from "vitest";
+import { generateLlvm } from "../../src/compiler/llvm-generator.js";
+import { generateRiscv } from "../../src/compiler/riscv-generator.js";
+import { generateArm } from "../../src/compiler/arm-generator.js";
+import { CompileError } from "../../src/compiler/semantic.js";
+import { CompUnit } from "../../src/language/generated/ast.js";
+import { createHelloWorldServices } from "../../src/language/hello-world-module.js";
+
+let services: ReturnType<typeof createHelloWorldServices>;
+let parse:    ReturnType<typeof parseHelper<CompUnit>>;
+
+beforeAll(async () => {
+    services = createHelloWorldServices(EmptyFileSystem);
+    parse = parseHelper<CompUnit>(services.HelloWorld);
+});
+
+describe('LLVM IR backend', () => {
+
+    test('globals are initialized with folded constants', async () => {
+        const ir = await compile(`
+            const int N = 2;
+            const float HALF = 0.5;
+            int a[N][N + 1] = {{1}, 2, N * 3};
+            float f = HALF * 3;
+            int z;
+            int main() { return a[1][1]; }
+        `);
+        expect(ir).toContain('@a = dso_local global [2 x [3 x i32]] [[3 x i32] [i32 1, i32 0, i32 0], [3 x i32] [i32 2, i32 6, i32 0]]');
+        expect(ir).toContain('@f = dso_local global float 0x3FF8000000000000');
+        expect(ir).toContain('@z = dso_local global i32 0');
+        // 标量常量直接折叠，不占用存储
+        expect(ir).not.toContain('@N');
+        expect(ir).toContain('getelementptr inbounds [2 x [3 x i32]], ptr @a, i32 0, i32 1, i32 1');
+    });
+
+    test('locals use entry block allocas and array parameters decay to pointers', async () => {
+        const ir = await compile(`
+            int sum(int m[][3], int r) { return m[r][0] + m[r][2]; }
+            int main() {
+                int x = 1;
+                int b[2][3] = {1, 2, 3, {4}};
+                while (x < 3) { int x = 5; b[0][0] = x; }
+                return sum(b, 1) + sum(b[0], 0);
+            }
+        `);
+        expect(ir).toContain('define dso_local i32 @sum(ptr noundef %m, i32 noundef %r) {');
+        expect(ir).toContain('%r.addr = alloca i32');
+        expect(ir).toMatch(/getelementptr inbounds \[3 x i32\], ptr %m, i32 %\.\d+, i32 0/);
+        const entry = ir.slice(ir.indexOf('define dso_local i32 @main'));
+        expect(entry).toMatch(/entry:\n {2}%x = alloca i32\n {2}%b = alloca \[2 x \[3 x i32\]\]\n {2}%x\.1 = alloca i32\n/);
+        expect(ir).toContain('call void @llvm.memset.p0.i32(ptr %b, i8 0, i32 24, i1 false)');
+        expect(ir).toContain('getelementptr inbounds [2 x [3 x i32]], ptr %b, i32 0, i32 1, i32 0');
+        expect(ir).toContain('declare void @llvm.memset.p0.i32(ptr, i8, i32, i1)');
+    });
+
+    test('int and float values are converted implicitly', async () => {
+        const ir = await compile(`
+            float scale(float v) { return v * 2; }
+            int main() {
+                int i = scale(3);
+                float f = i / 2;
+                return f;
+            }
+        `);
+        expect(ir).toContain('call float @scale(float 0x4008000000000000)');
+        expect(ir).toMatch(/fmul float %\.\d+, 0x4000000000000000/);
+        expect(ir).toMatch(/fptosi float %\.\d+ to i32/);
+        expect(ir).toMatch(/sdiv i32 %\.\d+, 2/);
+        expect(ir).toMatch(/sitofp i32 %\.\d+ to float/);
+    });
+
+    test('logical operators short-circuit', async () => {
+        const ir = await compile(`
+            int main() {
+                int a = getint(), b = 0;
+                if (a > 0 && b < 1 || !a) b = 1;
+                return b;
+            }
+        `);
+        expect(ir).toContain('declare i32 @getint()');
+        expect(ir).toMatch(/icmp sgt i32 %\.\d+, 0\n {2}br i1 %\.\d+, label %land\.rhs\.\d+, label %lor\.rhs\.\d+/);
+        // !a 交换了真假出口
+        expect(ir).toMatch(/icmp ne i32 %\.\d+, 0\n {2}br i1 %\.\d+, label %if\.end\.\d+, label %if\.then\.\d+/);
+    });
+
+    test('code after return gets its own block and missing returns default to zero', async () => {
+        const ir = await compile(`
+            void f() { return; putint(1); }
+            int main() { starttime(); f(); }
+        `);
+        expect(ir).toMatch(/ret void\nafter\.jump\.\d+:\n {2}call void @putint\(i32 1\)\n {2}ret void/);
+        expect(ir).toContain('call void @_sysy_starttime(i32 3)');
+        expect(ir).toMatch(/call void @f\(\)\n {2}ret i32 0\n}/);
+    });
+
+    test('semantic errors are reported as CompileError', async () => {
+        await expect(compile(`
+            int main() { int n = 2; const int c = n; return c; }
+        `)).rejects.toThrow(CompileError);
+    });
+
+});
+
+describe('RISC-V backend', () => {
+
+    test('global data goes to .data, .bss and .rodata', async () => {
+        const asm = await compile(`
+            const int N = 2;
+            const int table[N] = {3, 4};
+            int a[4] = {1, 0, 0, -2};
+            float f = 1.5;
+            int z[100];
+            int main() { return a[N + 1] + table[1] + z[0]; }
+        `, generateRiscv);
+        expect(asm).toContain('\t.data\n\t.globl\ta\n\t.align\t2\n\t.type\ta, @object\n\t.size\ta, 16\na:\n\t.word\t1\n\t.zero\t8\n\t.word\t-2\n');
+        expect(asm).toContain('f:\n\t.word\t1069547520\n');
+        expect(asm).toContain('\t.bss\n\t.globl\tz\n\t.align\t2\n\t.type\tz, @object\n\t.size\tz, 400\nz:\n\t.zero\t400\n');
+        expect(asm).toContain('\t.section\t.rodata\n\t.globl\ttable\n');
+        // 下标是常量时直接取常量数组元素
+        expect(asm).toMatch(/\tli t0, 4\n/);
+        expect(asm).toContain('\tla t0, a\n');
+    });
+
+    test('runtime calls follow the LP64D calling convention', async () => {
+        const asm = await compile(`
+            int main() {
+                int a[10];
+                int n = getarray(a);
+                putfloat(getfloat() * n);
+                putarray(n, a);
+                starttime();
+                return 0;
+            }
+        `, generateRiscv);
+        expect(asm).toMatch(/addi t0, s0, -\d+\n(.*\n)*?\tld a0, -\d+\(s0\)\n\tcall getarray\n\tmv t0, a0\n/);
+        expect(asm).toMatch(/\tcall getfloat\n\tfmv\.s ft0, fa0\n/);
+        expect(asm).toMatch(/\tfcvt\.s\.w ft0, t0\n\tfmul\.s ft0, ft1, ft0\n\tfsw ft0, -\d+\(s0\)\n\tflw fa0, -\d+\(s0\)\n\tcall putfloat\n/);
+        expect(asm).toMatch(/\tld a0, -\d+\(s0\)\n\tld a1, -\d+\(s0\)\n\tcall putarray\n/);
+        expect(asm).toMatch(/\tli t0, 7\n\tsd t0, (-\d+)\(s0\)\n\tld a0, \1\(s0\)\n\tcall _sysy_starttime\n/);
+    });
+
+    test('float arguments spill into integer registers and then the stack', async () => {
+        const asm = await compile(`
+            float f(float a, float b, float c, float d, float e, float g, float h, float i, float j, int k[], float l) {
+                return j + l + k[0];
+            }
+            int main() {
+                int k[1] = {1};
+                return f(1.0, 2.0, 3.0, 4.0, 5.0, 6.0, 7.0, 8.0, 9.0, k, 10.0);
+            }
+        `, generateRiscv);
+        // j 放在 a0，数组地址放在 a1，l 放在 a2
+        expect(asm).toMatch(/\tflw fa7, -\d+\(s0\)\n\tlw a0, -\d+\(s0\)\n\tld a1, -\d+\(s0\)\n\tlw a2, -\d+\(s0\)\n\tcall f\n/);
+        expect(asm).toMatch(/f:\n(.*\n)*?\tsw a0, -\d+\(s0\)\n\tsd a1, -\d+\(s0\)\n\tsw a2, -\d+\(s0\)\n/);
+    });
+
+    test('array parameters and large frames', async () => {
+        const asm = await compile(`
+            int get(int m[][3], int i) { return m[i][2]; }
+            int main() {
+                int big[1024];
+                int rows[2][3] = {{1, 2, 3}, {4, 5, 6}};
+                big[0] = get(rows, 1);
+                return big[0];
+            }
+        `, generateRiscv);
+        expect(asm).toMatch(/get:\n(.*\n)*?\tld t0, -\d+\(s0\)\n(.*\n)*?\tli t2, 12\n\tmul t0, t0, t2\n\tadd t0, t1, t0\n/);
+        expect(asm).toMatch(/\tli t6, -\d{4}\n\tadd a0, s0, t6\n\tli a1, 0\n\tli a2, 24\n\tcall memset\n/);
+        expect(asm).toMatch(/main:\n(.*\n)*?\tli t0, 4\d{3}\n\tsub sp, sp, t0\n/);
+    });
+
+});
+
+describe('ARMv7 backend', () => {
+
+    test('runtime calls follow the AAPCS-VFP calling convention', async () => {
+        const asm = await compile(`
+            int main() {
+                int a[10];
+                int n = getarray(a);
+                putfloat(getfloat() / n);
+                putarray(n % 3, a);
+                return 0;
+            }
+        `, generateArm);
+        expect(asm).toContain('\t.arch armv7ve\n\t.fpu vfpv4\n');
+        expect(asm).toContain('\t.type\tmain, %function\nmain:\n\tpush {fp, lr}\n\tmov fp, sp\n');
+        expect(asm).toMatch(/\tsub r0, fp, #\d+\n\tstr r0, \[fp, #(-\d+)\]\n\tldr r0, \[fp, #\1\]\n\tbl getarray\n\tstr r0, /);
+        expect(asm).toMatch(/\tbl getfloat\n(.*\n)*?\tvmov s0, r0\n\tvcvt\.f32\.s32 s0, s0\n\tvdiv\.f32 s0, s1, s0\n(.*\n)*?\tvldr s0, \[fp, #-\d+\]\n\tbl putfloat\n/);
+        expect(asm).toContain('\tsdiv r2, r1, r0\n\tmls r0, r2, r0, r1\n');
+        expect(asm).toMatch(/\tldr r0, \[fp, #-\d+\]\n\tldr r1, \[fp, #-\d+\]\n\tbl putarray\n/);
+        expect(asm).toContain('\tmov sp, fp\n\tpop {fp, pc}\n');
+    });
+
+    test('arguments beyond the registers are passed on the stack', async () => {
+        const asm = await compile(`
+            int f(int a, int b, float c, int d, int e, int g, int h[]) { return a + g + h[0]; }
+            int main() {
+                int h[1] = {2};
+                return f(1, 2, 3.0, 4, 5, 6, h);
+            }
+        `, generateArm);
+        // a、b、d、e 用 r0-r3，c 用 s0，g 和 h 放在栈上，f 从 fp + 8 开始读取
+        expect(asm).toMatch(/\tldr r0, \[fp, #-\d+\]\n\tstr r0, \[sp, #0\]\n\tldr r0, \[fp, #-\d+\]\n\tstr r0, \[sp, #4\]\n/);
+        expect(asm).toMatch(/\tldr r1, \[fp, #-\d+\]\n\tvldr s0, \[fp, #-\d+\]\n\tldr r2, \[fp, #-\d+\]\n\tldr r3, \[fp, #-\d+\]\n\tbl f\n/);
+        expect(asm).toMatch(/f:\n(.*\n)*?\tldr r0, \[fp, #8\]\n(.*\n)*?\tldr r0, \[fp, #12\]\n/);
+    });
+
+    test('global data uses ARM symbol types and movw/movt addressing', async () => {
+        const asm = await compile(`
+            int g[3] = {1, 2};
+            float big[2000];
+            int main() {
+                float local[300];
+                float x = 1.5;
+                local[299] = x + big[1];
+                return g[1];
+            }
+        `, generateArm);
+        expect(asm).toContain('\t.type\tg, %object\n\t.size\tg, 12\ng:\n\t.word\t1\n\t.word\t2\n\t.zero\t4\n');
+        expect(asm).toContain('\tmovw r0, #:lower16:big\n\tmovt r0, #:upper16:big\n');
+        // vstr 的偏移超出 ±1020 时先在 ip 中算出地址
+        expect(asm).toMatch(/\tmovw ip, #\d+\n\tmovt ip, #65535\n\tadd ip, fp, ip\n\tvstr s0, \[ip\]\n/);
+        expect(asm).toMatch(/\tadd r0, r1, r0, lsl #2\n/);
+    });
+
+});
+
+describe('Register allocation', () => {
+
+    const program = `
+        int sq(int x) { return x * x; }
+        int main() {
+            int n = getint(), s = 0, i = 0;
+            while (i < n) { s = s + sq(i); i = i + 1; }
+            putint(s);
+            return 0;
+        }
+    `;
+
+    test('RISC-V keeps values in registers and saves the callee-saved ones it uses', async () => {
+        const graph = await compile(program, model => generateRiscv(model, 'module', { regalloc: 'graph' }));
+        expect(graph).toMatch(/sq:\n(.*\n)*?\tmv t3, a0\n\.Lsq\.entry:\n\tmulw t3, t3, t3\n\tmv a0, t3\n/);
+        // 跨越调用的 n、s、i 放在 s1 到 s3，在序言中保存
+        expect(graph).toMatch(/main:\n(.*\n)*?\tsd s1, -24\(s0\)\n\tsd s2, -32\(s0\)\n\tsd s3, -40\(s0\)\n/);
+        expect(graph).toMatch(/\tcall getint\n\tmv s1, a0\n/);
+        // 图着色把循环变量的复制合并掉了，线性扫描留下了复制
+        expect(graph).toMatch(/\taddw s3, s3, t3\n\tli t1, 1\n\taddw s2, s2, t1\n\tj \.Lmain\.while\.cond\.0\n/);
+        const linear = await compile(program, model => generateRiscv(model, 'module', { regalloc: 'linear' }));
+        expect(linear).toMatch(/\taddw t4, s2, t1\n\tmv s2, t4\n\tmv s3, t3\n/);
+    });
+
+    test('ARMv7 uses only callee-saved registers for allocation', async () => {
+        const asm = await compile(program, model => generateArm(model, 'module', { regalloc: 'graph' }));
+        expect(asm).toMatch(/sq:\n(.*\n)*?\tstr r4, \[fp, #-4\]\n\tmov r4, r0\n\.Lsq\.entry:\n\tmul r4, r4, r4\n\tmov r0, r4\n\.Lsq\.return:\n\tldr r4, \[fp, #-4\]\n/);
+        expect(asm).toMatch(/\tcmp r5, r4\n\tmov r7, #0\n\tmovlt r7, #1\n\tcmp r7, #0\n\tbeq \.Lmain\.while\.end\.2\n/);
+        expect(asm).toMatch(/\tmov r0, r5\n\tbl sq\n\tmov r7, r0\n\tadd r6, r6, r7\n/);
+    });
+
+});
+
+describe('Optimized code generation', () => {
+
+    test('-O1 folds constants before instruction selection', async () => {
+        const program = `
+            int main() {
+                int a = 2 * 3;
+                putint(a + 1);
+                return 0;
+            }
+        `;
+        const unoptimized = await compile(program, model => generateRiscv(model, 'module', { regalloc: 'graph' }));
+        expect(unoptimized).toContain('\tmulw ');
+        const optimized = await compile(program, model => generateRiscv(model, 'module', { regalloc: 'graph', optLevel: 1 }));
+        expect(optimized).toMatch(/\.Lmain\.entry:\n\tli a0, 7\n\tcall putint\n\tli a0, 0\n/);
+    });
+
+    test('-O1 inlines small functions into the generated code', async () => {
+        const program = `
+            int sq(int x) { return x * x; }
+            int main() {
+                int n = getint(), s = 0, i = 0;
+                while (i < n) { s = s + sq(i); i = i + 1; }
+                putint(s);
+                return 0;
+            }
+        `;
+        const inlined = await compile(program, model => generateRiscv(model, 'module', { regalloc: 'graph', optLevel: 1 }));
+        expect(inlined).not.toContain('\tcall sq\n');
+        // 阈值小于调用本身的代价时不内联
+        const called = await compile(program, model => generateArm(model, 'module', { regalloc: 'graph', optLevel: 1, inlineThreshold: -1 }));
+        expect(called).toContain('\tbl sq\n');
+    });
+
+    test('-O1 hoists loop-invariant code out of the generated loop', async () => {
+        const program = `
+            int a[100];
+            int main() {
+                int n = getint(), i = 0;
+                while (i < n) {
+                    a[i] = n / 4;
+                    i = i + 1;
+                }
+                return 0;
+            }
+        `;
+        const unoptimized = await compile(program, model => generateRiscv(model, 'module', { regalloc: 'graph' }));
+        expect(unoptimized).toMatch(/\.Lmain\.while\.body\.1:\n(.*\n)*?\tdivw /);
+        const optimized = await compile(program, model => generateRiscv(model, 'module', { regalloc: 'graph', optLevel: 1 }));
+        // 除法在进入循环之前只算一次
+        expect(optimized).toMatch(/\.Lmain\.entry:\n(.*\n)*?\tdivw (.*\n)*?\.Lmain\.while\.cond\.0:/);
+        expect(optimized.slice(optimized.indexOf('.Lmain.while.cond.0:'))).not.toContain('\tdivw ');
+    });
+
+});
+
+async function compile(code: string, generate: (model: CompUnit) => string = generateLlvm): Promise<string> {
+    const document: LangiumDocument<CompUnit> = await parse(code);
+    expect(document.parseResult.parserErrors.map(e => e.message)).toHaveLength(0);
+    return generate(document.parseResult.value);
+}
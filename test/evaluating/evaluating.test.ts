@@ -0,0 +1,95 @@
+import { AstUtils, EmptyFileSystem } from "langium";
+import { parseHelper } from "langium/test";
+import { beforeAll, describe, expect, test } from "vitest";
+import { CompUnit, ConstDef, VarDef, VariableLVal, isConstDef, isVarDef } from "../../src/language/generated/ast.js";
+import { createHelloWorldServices } from "../../src/language/hello-world-module.js";
+
+let services: ReturnType<typeof createHelloWorldServices>;
+let parse:    ReturnType<typeof parseHelper<CompUnit>>;
+
+beforeAll(async () => {
+    services = createHelloWorldServices(EmptyFileSystem);
+    parse = parseHelper<CompUnit>(services.HelloWorld);
+    await services.shared.workspace.WorkspaceManager.initializeWorkspace([]);
+});
+
+describe('Constant evaluation', () => {
+
+    test('integer arithmetic truncates towards zero', async () => {
+        const model = await parseModel(`
+            const int N = 7, M = -7 / 2, R = -7 % 2;
+            const int K = (N + 1) * 2 - !0;
+        `);
+        const evaluator = services.HelloWorld.evaluation.ConstEvaluator;
+        expect(evaluator.constantValues(findConst(model, 'M'))).toEqual([{ type: 'int', value: -3 }]);
+        expect(evaluator.constantValues(findConst(model, 'R'))).toEqual([{ type: 'int', value: -1 }]);
+        expect(evaluator.constantValues(findConst(model, 'K'))).toEqual([{ type: 'int', value: 15 }]);
+    });
+
+    test('float constants are converted to the declared type', async () => {
+        const model = await parseModel(`
+            const int I = 2.9;
+            const float F = 1 / 2, G = 0.1 * 3;
+        `);
+        const evaluator = services.HelloWorld.evaluation.ConstEvaluator;
+        expect(evaluator.constantValues(findConst(model, 'I'))).toEqual([{ type: 'int', value: 2 }]);
+        expect(evaluator.constantValues(findConst(model, 'F'))).toEqual([{ type: 'float', value: 0 }]);
+        expect(evaluator.constantValues(findConst(model, 'G'))?.[0].value).toBe(Math.fround(Math.fround(0.1) * 3));
+    });
+
+    test('array dimensions and elements of constant arrays', async () => {
+        const model = await parseModel(`
+            const int N = 3;
+            const int table[N - 1][N] = {{1, 2}, 3, 4, 5};
+            const int last = table[1][N - 1] + table[0][2];
+            int a[N * 2][table[1][0]];
+        `);
+        const evaluator = services.HelloWorld.evaluation.ConstEvaluator;
+        expect(evaluator.constantValues(findConst(model, 'table'))?.map(v => v.value)).toEqual([1, 2, 0, 3, 4, 5]);
+        expect(evaluator.constantValues(findConst(model, 'last'))?.[0].value).toBe(5);
+        expect(evaluator.evaluateDims(findVar(model, 'a').index)).toEqual([6, 3]);
+    });
+
+    test('non-constant expressions are rejected', async () => {
+        const model = await parseModel(`
+            int n = 4;
+            int f() { return 1; }
+            const int c = c + 1;
+            int a[n], b[f()], d[1 / 0];
+        `);
+        const evaluator = services.HelloWorld.evaluation.ConstEvaluator;
+        expect(evaluator.constantValues(findConst(model, 'c'))).toBeUndefined();
+        expect(evaluator.evaluateDims(findVar(model, 'a').index)).toBeUndefined();
+        expect(evaluator.explain(findVar(model, 'a').index[0])).toContain("'n' 不是常量");
+        expect(evaluator.explain(findVar(model, 'b').index[0])).toContain("不能调用函数 'f'");
+        expect(evaluator.explain(findVar(model, 'd').index[0])).toContain('除以零');
+    });
+
+    test('a dimension that refers to its own array is rejected', async () => {
+        const model = await parseModel(`
+            const int a[a[0]] = {1};
+        `);
+        const def = findConst(model, 'a');
+        // 作用域规则不允许这样的引用，这里手动把长度中的 a 链接到正在定义的数组
+        Object.defineProperty((def.index[0] as VariableLVal).value, 'ref', { get: () => def });
+        const evaluator = services.HelloWorld.evaluation.ConstEvaluator;
+        expect(evaluator.evaluateDims(def.index)).toBeUndefined();
+        expect(evaluator.constantValues(def)).toBeUndefined();
+        expect(evaluator.explain(def.index[0])).toContain("常量 'a' 的定义引用了它自身");
+    });
+
+});
+
+async function parseModel(text: string): Promise<CompUnit> {
+    const document = await parse(text);
+    expect(document.parseResult.parserErrors).toHaveLength(0);
+    return document.parseResult.value;
+}
+
+function findConst(model: CompUnit, name: string): ConstDef {
+    return AstUtils.streamAllContents(model).filter(isConstDef).find(def => def.name === name)!;
+}
+
+function findVar(model: CompUnit, name: string): VarDef {
+    return AstUtils.streamAllContents(model).filter(isVarDef).find(def => def.name === name)!;
+}
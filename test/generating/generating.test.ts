@@ -0,0 +1,121 @@
+import { EmptyFileSystem, type LangiumDocument } from "langium";
+import { parseHelper } from "langium/test";
+import { spawnSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { generateJavaScript } from "../../src/cli/generator.js";
+import { CompUnit } from "../../src/language/generated/ast.js";
+import { createHelloWorldServices } from "../../src/language/hello-world-module.js";
+
+let services: ReturnType<typeof createHelloWorldServices>;
+let parse:    ReturnType<typeof parseHelper<CompUnit>>;
+let destination: string;
+
+beforeAll(async () => {
+    services = createHelloWorldServices(EmptyFileSystem);
+    parse = parseHelper<CompUnit>(services.HelloWorld);
+    destination = fs.mkdtempSync(path.join(os.tmpdir(), 'sysy-generator-'));
+});
+
+afterAll(() => {
+    fs.rmSync(destination, { recursive: true, force: true });
+});
+
+describe('JavaScript generator', () => {
+
+    test('integer arithmetic wraps and divides like C', async () => {
+        const result = await run(`
+            int main() {
+                int x = 2147483647;
+                x = x + 1;
+                putint(x); putch(10);
+                putint(-7 / 2); putch(32); putint(-7 % 3); putch(10);
+                putint(65536 * 65536 + 3);
+                return 300;
+            }
+        `);
+        expect(result.stdout).toBe('-2147483648\n-3 -1\n3');
+        expect(result.status).toBe(300 % 256);
+    });
+
+    test('octal, hex and INT_MIN literals and runtime array output', async () => {
+        const result = await run(`
+            int main() {
+                int a[4] = {0o17, 0x1F, 0d10, -2147483648};
+                putarray(4, a);
+                return 0;
+            }
+        `);
+        expect(result.stdout).toBe('4: 15 31 10 -2147483648\n');
+    });
+
+    test('float arithmetic is single precision', async () => {
+        const result = await run(`
+            float half(float x) { return x / 2; }
+            int main() {
+                float f = 0.1;
+                putfloat(f); putch(10);
+                putfloat(half(3)); putch(10);
+                putint(f * 10);
+                return 0;
+            }
+        `);
+        expect(result.stdout).toBe('0x1.99999ap-4\n0x1.8p+0\n1');
+    });
+
+    test('multi-dimensional arrays with brace elision and sub-array arguments', async () => {
+        const result = await run(`
+            const int N = 2;
+            int g[N + 1][2] = {{1}, 2, 3};
+            int rowsum(int b[][3], int r) {
+                return b[r][0] + b[r][1] + b[r][2];
+            }
+            int main() {
+                int a[2][3] = {1, 2, 3, {4}};
+                putarray(2, g[0]); putarray(2, g[1]); putarray(2, g[2]);
+                putint(rowsum(a, 0)); putch(32);
+                putint(rowsum(a, 1)); putch(10);
+                putarray(3, a[1]);
+                return 0;
+            }
+        `);
+        expect(result.stdout).toBe('2: 1 0\n2: 2 3\n2: 0 0\n6 4\n3: 4 0 0\n');
+    });
+
+    test('control flow, shadowing and runtime input', async () => {
+        const result = await run(`
+            int main() {
+                int n = getint(), a[10], s = 0, i = 0;
+                getarray(a);
+                while (i < n) {
+                    i = i + 1;
+                    if (a[i - 1] % 2 == 0) continue;
+                    if (a[i - 1] > 7 || s > 100 && 1) break;
+                    int s = 1000;
+                }
+                i = 0;
+                while (i < n) {
+                    int v = a[i];
+                    {
+                        int v = 2;
+                        s = s + v * a[i];
+                    }
+                    i = i + 1;
+                }
+                return s;
+            }
+        `, '4\n4 1 2 3 8\n');
+        expect(result.status).toBe(28);
+    });
+
+});
+
+async function run(code: string, input = ''): Promise<{ stdout: string, status: number | null }> {
+    const document: LangiumDocument<CompUnit> = await parse(code);
+    expect(document.parseResult.parserErrors.map(e => e.message)).toHaveLength(0);
+    const file = generateJavaScript(document.parseResult.value, path.join(destination, `test${Date.now()}.sys`), destination);
+    const result = spawnSync(process.execPath, [file], { input, encoding: 'utf-8' });
+    return { stdout: result.stdout, status: result.status };
+}
@@ -0,0 +1,74 @@
+import { EmptyFileSystem, type LangiumDocument } from "langium";
+import { parseHelper } from "langium/test";
+import { beforeAll, describe, expect, test } from "vitest";
+import { CompUnit } from "../../src/language/generated/ast.js";
+import { createHelloWorldServices } from "../../src/language/hello-world-module.js";
+
+let services: ReturnType<typeof createHelloWorldServices>;
+let parse:    ReturnType<typeof parseHelper<CompUnit>>;
+
+beforeAll(async () => {
+    services = createHelloWorldServices(EmptyFileSystem);
+    parse = parseHelper<CompUnit>(services.HelloWorld);
+    await services.shared.workspace.WorkspaceManager.initializeWorkspace([]);
+});
+
+describe('Hovering numeric literals', () => {
+
+    test('decimal, octal and hex literals show their value', async () => {
+        const document = await parse(`
+            int a = 42;
+            int b = 0o17;
+            int c = 0x1F;
+        `);
+        expect(await hoverText(document, '42')).toContain('**(字面量) 42: int = 42**');
+        expect(await hoverText(document, '0o17')).toContain('**(字面量) 0o17: int = 15**');
+        expect(await hoverText(document, '0x1F')).toContain('**(字面量) 0x1F: int = 31**');
+    });
+
+    test('float literals show the single-precision value', async () => {
+        const document = await parse(`
+            float f = 0.1;
+            float g = 1.0e39;
+        `);
+        expect(await hoverText(document, '0.1')).toContain('**(字面量) 0.1: float = 0.1**');
+        const overflow = await hoverText(document, '1.0e39');
+        expect(overflow).toContain('类型: float');
+        expect(overflow).toContain('超出了 float 的表示范围');
+    });
+
+    test('INT_MIN is explained only after a unary minus', async () => {
+        const document = await parse(`
+            int m = -2147483648;
+            int n = 2147483649;
+        `);
+        const negated = await hoverText(document, '2147483648');
+        expect(negated).toContain('**(字面量) 2147483648: int = 2147483648**');
+        expect(negated).toContain('与前面的负号一起表示 int 的最小值 -2147483648');
+        expect(await hoverText(document, '2147483649')).toContain('超出了 int 的表示范围，截断为 -2147483647');
+    });
+
+    test('invalid octal literals have no value', async () => {
+        const document = await parse(`
+            int a = 0o19;
+        `);
+        const text = await hoverText(document, '0o19');
+        expect(text).toContain('**(字面量) 0o19: int**');
+        expect(text).toContain("八进制字面量中含有无效的数字 '9'");
+        expect(text).not.toContain('值:');
+        expect(text).not.toContain('=');
+    });
+
+});
+
+/** 在第一次出现 literal 的位置悬浮，返回提示的文本 */
+async function hoverText(document: LangiumDocument, literal: string): Promise<string> {
+    const offset = document.textDocument.getText().indexOf(literal);
+    expect(offset).toBeGreaterThanOrEqual(0);
+    const hover = await services.HelloWorld.lsp.HoverProvider!.getHoverContent(document, {
+        textDocument: { uri: document.textDocument.uri },
+        position: document.textDocument.positionAt(offset),
+    });
+    const contents = hover?.contents;
+    return contents && typeof contents === 'object' && 'value' in contents ? contents.value : '';
+}
@@ -0,0 +1,124 @@
+import { EmptyFileSystem, type LangiumDocument } from "langium";
+import { parseHelper } from "langium/test";
+import { beforeAll, describe, expect, test } from "vitest";
+import { RuntimeError, runProgram } from "../../src/compiler/interpreter.js";
+import { CompileError } from "../../src/compiler/semantic.js";
+import { CompUnit } from "../../src/language/generated/ast.js";
+import { createHelloWorldServices } from "../../src/language/hello-world-module.js";
+
+let services: ReturnType<typeof createHelloWorldServices>;
+let parse:    ReturnType<typeof parseHelper<CompUnit>>;
+
+beforeAll(async () => {
+    services = createHelloWorldServices(EmptyFileSystem);
+    parse = parseHelper<CompUnit>(services.HelloWorld);
+});
+
+describe('Interpreter', () => {
+
+    test('arithmetic wraps like C and the exit code is main modulo 256', async () => {
+        const result = await run(`
+            float half(float x) { return x / 2; }
+            int main() {
+                int x = 2147483647;
+                x = x + 1;
+                putint(x); putch(10);
+                putint(-7 / 2); putch(32); putint(-7 % 3); putch(10);
+                putfloat(0.1); putch(32); putfloat(half(3)); putch(10);
+                putint(half(7) * 10);
+                return 300;
+            }
+        `);
+        expect(result.stdout).toBe('-2147483648\n-3 -1\n0x1.99999ap-4 0x1.8p+0\n35');
+        expect(result.exitCode).toBe(300 % 256);
+    });
+
+    test('arrays, sub-array arguments and runtime input', async () => {
+        const result = await run(`
+            const int N = 2;
+            int g[N + 1][2] = {{1}, 2, 3};
+            int rowsum(int b[][3], int r) {
+                return b[r][0] + b[r][1] + b[r][2];
+            }
+            int main() {
+                int a[2][3] = {1, 2, 3, {4}}, n, v[10];
+                float f[4];
+                putarray(2, g[1]);
+                putint(rowsum(a, 0) * 10 + rowsum(a, 1)); putch(10);
+                n = getarray(v);
+                putarray(n, v);
+                putint(getfarray(f)); putch(32);
+                putfloat(f[1] + getfloat()); putch(getch()); putch(getch());
+                putint(getint());
+                return 0;
+            }
+        `, '3\n5 -6 7\n2 1.5 0x1p-1\n0.25\nxy');
+        // getch 先读到 0.25 之后的换行；y 不是整数，getint 得到 0
+        expect(result.stdout).toBe('2: 2 3\n64\n3: 5 -6 7\n2 0x1.8p-1\nx0');
+    });
+
+    test('short-circuit evaluation, shadowing and loop control', async () => {
+        const result = await run(`
+            int calls;
+            int touch(int v) { calls = calls + 1; return v; }
+            int main() {
+                int s = 0, i = 0;
+                while (i < 10) {
+                    i = i + 1;
+                    if (i % 2 == 0) continue;
+                    if (i > 7 || touch(0) && touch(1)) break;
+                    int s = 1000;
+                    {
+                        int i = 2;
+                        s = s + i;
+                    }
+                }
+                putint(calls);
+                return s + i;
+            }
+        `);
+        // i 为 1、3、5、7 时调用一次 touch，&& 右边不会执行；内层的 s 遮蔽外层
+        expect(result.stdout).toBe('4');
+        expect(result.exitCode).toBe(9);
+    });
+
+    test('runtime errors keep the output written before them', async () => {
+        const division = await run(`
+            int main() {
+                int z = 0;
+                putint(1);
+                return 1 / z;
+            }
+        `);
+        expect(division.error).toEqual(new RuntimeError('整数除以零。'));
+        expect(division.stdout).toBe('1');
+        const bounds = await run(`
+            int get(int a[], int i) { return a[i]; }
+            int main() {
+                int a[2][3];
+                putint(get(a[1], 2));
+                return get(a[1], 3);
+            }
+        `);
+        expect(bounds.error?.message).toBe("数组 'a' 的访问超出了实参数组的范围。");
+        expect(bounds.stdout).toBe('0');
+        const index = await run('int main() { int a[3]; a[3] = 1; return 0; }');
+        expect(index.error?.message).toBe("数组 'a' 的下标 3 越界，长度为 3。");
+        const noMain = await run('int f() { return 0; }');
+        expect(noMain.error).toBeInstanceOf(CompileError);
+    });
+
+});
+
+async function run(code: string, input = ''): Promise<{ stdout: string, exitCode?: number, error?: Error }> {
+    const document: LangiumDocument<CompUnit> = await parse(code);
+    expect(document.parseResult.parserErrors.map(e => e.message)).toHaveLength(0);
+    let stdout = '';
+    const io = { readInput: () => input, writeOutput: (text: string) => stdout += text, writeError: () => {} };
+    try {
+        const exitCode = runProgram(document.parseResult.value, io);
+        return { stdout, exitCode };
+    } catch (error) {
+        return { stdout, error: error as Error };
+    }
+}
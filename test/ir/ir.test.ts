@@ -0,0 +1,578 @@
+import { EmptyFileSystem, type LangiumDocument } from "langium";
+import { parseHelper } from "langium/test";
+import { beforeAll, describe, expect, test } from "vitest";
+import { adce } from "../../src/compiler/ir/adce.js";
+import { CallGraph } from "../../src/compiler/ir/call-graph.js";
+import { DominatorTree, EXIT } from "../../src/compiler/ir/dominators.js";
+import type { IrModule } from "../../src/compiler/ir/ir.js";
+import { functionSize, inline } from "../../src/compiler/ir/inliner.js";
+import { licm } from "../../src/compiler/ir/licm.js";
+import { LoopInfo, insertPreheaders, printLoopTree } from "../../src/compiler/ir/loops.js";
+import { lowerToIr } from "../../src/compiler/ir/lowering.js";
+import { mem2reg } from "../../src/compiler/ir/mem2reg.js";
+import { outOfSsa } from "../../src/compiler/ir/out-of-ssa.js";
+import { parseModule } from "../../src/compiler/ir/parser.js";
+import { PassManager, optimizationPipeline } from "../../src/compiler/ir/pass-manager.js";
+import { printModule } from "../../src/compiler/ir/printer.js";
+import { sccp } from "../../src/compiler/ir/sccp.js";
+import { allocateRegisters, type RegisterAllocator } from "../../src/compiler/regalloc/allocator.js";
+import { InterferenceGraph } from "../../src/compiler/regalloc/interference.js";
+import { analyzeLiveness } from "../../src/compiler/regalloc/liveness.js";
+import type { TargetRegisters } from "../../src/compiler/regalloc/registers.js";
+import { CompileError } from "../../src/compiler/semantic.js";
+import { CompUnit } from "../../src/language/generated/ast.js";
+import { createHelloWorldServices } from "../../src/language/hello-world-module.js";
+
+let services: ReturnType<typeof createHelloWorldServices>;
+let parse:    ReturnType<typeof parseHelper<CompUnit>>;
+
+beforeAll(async () => {
+    services = createHelloWorldServices(EmptyFileSystem);
+    parse = parseHelper<CompUnit>(services.HelloWorld);
+});
+
+describe('IR lowering', () => {
+
+    test('globals, locals and array parameters', async () => {
+        const text = printModule(await lower(`
+            const int N = 2;
+            int g[N + 1][2] = {{1}, 2, 3};
+            float f = 1;
+            int sum(int m[][3], int r) { return m[r][0] + m[r][2]; }
+            int main() {
+                int a[2][3] = {1, 2, 3, {4}};
+                const int c[2] = {5, N * 3};
+                return sum(a, 1) + c[1];
+            }
+        `));
+        expect(text).toContain('@g = global [6 x i32] [1, 0, 2, 3]');
+        expect(text).toContain('@f = global f32 1.0');
+        // 局部常量数组放进全局常量，标量常量直接折叠
+        expect(text).toContain('@__const.main.c = constant [2 x i32] [5, 6]');
+        expect(text).not.toContain('@N');
+        expect(text).toContain('define i32 @sum(ptr %m, i32 %r) {');
+        expect(text).toMatch(/%r\.addr = alloca i32\n {2}store i32 %r, %r\.addr/);
+        // 每一维下标一条 gep，步长是该维元素的字节数
+        expect(text).toMatch(/%1 = gep %m, %0, 12\n {2}%2 = gep %1, 0, 4\n {2}%3 = load i32 %2/);
+        expect(text).toContain('%a = alloca i32, 6');
+        expect(text).toContain('call void @memset(%a, 0, 24)');
+        expect(text).toContain('declare void @memset(ptr, i32, i32)');
+        // 常量下标访问常量数组直接折叠，部分下标得到子数组地址
+        expect(text).toMatch(/%\d+ = call i32 @sum\(%a, 1\)\n {2}%\d+ = add %\d+, 6/);
+    });
+
+    test('conditions branch on i32 values', async () => {
+        const text = printModule(await lower(`
+            int main() {
+                float x = getfloat();
+                int a = getint();
+                while (a > 0 && x) {
+                    a = a - 1;
+                    if (!a) break;
+                }
+                int b = !a + x;
+                return b;
+            }
+        `));
+        expect(text).toContain('declare f32 @getfloat()');
+        expect(text).toMatch(/%\d+ = icmp gt %\d+, 0\n {2}br %\d+, land\.rhs\.\d+, while\.end\.\d+/);
+        // 浮点条件先与 0 比较
+        expect(text).toMatch(/%(\d+) = fcmp ne %\d+, 0\.0\n {2}br %\1, while\.body\.\d+, while\.end\.\d+/);
+        // ! 交换真假出口
+        expect(text).toMatch(/br %\d+, if\.end\.\d+, if\.then\.\d+/);
+        // 类型转换是单独的指令
+        expect(text).toMatch(/%(\d+) = icmp eq %\d+, 0\n {2}%(\d+) = load f32 %x\n {2}%(\d+) = itof %\1\n {2}%(\d+) = fadd %\3, %\2\n {2}%(\d+) = ftoi %\4\n {2}store i32 %\5, %b/);
+    });
+
+    test('statements after return start a new block', async () => {
+        const module = await lower(`
+            void f() { return; putint(1); }
+            int main() { f(); }
+        `);
+        expect(module.functions[0].blocks.map(block => block.label)).toEqual(['entry', 'after.jump.0']);
+        // 没有 return 的 int 函数返回 0
+        expect(module.functions[1].blocks[0].terminator).toEqual({ op: 'ret', value: { kind: 'const', type: 'i32', value: 0 } });
+    });
+});
+
+describe('IR text format', () => {
+
+    test('printed IR parses back to the same module', async () => {
+        const module = await lower(`
+            float h[2] = {0.1, -2.5e10};
+            int main() {
+                int i = 0;
+                float s = -0.0;
+                while (i < 10) {
+                    s = s + h[i % 2] / 3;
+                    i = i + 1;
+                }
+                putfloat(s);
+                starttime();
+                if (i >= 10 || s != 1.5) return 1;
+                return 0;
+            }
+        `);
+        const text = printModule(module);
+        expect(text).toContain('call void @_sysy_starttime(11)');
+        const parsed = parseModule(text);
+        expect(parsed).toEqual(module);
+        expect(printModule(parsed)).toBe(text);
+    });
+
+    test('comments are skipped and operand types come from definitions', () => {
+        const module = parseModule(`
+            ; 注释
+            define f32 @f(i32 %n) {
+            entry:
+              jmp loop
+            loop:
+              %x = phi f32 [1.0, entry], [%y, loop]   ; %y 在后面定义
+              %y = fadd %x, 0.5
+              br %n, loop, done
+            done:
+              ret %y
+            }
+        `);
+        const phi = module.functions[0].blocks[1].instructions[0];
+        expect(phi.op === 'phi' && phi.incoming[1].value).toEqual({ kind: 'temp', name: 'y', type: 'f32' });
+    });
+
+    test('malformed IR is reported with its line', () => {
+        expect(() => parseModule('define i32 @f() {\nentry:\n  %0 = add 1, 2\n}')).toThrow('IR 第 4 行：基本块 \'entry\' 缺少终结指令。');
+        expect(() => parseModule('define i32 @f() {\nentry:\n  ret %0\n}')).toThrow(CompileError);
+        expect(() => parseModule('define void @f() {\nentry:\n  %0 = fadd 1, 2.0\n  ret\n}')).toThrow('IR 第 3 行：常量 \'1\' 的类型应为 f32。');
+    });
+});
+
+describe('SSA', () => {
+
+    test('dominator tree and dominance frontiers', () => {
+        const [func] = parseModule(`
+            define void @f(i32 %c) {
+            entry:
+              br %c, then, else
+            then:
+              jmp join
+            else:
+              jmp loop
+            loop:
+              br %c, loop, join
+            join:
+              ret
+            dead:
+              jmp join
+            }
+        `).functions;
+        const tree = new DominatorTree(func);
+        expect(tree.order).toEqual(['entry', 'else', 'loop', 'then', 'join']);
+        expect(['then', 'else', 'loop', 'join'].map(label => tree.idom(label))).toEqual(['entry', 'entry', 'else', 'entry']);
+        expect(tree.children('entry')).toEqual(['else', 'then', 'join']);
+        expect([...tree.frontier('then')]).toEqual(['join']);
+        expect([...tree.frontier('loop')].sort()).toEqual(['join', 'loop']);
+        expect([...tree.frontier('else')]).toEqual(['join']);
+        expect(tree.dominates('else', 'loop')).toBe(true);
+        expect(tree.dominates('loop', 'join')).toBe(false);
+        // 不可达的块不在支配树中
+        expect(tree.isReachable('dead')).toBe(false);
+    });
+
+    test('mem2reg promotes scalar locals and inserts phi at joins', async () => {
+        const module = await lower(`
+            int main() {
+                int a[2];
+                int i = 0, s;
+                while (i < 10) {
+                    if (i % 2) s = s + i;
+                    i = i + 1;
+                    a[0] = i;
+                }
+                return s;
+                s = 1;
+            }
+        `);
+        mem2reg(module.functions[0]);
+        const text = printModule(module);
+        // 数组留在内存中，标量不再有 alloca、load 和 store
+        expect(text).toMatch(/%a = alloca i32, 2\n {2}jmp while\.cond\.0/);
+        expect(text).not.toMatch(/alloca i32\n|load|store i32 %\d+, %[is]/);
+        // 未赋值的 s 从 0 开始，循环头和 if 之后各有 phi
+        expect(text).toMatch(/while\.cond\.0:\n {2}%s\.2 = phi i32 \[0, entry\], \[%s\.1, if\.end\.4\]\n {2}%i\.1 = phi i32 \[0, entry\], \[%\d+, if\.end\.4\]/);
+        expect(text).toMatch(/if\.end\.4:\n {2}%s\.1 = phi i32 \[%s\.2, while\.body\.1\], \[%\d+, if\.then\.3\]/);
+        expect(text).toContain('ret %s.2');
+        // return 之后的不可达块被删除
+        expect(text).not.toContain('after.jump');
+        expect(parseModule(text)).toEqual(module);
+    });
+
+    test('out-of-ssa splits critical edges and breaks copy cycles', async () => {
+        const module = await lower(`
+            int main() {
+                int x = 1, y = 2, n = getint();
+                while (n > 0) {
+                    int t = x;
+                    x = y;
+                    y = t;
+                    n = n - 1;
+                    if (x == 100) break;
+                }
+                return x - y;
+            }
+        `);
+        const func = module.functions[0];
+        mem2reg(func);
+        outOfSsa(func);
+        const text = printModule(module);
+        expect(text).not.toContain('phi');
+        // 循环条件到出口的边是关键边，出口的 phi 在拆出的新块中复制
+        expect(text).toMatch(/br %\d+, while\.body\.1, while\.cond\.0\.split\nwhile\.cond\.0\.split:\n {2}%y\.2 = copy %y\.1\n {2}%x\.2 = copy %x\.1\n {2}jmp while\.end\.2/);
+        // x 和 y 互换需要一个额外的临时值
+        expect(text).toMatch(/%swap = copy %y\.1\n {2}%y\.1 = copy %x\.1\n {2}%x\.1 = copy %swap\n/);
+        // 同一个临时值可以被多次赋值，重新解析时类型保持一致
+        expect(printModule(parseModule(text))).toBe(text);
+    });
+});
+
+describe('Optimization', () => {
+
+    test('post-dominator tree is rooted at the virtual exit', () => {
+        const [func] = parseModule(`
+            define i32 @f(i32 %c) {
+            entry:
+              br %c, then, else
+            then:
+              ret 1
+            else:
+              jmp spin
+            spin:
+              jmp spin
+            }
+        `).functions;
+        const tree = new DominatorTree(func, true);
+        expect(tree.entry).toBe(EXIT);
+        expect(tree.idom('entry')).toBe('then');
+        expect(tree.idom('then')).toBe(EXIT);
+        // 死循环到不了出口
+        expect(tree.isReachable('spin')).toBe(false);
+    });
+
+    test('sccp folds constant chains and prunes constant branches', async () => {
+        const module = await lower(`
+            int main() {
+                int a = 1 + 2 * 3 - 4, b, i = 0;
+                if (a > 10) b = 100;
+                else if (a == 3) b = 7;
+                else b = 8;
+                while (i < getint()) i = i + b;
+                return i + a / 0;
+            }
+        `);
+        const func = module.functions[0];
+        mem2reg(func);
+        expect(sccp(func)).toBe(true);
+        const text = printModule(module);
+        expect(text).not.toMatch(/mul|icmp gt|icmp eq/);
+        // 只剩下 else if 的 then 分支，b 在循环中是常量 7
+        expect(func.blocks.map(block => block.label)).toEqual(['entry', 'if.else.2', 'if.then.3', 'if.end.4', 'if.end.1', 'while.cond.6', 'while.body.7', 'while.end.8']);
+        expect(text).toMatch(/%i\.1 = phi i32 \[0, if\.end\.1\], \[%\d+, while\.body\.7\]/);
+        expect(text).toMatch(/%\d+ = add %i\.1, 7/);
+        // 除以零留到运行时
+        expect(text).toContain('sdiv 3, 0');
+        expect(sccp(func)).toBe(false);
+    });
+
+    test('adce removes computations and loops that do not affect the result', async () => {
+        const module = await lower(`
+            int g;
+            int main() {
+                int n = getint(), i = 0, s = 0;
+                while (i < n) {
+                    s = s + i * i;
+                    i = i + 1;
+                }
+                if (n > 5) g = n;
+                return 0;
+            }
+        `);
+        const func = module.functions[0];
+        mem2reg(func);
+        expect(adce(func)).toBe(true);
+        const text = printModule(module);
+        // 循环整个被删除，只剩下空的循环头
+        expect(text).not.toMatch(/while\.body|phi|mul/);
+        expect(text).toMatch(/while\.cond\.0:\n {2}jmp while\.end\.\d+\n/);
+        // 写全局变量的分支保留
+        expect(text).toMatch(/%\d+ = icmp gt %\d+, 5\n {2}br %\d+, if\.then\.\d+, if\.end\.\d+/);
+        expect(text).toContain('store i32 %0, @g');
+        expect(adce(func)).toBe(false);
+    });
+
+    test('pass manager prints the IR after each pass', async () => {
+        const module = await lower(`
+            int main() {
+                int x = 2;
+                if (x * 3 > 5) return 1;
+                return 0;
+            }
+        `);
+        const printed: string[] = [];
+        new PassManager({ printAfterEach: (pass, text) => printed.push(`${pass.name}\n${text}`) })
+            .add(...optimizationPipeline(1))
+            .run(module);
+        expect(printed.map(text => text.split('\n')[0])).toEqual(['mem2reg', 'inline', 'sccp', 'adce', 'licm']);
+        expect(printed[0]).toContain('mul 2, 3');
+        expect(printed[3]).toMatch(/entry:\n {2}jmp if\.then\.\d+\nif\.then\.\d+:\n {2}ret 1\n/);
+        expect(optimizationPipeline(0)).toEqual([]);
+    });
+});
+
+describe('Inlining', () => {
+
+    test('call graph finds recursion and orders callees first', async () => {
+        const graph = new CallGraph(await lower(`
+            int leaf(int x) { return x + 1; }
+            int fact(int n) { if (n <= 1) return 1; return n * fact(n - 1); }
+            int odd(int n) { if (n == 0) return 0; return even(n - 1); }
+            int even(int n) { if (n == 0) return 1; return odd(n - 1); }
+            int main() { putint(leaf(1)); return fact(3) + even(4); }
+        `));
+        expect(graph.bottomUp.indexOf('leaf')).toBeLessThan(graph.bottomUp.indexOf('main'));
+        expect(graph.bottomUp.indexOf('fact')).toBeLessThan(graph.bottomUp.indexOf('main'));
+        expect(['leaf', 'fact', 'odd', 'even', 'main'].map(name => graph.isRecursive(name))).toEqual([false, true, true, true, false]);
+        // 对 sylib 的调用不在调用图中
+        expect(graph.callSites('main').map(site => site.call.callee)).toEqual(['leaf', 'fact', 'even']);
+        expect(graph.callersOf('odd').map(site => site.caller)).toEqual(['even']);
+    });
+
+    test('small non-recursive functions are inlined into their callers', async () => {
+        const module = await lower(`
+            int abs(int x) { if (x < 0) return -x; return x; }
+            int twice(int x) { return abs(x) * 2; }
+            int fact(int n) { if (n <= 1) return 1; return n * fact(n - 1); }
+            int main() {
+                int a[2];
+                a[0] = twice(getint());
+                return a[0] + fact(a[0]);
+            }
+        `);
+        module.functions.forEach(func => mem2reg(func));
+        expect(functionSize(module.functions[0])).toBe(5);
+        expect(inline(module)).toBe(true);
+        const text = printModule(module);
+        // abs 先内联进 twice，twice 再内联进 main；内联后不再被调用的函数被删除
+        expect(module.functions.map(func => func.name)).toEqual(['fact', 'main']);
+        expect(text).not.toMatch(/call i32 @(abs|twice)/);
+        expect(text).toMatch(/%\d+ = call i32 @getint\(\)\n {2}jmp twice\.entry\ntwice\.entry:\n {2}jmp twice\.abs\.entry/);
+        // 多个返回点在新块中用 phi 合并，形参被实参替换
+        expect(text).toMatch(/twice\.abs\.exit:\n {2}%twice\.\d+ = phi i32 \[%twice\.abs\.\d+, twice\.abs\.if\.then\.0\], \[%\d+, twice\.abs\.if\.end\.1\]/);
+        // 递归函数保留调用
+        expect(text).toContain('call i32 @fact(');
+        expect(printModule(parseModule(text))).toBe(text);
+    });
+
+    test('inline threshold limits the size of inlined functions', async () => {
+        const source = `
+            int big(int x) { int s = 0; while (x > 0) { s = s + x * x; x = x - 1; } return s; }
+            int main() { return big(10); }
+        `;
+        const small = await lower(source);
+        expect(inline(small, 3)).toBe(false);
+        expect(printModule(small)).toContain('call i32 @big(10)');
+        const large = await lower(source);
+        expect(inline(large, 100)).toBe(true);
+        expect(large.functions.map(func => func.name)).toEqual(['main']);
+        // 局部变量的 alloca 移到调用者的入口块
+        expect(printModule(large)).toMatch(/entry:\n {2}%big\.x\.addr = alloca i32\n {2}%big\.s = alloca i32\n/);
+    });
+});
+
+describe('Loops', () => {
+
+    test('natural loops are nested by their headers', async () => {
+        const module = await lower(`
+            int main() {
+                int i = 0, s = 0;
+                while (i < 10) {
+                    int j = 0;
+                    while (j < i) { s = s + j; j = j + 1; }
+                    if (s > 100) break;
+                    i = i + 1;
+                }
+                while (s > 0) s = s / 2;
+                return s;
+            }
+        `);
+        const func = module.functions[0];
+        mem2reg(func);
+        const info = new LoopInfo(func);
+        expect(info.topLevel.map(loop => loop.header)).toEqual(['while.cond.0', 'while.cond.8']);
+        const [outer, last] = info.topLevel;
+        expect(outer.children.map(loop => [loop.header, loop.depth, loop.preheader])).toEqual([['while.cond.3', 2, 'while.body.1']]);
+        expect(outer.preheader).toBe('entry');
+        expect(outer.latches).toEqual(['if.end.7']);
+        // break 跳出的块不在循环中
+        expect(outer.blocks.has('if.then.6')).toBe(false);
+        expect(info.depth('while.body.4')).toBe(2);
+        expect(info.loopFor('while.body.9')).toBe(last);
+        expect(info.depth('entry')).toBe(0);
+        expect(printLoopTree(func, info)).toBe([
+            '; loops in @main',
+            ';  loop while.cond.0: depth 1, preheader entry, latches if.end.7',
+            ';    blocks while.cond.0 while.body.1 while.cond.3 while.body.4 while.end.5 if.end.7',
+            ';    loop while.cond.3: depth 2, preheader while.body.1, latches while.body.4',
+            ';      blocks while.cond.3 while.body.4',
+            ';  loop while.cond.8: depth 1, preheader while.end.2, latches while.body.9',
+            ';    blocks while.cond.8 while.body.9',
+            '',
+        ].join('\n'));
+    });
+
+    test('preheaders are inserted before headers with several outside predecessors', () => {
+        const [func] = parseModule(`
+            define i32 @f(i32 %c) {
+            entry:
+              br %c, left, loop
+            left:
+              jmp loop
+            loop:
+              %x = phi i32 [1, entry], [2, left], [%y, loop]
+              %y = add %x, 1
+              br %y, loop, done
+            done:
+              ret %y
+            }
+        `).functions;
+        expect(new LoopInfo(func).loops[0].preheader).toBeUndefined();
+        expect(insertPreheaders(func)).toBe(true);
+        const text = printModule({ globals: [], declarations: [], functions: [func] });
+        expect(text).toContain('entry:\n  br %c, left, loop.preheader\nleft:\n  jmp loop.preheader\n');
+        expect(text).toContain('loop.preheader:\n  %x.ph = phi i32 [1, entry], [2, left]\n  jmp loop\n');
+        expect(text).toContain('%x = phi i32 [%y, loop], [%x.ph, loop.preheader]');
+        expect(new LoopInfo(func).loops[0].preheader).toBe('loop.preheader');
+        expect(insertPreheaders(func)).toBe(false);
+    });
+
+    test('licm hoists invariant arithmetic and address computations', async () => {
+        const module = await lower(`
+            int a[10][10];
+            int main() {
+                int i = 0, n = getint(), d = getint();
+                while (i < n) {
+                    int j = 0;
+                    while (j < n) {
+                        a[i][j] = i * n + j + n / d + n / 4 + a[0][1];
+                        j = j + 1;
+                    }
+                    i = i + 1;
+                }
+                return 0;
+            }
+        `);
+        const func = module.functions[0];
+        mem2reg(func);
+        expect(licm(func)).toBe(true);
+        const text = printModule(module);
+        // 行地址和 i * n 提到内层循环之前，n / 4 和 a[0] 的地址一直提到外层循环之前
+        expect(text).toMatch(/while\.body\.1:\n {2}%\d+ = gep @a, %i\.1, 40\n {2}%\d+ = mul %i\.1, %\d+\n {2}jmp while\.cond\.3/);
+        expect(text).toMatch(/entry:\n(.*\n)* {2}%\d+ = sdiv %\d+, 4\n {2}%\d+ = gep @a, 0, 40\n {2}%\d+ = gep %\d+, 1, 4\n {2}jmp while\.cond\.0/);
+        // 除数不是常量时可能除以零，load 读到的值可能被循环中的 store 改变，都留在循环中
+        expect(text).toMatch(/while\.body\.4:\n(.*\n)* {2}%\d+ = sdiv %\d+, %\d+\n/);
+        expect(text).toMatch(/while\.body\.4:\n(.*\n)* {2}%\d+ = load i32 %\d+\n/);
+        expect(licm(func)).toBe(false);
+    });
+});
+
+describe('Register allocation', () => {
+
+    const registers: TargetRegisters = {
+        int: { callerSaved: ['t0'], calleeSaved: ['s0', 's1'] },
+        float: { callerSaved: ['ft0'], calleeSaved: ['fs0'] },
+    };
+
+    test('liveness and interference follow copies and calls', () => {
+        const [func] = parseModule(`
+            declare i32 @g(i32)
+            define i32 @f(i32 %a, i32 %b, f32 %x) {
+            entry:
+              %c = add %a, %b
+              %d = copy %c
+              %e = call i32 @g(%d)
+              br %e, loop, done
+            loop:
+              %y = fadd %x, 1.0
+              %e = sub %e, 1
+              br %e, loop, done
+            done:
+              %s = add %e, %a
+              ret %s
+            }
+        `).functions;
+        const liveness = analyzeLiveness(func);
+        expect([...liveness.liveIn.get('entry')!].sort()).toEqual(['a', 'b', 'x']);
+        expect([...liveness.liveOut.get('loop')!].sort()).toEqual(['a', 'e', 'x']);
+        expect([...liveness.liveIn.get('done')!].sort()).toEqual(['a', 'e']);
+        const graph = new InterferenceGraph(func, liveness, new Set());
+        expect(graph.moves).toEqual([{ dest: 'd', source: 'c' }]);
+        // 复制的两端不冲突，不同寄存器类的临时值也不冲突
+        expect(graph.interferes('c', 'd')).toBe(false);
+        expect(graph.interferes('a', 'd')).toBe(true);
+        expect(graph.interferes('a', 'x')).toBe(false);
+        expect([...graph.crossesCall].sort()).toEqual(['a', 'x']);
+        // 循环中的定值和使用代价更高
+        expect(graph.spillCost.get('e')).toBeGreaterThan(graph.spillCost.get('a')!);
+    });
+
+    test('graph coloring coalesces copies and keeps values live across calls in callee-saved registers', () => {
+        const [func] = parseModule(`
+            declare i32 @g(i32)
+            define i32 @f(i32 %a) {
+            entry:
+              %b = add %a, 1
+              %c = copy %b
+              %d = call i32 @g(%c)
+              %e = add %d, %a
+              ret %e
+            }
+        `).functions;
+        const { locations, spillSlots, usedCalleeSaved } = allocateRegisters(func, registers, 'graph');
+        expect(locations.get('b')).toEqual(locations.get('c'));
+        expect(locations.get('a')).toEqual({ register: 's0' });
+        expect(locations.get('d')).toEqual({ register: 't0' });
+        expect(spillSlots).toBe(0);
+        expect(usedCalleeSaved).toEqual(['s0']);
+    });
+
+    test.each<RegisterAllocator>(['graph', 'linear'])('%s allocation spills under register pressure', allocator => {
+        const [func] = parseModule(`
+            define i32 @f(i32 %n) {
+            entry:
+              %a = add %n, 1
+              %b = add %n, 2
+              %c = add %n, 3
+              %d = add %n, 4
+              %e = add %a, %b
+              %f = add %c, %d
+              %g = add %e, %f
+              %h = add %g, %n
+              ret %h
+            }
+        `).functions;
+        const ignore = new Set(['n']);
+        const { locations, spillSlots } = allocateRegisters(func, registers, allocator, ignore);
+        expect(locations.has('n')).toBe(false);
+        expect(spillSlots).toBeGreaterThan(0);
+        // 冲突的临时值不能共用寄存器或栈槽
+        const graph = new InterferenceGraph(func, analyzeLiveness(func), ignore);
+        for (const a of graph.nodes.keys()) {
+            for (const b of graph.neighbors(a)) {
+                expect(locations.get(a)).not.toEqual(locations.get(b));
+            }
+        }
+    });
+});
+
+async function lower(code: string): Promise<IrModule> {
+    const document: LangiumDocument<CompUnit> = await parse(code);
+    expect(document.parseResult.parserErrors.map(e => e.message)).toHaveLength(0);
+    return lowerToIr(document.parseResult.value);
+}
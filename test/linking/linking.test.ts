@@ -1,8 +1,8 @@
-import { EmptyFileSystem, type LangiumDocument } from "langium";
+import { AstUtils, EmptyFileSystem, type LangiumDocument } from "langium";
 import { expandToString as s } from "langium/generate";
 import { parseHelper } from "langium/test";
 import { beforeAll, describe, expect, test } from "vitest";
-import { CompUnit, isCompUnit } from "../../src/language/generated/ast.js";
+import { CompUnit, isCompUnit, isVariableLVal } from "../../src/language/generated/ast.js";
 import { createHelloWorldServices } from "../../src/language/hello-world-module.js";
 
 let services: ReturnType<typeof createHelloWorldServices>;
@@ -40,8 +40,61 @@ describe('Linking tests', () => {
         `);
     });
 
+    test('inner declarations shadow outer ones', async () => {
+        document = await parse(`
+            int x = 1;
+            int f(int x) {
+                return x;
+            }
+            int main() {
+                int y = x;
+                {
+                    int x = 2;
+                    y = x;
+                    {
+                        int x[x];
+                    }
+                }
+                return x;
+            }
+        `);
+
+        // 每个对 x 的引用解析到的声明所在的行：形参、全局、内层、内层（数组长度中还看不到正在定义的 x）、全局
+        expect(checkDocumentValid(document) || referencedLines(document, 'x')).toEqual([3, 2, 9, 9, 2]);
+    });
+
+    test('names are visible only after their declaration', async () => {
+        document = await parse(`
+            int f() {
+                int local = 1;
+                return local;
+            }
+            int main() {
+                int a = b;
+                int b = 1;
+                return a + b + c + local;
+            }
+            int c = 3;
+        `);
+
+        expect(checkDocumentValid(document) || referencedLines(document, 'b')).toEqual([undefined, 8]);
+        expect(referencedLines(document, 'c')).toEqual([undefined]);
+        expect(referencedLines(document, 'local')).toEqual([3, undefined]);
+    });
+
 });
 
+/**
+ * 名为 name 的变量引用依次解析到的声明所在的行（从 1 开始），无法解析时为 undefined
+ */
+function referencedLines(document: LangiumDocument, name: string): Array<number | undefined> {
+    return AstUtils.streamAllContents(document.parseResult.value)
+        .filter(isVariableLVal)
+        .filter(lval => lval.value.$refText === name)
+        .toArray()
+        .map(lval => lval.value.ref?.$cstNode && lval.value.ref.$cstNode.range.start.line + 1);
+}
+
 function checkDocumentValid(document: LangiumDocument): string | undefined {
     return document.parseResult.parserErrors.length && s`
         Parser errors:
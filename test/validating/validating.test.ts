@@ -1,7 +1,8 @@
-import { EmptyFileSystem, type LangiumDocument } from "langium";
+import { EmptyFileSystem, TextDocument, type LangiumDocument } from "langium";
 import { expandToString as s } from "langium/generate";
 import { parseHelper } from "langium/test";
 import { beforeAll, describe, expect, test } from "vitest";
+import { DiagnosticSeverity, DiagnosticTag } from "vscode-languageserver";
 import { CompUnit, isCompUnit } from "../../src/language/generated/ast.js";
 import { createHelloWorldServices } from "../../src/language/hello-world-module.js";
 
@@ -49,6 +50,738 @@ describe('Validating', () => {
         );
     });
 
+    test('array size given by a constant expression', async () => {
+        document = await parse(`
+            const int N = 2;
+            int main() {
+                int ok[N * 2] = {1, 2, 3, 4};
+                int overflow[N * 2 - 1] = {1, 2, 3, 4};
+                return ok[0] + overflow[0];
+            }
+        `, { validation: true });
+
+        const errors = errorsToString(document);
+        expect(errors).not.toContain('数组 ok');
+        expect(errors).toContain('数组 overflow 的初始化元素数量超过了数组大小');
+    });
+
+});
+
+describe('Array initializers', () => {
+
+    test('brace elision in multi-dimensional initializers', async () => {
+        document = await parse(`
+            const int N = 2;
+            int g[N + 1][2] = {{1}, 2, 3};
+            const int c[2][2] = {{1, 2}, {3}};
+            int main() {
+                int a[2][3] = {1, 2, 3, {4}};
+                int m[2][2][2] = {1, 2, {3, 4}, {{5}, 6, 7}};
+                int e[4][2] = {};
+                return a[0][0] + m[0][0][0] + g[0][0] + c[0][0] + e[0][0];
+            }
+        `, { validation: true });
+
+        expect(checkDocumentValid(document) || errorsToString(document)).toHaveLength(0);
+    });
+
+    test('too many elements for the array or a sub-array', async () => {
+        document = await parse(`
+            int main() {
+                int a[2][3] = {{1, 2, 3, 4}, {5}};
+                int b[2][2] = {1, 2, 3, 4, 5};
+                return a[0][0] + b[0][0];
+            }
+        `, { validation: true });
+
+        const errors = document.diagnostics!.filter(d => d.severity === DiagnosticSeverity.Error);
+        expect(errors).toHaveLength(2);
+        expect(errors[0].message).toContain('数组 a 的子数组初值中元素过多，int[3] 只能容纳 3 个元素');
+        // 诊断指向多出来的那一项初值
+        expect(document.textDocument.getText(errors[0].range)).toBe('4');
+        expect(errors[1].message).toContain('数组 b 的初始化元素数量超过了数组大小');
+        expect(document.textDocument.getText(errors[1].range)).toBe('5');
+    });
+
+    test('braces that do not match the array shape', async () => {
+        document = await parse(`
+            int main() {
+                int a[2][3] = {1, {2}};
+                int b[2][3] = {1, 2, {3}, 4};
+                int x = {1};
+                int y[2] = 1;
+                return a[0][0] + b[0][0] + x + y[0];
+            }
+        `, { validation: true });
+
+        // 多余的花括号与编译器一样按单个元素处理，只给出警告
+        const errors = document.diagnostics!.filter(d => d.severity === DiagnosticSeverity.Error);
+        expect(errors).toHaveLength(1);
+        expect(errors[0].message).toContain('数组 y 的初值必须写在花括号中');
+        const warnings = (document.diagnostics ?? [])
+            .filter(d => d.code === 'invalid-initializer' && d.severity === DiagnosticSeverity.Warning)
+            .map(d => d.message.split('\n')[0]);
+        expect(warnings).toEqual([
+            "数组 a 的第 2 项初值 '{2}' 没有对齐到任何子数组，会被当作单个元素的初值，花括号是多余的。",
+            "数组 b 的第 3 项初值 '{3}' 没有对齐到任何子数组，会被当作单个元素的初值，花括号是多余的。",
+            '变量 x 不是数组，初值的花括号是多余的。',
+        ]);
+    });
+
+    test('const arrays are checked like variables', async () => {
+        document = await parse(`
+            const int m[2] = {1, 2, 3};
+            int main() {
+                const int j[2][2] = {{1}, {2}, {3}};
+                const int k = {1};
+                return m[0] + j[0][0] + k;
+            }
+        `, { validation: true });
+
+        const errors = errorsToString(document);
+        expect(errors).toContain('数组 m 的初始化元素数量超过了数组大小');
+        expect(errors).toContain('数组 j 的初始化元素数量超过了数组大小');
+        expect(document.diagnostics?.find(d => d.code === 'invalid-initializer')?.message).toContain('常量 k 不是数组，初值的花括号是多余的');
+    });
+
+    test('a dimension that refers to the array being defined', async () => {
+        document = await parse(`
+            const int a[a[0]] = {1};
+        `, { validation: true });
+
+        // 名字的作用域从声明符之后开始，长度中的 a 不指向正在定义的数组
+        expect(errorsToString(document)).toContain("使用了未定义的变量 'a'");
+    });
+
+});
+
+describe('Runtime library', () => {
+
+    test('sylib functions resolve without errors', async () => {
+        document = await parse(`
+            int a[10];
+            int main() {
+                starttime();
+                int n = getarray(a);
+                putint(getint());
+                putch(10);
+                putfloat(getfloat());
+                putarray(n, a);
+                stoptime();
+                return getch();
+            }
+        `, { validation: true });
+
+        expect(checkDocumentValid(document) || errorsToString(document)).toHaveLength(0);
+    });
+
+    test('sylib calls are checked against their signatures', async () => {
+        document = await parse(`
+            int main() {
+                putint(1, 2);
+                return 0;
+            }
+        `, { validation: true });
+
+        expect(errorsToString(document)).toContain('参数个数不匹配');
+    });
+
+    test('functions in the file shadow sylib functions', async () => {
+        document = await parse(`
+            int putint(int a, int b) {
+                return a + b;
+            }
+            int main() {
+                return putint(1, 2);
+            }
+        `, { validation: true });
+
+        expect(checkDocumentValid(document) || errorsToString(document)).toHaveLength(0);
+    });
+
+});
+
+describe('Type checking', () => {
+
+    test('well-typed int and float code has no type errors', async () => {
+        document = await parse(`
+            float scale(float x[], int n) {
+                return x[n - 1] * 2;
+            }
+            int main() {
+                int a[2][3];
+                float f[4] = {1.5, 2};
+                int i = 7 % 3 + f[1] / 2;
+                a[1][2] = i;
+                putfarray(4, f);
+                putarray(3, a[1]);
+                if (scale(f, 2) > 1.0 && !i) {
+                    return 1;
+                }
+                return 0;
+            }
+        `, { validation: true });
+
+        expect(checkDocumentValid(document) || errorsToString(document)).toHaveLength(0);
+    });
+
+    test('modulo on a float', async () => {
+        document = await parse(`
+            int main() {
+                float f = 2.5;
+                return 7 % f;
+            }
+        `, { validation: true });
+
+        expect(errorsToString(document)).toContain("类型不匹配：运算符 '%' 的操作数必须是 int 类型，实际为 float");
+        expect(document.diagnostics?.find(d => d.message.startsWith('类型不匹配'))?.code).toBe('type-mismatch');
+    });
+
+    test('float passed to an int array parameter', async () => {
+        document = await parse(`
+            int sum(int a[], int n) {
+                return a[0] + n;
+            }
+            int main() {
+                float f[3];
+                float x = 1.0;
+                return sum(x, 1) + sum(f, 3);
+            }
+        `, { validation: true });
+
+        const errors = errorsToString(document);
+        expect(errors).toContain("第 1 个参数 'a' 的类型为 int[]，实际传入 float。");
+        expect(errors).toContain("第 1 个参数 'a' 的类型为 int[]，实际传入 float[3]。");
+    });
+
+    test('indexing a scalar and using arrays as values', async () => {
+        document = await parse(`
+            int main() {
+                int x = 1;
+                int a[3];
+                x = x[0] + a;
+                a = 1;
+                return a[1.5];
+            }
+        `, { validation: true });
+
+        const errors = errorsToString(document);
+        expect(errors).toContain("'x' 的类型为 int，不是数组，不能使用下标访问");
+        expect(errors).toContain('类型为 int[3] 的数组不能参与运算');
+        expect(errors).toContain("不能给类型为 int[3] 的数组 'a' 整体赋值");
+        expect(errors).toContain('数组下标必须是 int 类型，实际为 float');
+    });
+
+    test('array arguments must match the rank and inner dimensions', async () => {
+        document = await parse(`
+            int row(int b[]) {
+                return b[0];
+            }
+            int grid(int b[][3]) {
+                return b[0][0];
+            }
+            int main() {
+                int a[2][3];
+                int c[2][4];
+                int x = 1;
+                return row(a[1]) + grid(a) + grid(c) + grid(a[1]) + row(a) + row(a[0][1]) + grid(x);
+            }
+        `, { validation: true });
+
+        const errors = errorsToString(document);
+        expect(errors).toContain("函数 'grid' 的第 1 个参数 'b' 的类型为 int[][3]，实际传入 int[2][4]，第 2 维的长度应为 3，实际为 4。");
+        expect(errors).toContain("函数 'grid' 的第 1 个参数 'b' 的类型为 int[][3]，实际传入 int[3]，数组的维数应为 2，实际为 1。");
+        expect(errors).toContain("函数 'row' 的第 1 个参数 'b' 的类型为 int[]，实际传入 int[2][3]，数组的维数应为 1，实际为 2。");
+        expect(errors).toContain("函数 'row' 的第 1 个参数 'b' 的类型为 int[]，实际传入 int。");
+        expect(errors).toContain("函数 'grid' 的第 1 个参数 'b' 的类型为 int[][3]，实际传入 int。");
+        // row(a[1]) 和 grid(a) 的形状正确
+        expect(document.diagnostics?.filter(d => d.code === 'type-mismatch')).toHaveLength(5);
+    });
+
+    test('calls without arguments are checked against the parameter count', async () => {
+        document = await parse(`
+            int f(int n) {
+                return n;
+            }
+            int main() {
+                return f();
+            }
+        `, { validation: true });
+
+        expect(errorsToString(document)).toContain('参数个数不匹配。预期 1 个参数，但实际调用时传递了 0 个参数。');
+    });
+
+    test('a call with too few arguments is reported once', async () => {
+        document = await parse(`
+            int f(int a, int b) {
+                return a + b;
+            }
+            int main() {
+                return f(1);
+            }
+        `, { validation: true });
+
+        expect(document.diagnostics?.filter(d => d.code === 'parameter-mismatch')).toHaveLength(1);
+    });
+
+    test('using the result of a void call is reported once', async () => {
+        document = await parse(`
+            void g(int n) {
+                putint(n);
+            }
+            int main() {
+                int y = g(1);
+                return y;
+            }
+        `, { validation: true });
+
+        expect(document.diagnostics?.filter(d => d.code === 'void-assignment')).toHaveLength(1);
+    });
+
+});
+
+describe('Return paths', () => {
+
+    test('returns in both branches of an if and in an endless loop', async () => {
+        document = await parse(`
+            int sign(int x) {
+                if (x < 0) {
+                    return -1;
+                } else if (x > 0) {
+                    return 1;
+                } else {
+                    return 0;
+                }
+            }
+            int spin() {
+                while (1) {
+                    return 1;
+                }
+            }
+            int main() {
+                return sign(spin());
+            }
+        `, { validation: true });
+
+        expect(checkDocumentValid(document) || errorsToString(document)).toHaveLength(0);
+    });
+
+    test('return only inside a loop body', async () => {
+        document = await parse(`
+            int find(int a[], int n) {
+                int i = 0;
+                while (i < n) {
+                    if (a[i] == 0) {
+                        return i;
+                    }
+                    i = i + 1;
+                }
+            }
+        `, { validation: true });
+
+        expect(errorsToString(document)).toContain(
+            '有返回值: int 的函数缺少 return 语句：当 while (i < n) 的条件不成立时，执行到函数末尾没有返回值。'
+        );
+    });
+
+    test('missing else branch suggests where to add the return', async () => {
+        document = await parse(`
+            float half(int x) {
+                if (x) {
+                    return x / 2.0;
+                }
+            }
+        `, { validation: true });
+
+        const diagnostic = document.diagnostics?.find(d => d.code === 'missing-return');
+        expect(diagnostic?.message).toContain('当 if (x) 的条件不成立时');
+        expect(diagnostic?.data).toMatchObject({
+            returnType: 'float',
+            insertPosition: { line: 4, character: 17 },
+            indentation: ' '.repeat(16),
+        });
+    });
+
+});
+
+describe('Unreachable code', () => {
+
+    test('statements after jumps and constant false conditions', async () => {
+        document = await parse(`
+            int main() {
+                int i = 0;
+                while (i < 10) {
+                    i = i + 1;
+                    continue;
+                    putint(i);
+                }
+                if (0) {
+                    putint(1);
+                }
+                while (0) i = 2;
+                return i;
+                putint(i);
+                i = 3;
+            }
+        `, { validation: true });
+
+        const unreachable = (document.diagnostics ?? []).filter(d => d.code === 'unreachable-code');
+        expect(unreachable.map(d => d.message)).toEqual([
+            expect.stringContaining("'continue' 之后的语句永远不会执行"),
+            expect.stringContaining("条件 '0' 恒为假，if 分支永远不会执行"),
+            expect.stringContaining("条件 '0' 恒为假，while 循环体永远不会执行"),
+            expect.stringContaining("'return' 之后的语句永远不会执行"),
+        ]);
+        expect(unreachable.every(d => d.tags?.includes(DiagnosticTag.Unnecessary))).toBe(true);
+        expect(unreachable[3].range.start.line).toBe(13);
+        expect(unreachable[3].range.end.line).toBe(14);
+    });
+
+    test('code after loops and branches that never fall through', async () => {
+        document = await parse(`
+            int f(int x) {
+                if (x) {
+                    return 1;
+                } else {
+                    return 2;
+                }
+                x = 1;
+            }
+            int main() {
+                while (1) {
+                    if (getint()) break;
+                }
+                while (1) {
+                }
+                return f(0);
+            }
+        `, { validation: true });
+
+        const unreachable = (document.diagnostics ?? []).filter(d => d.code === 'unreachable-code');
+        expect(unreachable.map(d => d.range.start.line)).toEqual([7, 15]);
+    });
+
+    test('quick fix removes the dead statements', async () => {
+        document = await parse(s`
+            int main() {
+                if (1) putint(1);
+                else putint(2);
+                return 0;
+                putint(3);
+            }
+        `, { validation: true });
+
+        const unreachable = (document.diagnostics ?? []).filter(d => d.code === 'unreachable-code');
+        const actions = await services.HelloWorld.lsp.QuickFixProvider.getCodeActions({
+            textDocument: { uri: document.uri.toString() },
+            range: unreachable[0].range,
+            context: { diagnostics: unreachable },
+        });
+        const edits = actions
+            .filter(action => action.title.startsWith('删除永远不会执行'))
+            .flatMap(action => action.edit?.changes?.[document!.uri.toString()] ?? []);
+        expect(TextDocument.applyEdits(document.textDocument, edits)).toBe(s`
+            int main() {
+                putint(1);
+                return 0;
+            }
+        `);
+    });
+
+});
+
+describe('Unused symbols', () => {
+
+    test('unused variables, constants, parameters and functions', async () => {
+        document = await parse(`
+            const int N = 4, UNUSED = 1;
+            int counter;
+            int helper(int x, int y, int out[]) {
+                out[0] = x;
+                return x;
+            }
+            int recurse(int n) {
+                return recurse(n - 1);
+            }
+            int main() {
+                int a[N], used = 2, idle = getint();
+                int written, scratch[2];
+                written = used;
+                scratch[0] = 1;
+                return helper(1, 2, a);
+            }
+        `, { validation: true });
+
+        const warnings = (document.diagnostics ?? [])
+            .filter(d => d.code === 'unused-variable' || d.code === 'unread-variable')
+            .map(d => `${d.code}: ${d.message}`);
+        expect(warnings).toEqual([
+            "unused-variable: 未使用的常量 'UNUSED'。",
+            "unused-variable: 未使用的变量 'counter'。",
+            "unused-variable: 未使用的参数 'y'。",
+            "unused-variable: 未使用的变量 'idle'。",
+            "unread-variable: 变量 'written' 只被赋值，从未被读取。",
+            "unread-variable: 变量 'scratch' 只被赋值，从未被读取。",
+            "unused-variable: 未使用的函数 'recurse'。",
+        ]);
+        expect(document.diagnostics?.find(d => d.message.includes("'idle'"))?.tags).toEqual([DiagnosticTag.Unnecessary]);
+        expect(warnings.join('\n')).not.toContain("'main'");
+    });
+
+    test('quick fix removes only the unused definition', async () => {
+        document = await parse(s`
+            int main() {
+                int a = 1, b = 2, c = getint();
+                int d;
+                return a;
+            }
+        `, { validation: true });
+
+        const unused = (document.diagnostics ?? []).filter(d => d.code === 'unused-variable');
+        const actions = await services.HelloWorld.lsp.QuickFixProvider.getCodeActions({
+            textDocument: { uri: document.uri.toString() },
+            range: unused[0].range,
+            context: { diagnostics: unused },
+        });
+        // c 的初值调用了函数，不提供删除
+        expect(actions.filter(action => action.title.startsWith('删除未使用的')).map(action => action.title)).toEqual([
+            "删除未使用的变量 'b'",
+            "删除未使用的变量 'd'",
+        ]);
+        const edits = actions
+            .filter(action => action.title.startsWith('删除未使用的'))
+            .flatMap(action => action.edit?.changes?.[document!.uri.toString()] ?? []);
+        expect(TextDocument.applyEdits(document.textDocument, edits)).toBe(s`
+            int main() {
+                int a = 1, c = getint();
+                return a;
+            }
+        `);
+    });
+
+});
+
+describe('Uninitialized variables', () => {
+
+    test('reads before an assignment on every path', async () => {
+        document = await parse(`
+            int g;
+            int main() {
+                int a, b, c, d, e;
+                int arr[2];
+                a = 1;
+                if (getint()) {
+                    b = 2;
+                    c = 3;
+                } else {
+                    c = 4;
+                }
+                while (a < 10) {
+                    int t;
+                    if (a > 5) t = a;
+                    putint(t);
+                    a = a + 1;
+                }
+                d = d + 1;
+                putint(arr[0] + g);
+                return a + b + c + d + e;
+            }
+        `, { validation: true });
+
+        const warnings = (document.diagnostics ?? [])
+            .filter(d => d.code === 'uninitialized-variable')
+            .map(d => `line ${d.range.start.line + 1}: ${d.message}`);
+        expect(warnings).toEqual([
+            "line 16: 变量 't' 在某些执行路径上没有赋值就被读取。",
+            "line 19: 变量 'd' 没有赋值就被读取。",
+            "line 21: 变量 'b' 在某些执行路径上没有赋值就被读取。",
+            "line 21: 变量 'e' 没有赋值就被读取。",
+        ]);
+    });
+
+    test('assignments inside an endless loop reach the code after its break', async () => {
+        document = await parse(`
+            int main() {
+                int x;
+                while (1) {
+                    x = getint();
+                    if (x > 0) break;
+                }
+                return x;
+            }
+        `, { validation: true });
+
+        expect((document.diagnostics ?? []).filter(d => d.code === 'uninitialized-variable')).toHaveLength(0);
+    });
+
+});
+
+describe('Array indices', () => {
+
+    test('constant indices outside the declared dimensions', async () => {
+        document = await parse(`
+            const int N = 3;
+            const int table[2][N] = {{1, 2, 3}, {4, 5, 6}};
+            int first(int a[][3]) {
+                return a[-1][2] + a[100][N];
+            }
+            int main() {
+                int a[N][2];
+                int i = getint();
+                a[N - 1][1] = table[1][2];
+                a[N][0] = table[2][0];
+                a[i][-1] = 1;
+                return a[0][1][2] + first(a);
+            }
+        `, { validation: true });
+
+        const errors = errorsToString(document);
+        expect(errors).toContain("'a' 的第 1 个下标为 -1，不能为负数");
+        expect(errors).not.toContain('下标 100');
+        expect(errors).toContain("'a' 的第 2 维长度为 3，下标 3 超出了范围 [0, 2]");
+        expect(errors).toContain("'a' 的第 1 维长度为 3，下标 3 超出了范围 [0, 2]");
+        expect(errors).toContain("'table' 的第 1 维长度为 2，下标 2 超出了范围 [0, 1]");
+        expect(errors).toContain("'a' 的第 2 个下标为 -1，不能为负数");
+        expect(errors).toContain("'a' 的类型为 int[3][2]，最多只能使用 2 个下标，实际使用了 3 个");
+        expect(errors).not.toContain("'table' 的第 2 维");
+        expect(document.diagnostics?.filter(d => d.code === 'array-index-out-of-bounds')).toHaveLength(5);
+    });
+
+});
+
+describe('Const correctness', () => {
+
+    test('assignments to constants and non-constant expressions', async () => {
+        document = await parse(`
+            int n = 4;
+            int size() { return 2; }
+            const int N = 3, M = n + 1;
+            const int table[2] = {N, size()};
+            int a[n], b[N * 2];
+            int sum(int m[][n]) {
+                return m[0][0];
+            }
+            int main() {
+                N = 4;
+                return N + M + table[0] + a[0] + b[0] + sum(a);
+            }
+        `, { validation: true });
+
+        const errors = errorsToString(document);
+        expect(errors).toContain("line 11: 不能给常量 'N' 赋值。");
+        expect(errors).toContain("line 4: 常量 'M' 的初值必须是常量表达式：'n' 不是常量，不能用于常量表达式。");
+        expect(errors).toContain("line 5: 常量 'table' 的初值必须是常量表达式：常量表达式中不能调用函数 'size'。");
+        expect(errors).toContain("line 6: 数组 'a' 的长度必须是常量表达式：'n' 不是常量");
+        expect(errors).toContain("line 7: 形参 'm' 的数组长度必须是常量表达式：'n' 不是常量");
+        expect(errors).not.toContain("数组 'b'");
+    });
+
+    test('quick fixes remove const or introduce a new variable', async () => {
+        document = await parse(s`
+            int main() {
+                const int limit = 10;
+                int x = limit;
+                limit = limit * 2;
+                return x + limit;
+            }
+        `, { validation: true });
+
+        const diagnostic = document.diagnostics!.find(d => d.code === 'assign-to-const')!;
+        const actions = await services.HelloWorld.lsp.QuickFixProvider.getCodeActions({
+            textDocument: { uri: document.uri.toString() },
+            range: diagnostic.range,
+            context: { diagnostics: [diagnostic] },
+        });
+        const apply = (title: string) => TextDocument.applyEdits(
+            document!.textDocument,
+            actions.find(action => action.title === title)?.edit?.changes?.[document!.uri.toString()] ?? []
+        );
+        expect(apply("去掉 'limit' 定义中的 const")).toContain('    int limit = 10;');
+        expect(apply("引入新变量代替常量 'limit'")).toBe(s`
+            int main() {
+                const int limit = 10;
+                int x = limit;
+                int limit_var = limit * 2;
+                return x + limit_var;
+            }
+        `);
+    });
+
+});
+
+describe('Program entry point', () => {
+
+    test('missing main', async () => {
+        document = await parse(s`
+            int helper() {
+                return 1;
+            }
+        `, { validation: true });
+
+        const diagnostic = document.diagnostics?.find(d => d.code === 'missing-main');
+        expect(diagnostic?.message).toContain("程序缺少 main 函数，需要定义 'int main()' 作为程序入口。");
+        const actions = await services.HelloWorld.lsp.QuickFixProvider.getCodeActions({
+            textDocument: { uri: document.uri.toString() },
+            range: diagnostic!.range,
+            context: { diagnostics: [diagnostic!] },
+        });
+        const edits = actions.find(action => action.title === '添加 main 函数')?.edit?.changes?.[document.uri.toString()] ?? [];
+        expect(TextDocument.applyEdits(document.textDocument, edits)).toContain('}\n\nint main() {\n    return 0;\n}\n');
+    });
+
+    test('void main with parameters', async () => {
+        document = await parse(`
+            void main(int argc, int argv[]) {
+                putint(argc);
+            }
+        `, { validation: true });
+
+        const errors = errorsToString(document);
+        expect(errors).toContain('main 函数的返回类型必须是 int，而不是 void。');
+        expect(errors).toContain('main 函数不能有参数，这里定义了 2 个参数。');
+        expect(document.diagnostics?.find(d => d.code === 'main-return-type')?.data?.functypeRange)
+            .toEqual({ start: { line: 1, character: 12 }, end: { line: 1, character: 16 } });
+        expect(document.diagnostics?.find(d => d.code === 'main-parameters')?.range)
+            .toEqual({ start: { line: 1, character: 22 }, end: { line: 1, character: 42 } });
+    });
+
+});
+
+describe('Numeric literals', () => {
+
+    test('literals at the limits of int and float', async () => {
+        document = await parse(`
+            int main() {
+                int max = 2147483647, min = -2147483648;
+                int hex = 0x7fffffff, oct = 0o17777777777, dec = 0d2147483647;
+                float big = 3.4e38, small = 1.5e-45;
+                return max + min + hex + oct + dec + big + small;
+            }
+        `, { validation: true });
+
+        expect(checkDocumentValid(document) || errorsToString(document)).toHaveLength(0);
+        expect(document.diagnostics?.filter(d => d.code === 'number-out-of-range')).toHaveLength(0);
+    });
+
+    test('integers outside of int, floats outside of float and invalid octal digits', async () => {
+        document = await parse(`
+            int main() {
+                int a = 2147483648, b = -2147483649, c = 0x100000000, d = 0o19;
+                float e = 3.5e38, f = 1.0e-50;
+                return a + b + c + d + e + f;
+            }
+        `, { validation: true });
+
+        const errors = errorsToString(document);
+        expect(errors).toContain("整数字面量 '2147483648' 超出了 int 的表示范围 [-2147483648, 2147483647]。");
+        expect(errors).toContain("整数字面量 '2147483649' 超出了 int 的表示范围");
+        expect(errors).toContain("整数字面量 '0x100000000' 超出了 int 的表示范围");
+        expect(errors).toContain("八进制字面量 '0o19' 中含有无效的数字 '9'，八进制只能使用 0 到 7。");
+        expect(errors).toContain("浮点数字面量 '3.5e38' 超出了 float 的表示范围。");
+        expect(document.diagnostics?.find(d => d.severity === DiagnosticSeverity.Warning && d.code === 'number-out-of-range')?.message)
+            .toContain("浮点数字面量 '1.0e-50' 太小，会被舍入为 0。");
+    });
+
 });
 
 function checkDocumentValid(document: LangiumDocument): string | undefined {
@@ -64,3 +797,10 @@ function checkDocumentValid(document: LangiumDocument): string | undefined {
 function diagnosticToString(d: any): string {
     return `line ${d.range.start.line + 1}: ${d.message} [${d.source || 'unknown'}]`;
 }
+
+function errorsToString(document: LangiumDocument): string {
+    return (document.diagnostics ?? [])
+        .filter(d => d.severity === DiagnosticSeverity.Error)
+        .map(diagnosticToString)
+        .join('\n');
+}